@@ -0,0 +1,51 @@
+import { Logger } from "./Logger";
+import { RotatingLogFile } from "./RotatingLogFile";
+
+export interface IChatHistoryEntry {
+    /** ISO 8601 */
+    timestamp: string;
+    channel: string;
+    userId?: string;
+    username: string;
+    messageId?: string;
+    message: string;
+    /** Only the tags worth keeping for later review */
+    tags: { [key: string]: string };
+}
+
+export interface IChatHistoryConfig {
+    /** Defaults to true */
+    enabled?: boolean;
+    /** A log is continued in a new file once it reaches this size (defaults to 10 MB) */
+    maxFileBytes?: number;
+    /** Logs older than this are deleted (defaults to 90 days; 0 keeps logs forever) */
+    retentionDays?: number;
+}
+
+/**
+ * Appends chat messages to JSONL files, starting a new file each (UTC) day or whenever the current file grows too large
+ */
+export class ChatHistoryLog {
+    public static readonly defaultMaxFileBytes = 10 * 1024 * 1024;
+    public static readonly defaultRetentionDays = 90;
+
+    protected readonly _file: RotatingLogFile;
+
+    public constructor(directory: string, config: IChatHistoryConfig) {
+        const log = Logger.get("chat");
+        this._file = new RotatingLogFile(directory, "chatHistory", "jsonl", {
+            maxFileBytes: config.maxFileBytes ?? ChatHistoryLog.defaultMaxFileBytes,
+            retentionDays: config.retentionDays ?? ChatHistoryLog.defaultRetentionDays,
+        }, (fileName, err) => err
+            ? log.error(`Error deleting expired chat history ${fileName}: ${err}`)
+            : log.info(`Deleted expired chat history: ${fileName}`));
+    }
+
+    public append(entry: IChatHistoryEntry): void {
+        this._file.appendLine(JSON.stringify(entry));
+    }
+
+    public deleteExpiredLogs(): void {
+        this._file.deleteExpiredLogs();
+    }
+}
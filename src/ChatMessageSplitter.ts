@@ -0,0 +1,92 @@
+export interface IChatMessageSplitOptions {
+    maxLength: number;
+    /** Append "(1/3)"-style markers to every part of a message that had to be split */
+    continuationMarkers: boolean;
+}
+
+/**
+ * Breaks long chat messages into parts that each fit within the server's message length limit
+ */
+export class ChatMessageSplitter {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() {
+    }
+
+    /**
+     * Breaks only on whitespace, so words (including URLs & emote codes) are kept whole. A single word is only broken up if it can't fit in a part by itself.
+     * @returns the message unchanged if it already fits
+     */
+    public static split(message: string, options: IChatMessageSplitOptions): string[] {
+        if (message.length <= options.maxLength) {
+            return [message];
+        }
+        if (!options.continuationMarkers) {
+            return ChatMessageSplitter.splitWords(message, options.maxLength);
+        }
+
+        // The space needed for a marker depends on the number of parts, which in turn depends on the space left for each part
+        for (let numDigits = 1; ; numDigits++) {
+            const maxMarkerLength = ChatMessageSplitter.getMarker(Math.pow(10, numDigits) - 1, Math.pow(10, numDigits) - 1).length;
+            if (options.maxLength - maxMarkerLength < 1) {
+                return ChatMessageSplitter.splitWords(message, options.maxLength);
+            }
+
+            const parts = ChatMessageSplitter.splitWords(message, options.maxLength - maxMarkerLength);
+            if (`${parts.length}`.length <= numDigits) {
+                return parts.map((part, i) => `${part}${ChatMessageSplitter.getMarker(i + 1, parts.length)}`);
+            }
+        }
+    }
+
+    protected static getMarker(partNumber: number, numParts: number): string {
+        return ` (${partNumber}/${numParts})`;
+    }
+
+    protected static splitWords(message: string, maxLength: number): string[] {
+        const words = message.split(/\s+/).filter(n => n.length > 0);
+        const parts: string[] = [];
+        let currentPart = "";
+        for (const word of words) {
+            const candidate = currentPart ? `${currentPart} ${word}` : word;
+            if (candidate.length <= maxLength) {
+                currentPart = candidate;
+                continue;
+            }
+
+            if (currentPart) {
+                parts.push(currentPart);
+            }
+            if (word.length <= maxLength) {
+                currentPart = word;
+                continue;
+            }
+
+            const wordChunks = ChatMessageSplitter.splitCodePoints(word, maxLength);
+            currentPart = wordChunks.pop() ?? "";
+            parts.push(...wordChunks);
+        }
+        if (currentPart) {
+            parts.push(currentPart);
+        }
+        return parts;
+    }
+
+    /**
+     * Hard-splits text that has no whitespace to break on, without separating the halves of a surrogate pair
+     */
+    protected static splitCodePoints(text: string, maxLength: number): string[] {
+        const chunks: string[] = [];
+        let currentChunk = "";
+        for (const codePoint of text) {
+            if (currentChunk.length + codePoint.length > maxLength && currentChunk) {
+                chunks.push(currentChunk);
+                currentChunk = "";
+            }
+            currentChunk += codePoint;
+        }
+        if (currentChunk) {
+            chunks.push(currentChunk);
+        }
+        return chunks;
+    }
+}
@@ -0,0 +1,219 @@
+import { performance } from "perf_hooks";
+import { Logger } from "./Logger";
+
+const log = Logger.get("chat");
+
+export enum ChatPriority {
+    /** Moderation & other time-sensitive messages */
+    High = 0,
+    /** Responses to chat commands */
+    Normal = 1,
+    /** Automatic posts (e.g. timers) that can afford to wait */
+    Low = 2,
+}
+
+export interface IChatRateLimits {
+    /** Maximum messages in any window, counting only channels where the bot has no elevated status */
+    messagesPerWindow: number;
+    /** Maximum messages in any window for channels where the bot is a moderator (or otherwise exempt from the normal limit) */
+    elevatedMessagesPerWindow: number;
+    windowSeconds: number;
+}
+
+/**
+ * Holds up to half of a rate limit's messages at once & refills the other half over the course of the window,
+ * so that no sliding window can ever contain more than the full limit.
+ */
+class TokenBucket {
+    protected _tokens: number;
+    protected _lastRefillMillis: number = performance.now();
+    protected readonly _capacity: number;
+    protected readonly _tokensPerMilli: number;
+
+    public constructor(messagesPerWindow: number, windowSeconds: number) {
+        this._capacity = Math.max(1, Math.floor(messagesPerWindow / 2));
+        this._tokensPerMilli = Math.max(1, messagesPerWindow - this._capacity) / (windowSeconds * 1000);
+        this._tokens = this._capacity;
+    }
+
+    public take(): void {
+        this.refill();
+        this._tokens = Math.max(0, this._tokens - 1);
+    }
+
+    public millisUntilAvailable(): number {
+        this.refill();
+        if (this._tokens >= 1) {
+            return 0;
+        }
+        return Math.ceil((1 - this._tokens) / this._tokensPerMilli);
+    }
+
+    protected refill(): void {
+        const now = performance.now();
+        this._tokens = Math.min(this._capacity, this._tokens + (now - this._lastRefillMillis) * this._tokensPerMilli);
+        this._lastRefillMillis = now;
+    }
+}
+
+interface IQueuedChatMessage {
+    channel: string;
+    message: string;
+    /** Minimum time since the previous message to the same channel was sent */
+    minGapMillis: number;
+}
+
+/**
+ * Paces outgoing chat messages to stay within the server's rate limits. Higher priority messages are always sent first.
+ * Time is measured with performance.now(), so that the system clock (or a simulation's virtual clock) moving backwards can't hold messages up.
+ */
+export class ChatSendQueue {
+    protected static readonly priorityOrder = [ChatPriority.High, ChatPriority.Normal, ChatPriority.Low];
+    /** Twitch silently drops a message identical to the previous one sent to the same channel within this window (unless the sender is elevated) */
+    public static readonly duplicateWindowSeconds = 30;
+
+    protected readonly _lanes: { [priority in ChatPriority]: IQueuedChatMessage[] } = {
+        [ChatPriority.High]: [],
+        [ChatPriority.Normal]: [],
+        [ChatPriority.Low]: [],
+    };
+    /** Every message draws from both buckets, but only the elevated bucket is required to have room when the bot is elevated in the target channel */
+    protected readonly _bucket: TokenBucket;
+    protected readonly _elevatedBucket: TokenBucket;
+    protected readonly _elevatedChannels = new Set<string>();
+    protected readonly _lastSentByChannel: { [channel: string]: { message: string, sentAtMillis: number } } = {};
+    protected _drainTimeout?: NodeJS.Timeout;
+    protected _isPaused = false;
+
+    public constructor(protected readonly _send: (channel: string, message: string) => void, limits: IChatRateLimits) {
+        this._bucket = new TokenBucket(limits.messagesPerWindow, limits.windowSeconds);
+        this._elevatedBucket = new TokenBucket(limits.elevatedMessagesPerWindow, limits.windowSeconds);
+    }
+
+    /** Number of messages waiting to be sent */
+    public get depth(): number {
+        return ChatSendQueue.priorityOrder.reduce((sum, priority) => sum + this._lanes[priority].length, 0);
+    }
+
+    public getDepth(priority: ChatPriority): number {
+        return this._lanes[priority].length;
+    }
+
+    public isElevated(channel: string): boolean {
+        return this._elevatedChannels.has(channel.toLowerCase());
+    }
+
+    /**
+     * Records whether the bot has elevated status (e.g. moderator) in a channel, which relaxes the rate limit for that channel
+     */
+    public setElevated(channel: string, isElevated: boolean): void {
+        if (isElevated) {
+            this._elevatedChannels.add(channel.toLowerCase());
+        } else {
+            this._elevatedChannels.delete(channel.toLowerCase());
+        }
+    }
+
+    /**
+     * @param minGapMillis hold the message until at least this long after the previous message to the same channel (e.g. so chat can read each part of a split message)
+     * @returns false if the message was dropped as a duplicate
+     */
+    public enqueue(channel: string, message: string, priority: ChatPriority = ChatPriority.Normal, minGapMillis: number = 0): boolean {
+        if (this.isDuplicate(channel, message)) {
+            log.debug(`Dropped duplicate chat message to ${channel}: ${message}`);
+            return false;
+        }
+
+        this._lanes[priority].push({ channel, message, minGapMillis });
+        this.drain();
+        return true;
+    }
+
+    public get isPaused(): boolean {
+        return this._isPaused;
+    }
+
+    /**
+     * Holds every message (including ones enqueued from now on) until resume is called, e.g. while the connection is down
+     */
+    public pause(): void {
+        this._isPaused = true;
+        if (this._drainTimeout) {
+            clearTimeout(this._drainTimeout);
+            this._drainTimeout = undefined;
+        }
+    }
+
+    public resume(): void {
+        if (!this._isPaused) {
+            return;
+        }
+        this._isPaused = false;
+        this.drain();
+    }
+
+    /**
+     * Discards every message that hasn't been sent yet
+     */
+    public clear(): void {
+        for (const priority of ChatSendQueue.priorityOrder) {
+            this._lanes[priority] = [];
+        }
+        if (this._drainTimeout) {
+            clearTimeout(this._drainTimeout);
+            this._drainTimeout = undefined;
+        }
+    }
+
+    protected isDuplicate(channel: string, message: string): boolean {
+        const alreadyQueued = ChatSendQueue.priorityOrder.some(priority => this._lanes[priority].some(n => n.channel === channel && n.message === message));
+        if (alreadyQueued) {
+            return true;
+        }
+
+        if (this.isElevated(channel)) {
+            return false;
+        }
+        const lastSent = this._lastSentByChannel[channel];
+        return lastSent !== undefined
+            && lastSent.message === message
+            && performance.now() - lastSent.sentAtMillis < ChatSendQueue.duplicateWindowSeconds * 1000;
+    }
+
+    protected drain(): void {
+        if (this._isPaused || this._drainTimeout) {
+            return; // already waiting on the rate limit
+        }
+
+        for (let lane = this.getNextLane(); lane !== undefined; lane = this.getNextLane()) {
+            const next = lane[0];
+            const limitingBucket = this.isElevated(next.channel) ? this._elevatedBucket : this._bucket;
+            const waitMillis = Math.max(limitingBucket.millisUntilAvailable(), this.getGapWaitMillis(next));
+            if (waitMillis > 0) {
+                this._drainTimeout = setTimeout(() => {
+                    this._drainTimeout = undefined;
+                    this.drain();
+                }, waitMillis);
+                return;
+            }
+
+            lane.shift();
+            this._bucket.take();
+            this._elevatedBucket.take();
+            this._lastSentByChannel[next.channel] = { message: next.message, sentAtMillis: performance.now() };
+            this._send(next.channel, next.message);
+        }
+    }
+
+    protected getGapWaitMillis(queuedMessage: IQueuedChatMessage): number {
+        const lastSent = this._lastSentByChannel[queuedMessage.channel];
+        if (!lastSent || queuedMessage.minGapMillis <= 0) {
+            return 0;
+        }
+        return Math.max(0, lastSent.sentAtMillis + queuedMessage.minGapMillis - performance.now());
+    }
+
+    protected getNextLane(): IQueuedChatMessage[] | undefined {
+        return ChatSendQueue.priorityOrder.map(n => this._lanes[n]).find(n => n.length > 0);
+    }
+}
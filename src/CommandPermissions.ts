@@ -0,0 +1,108 @@
+/**
+ * Roles are ordered, so each one can also use any command meant for the roles below it
+ */
+export enum CommandPermission {
+    Everyone = 0,
+    Follower = 1,
+    Subscriber = 2,
+    Vip = 3,
+    Moderator = 4,
+    Broadcaster = 5,
+}
+
+export type CommandPermissionName = "everyone" | "follower" | "subscriber" | "vip" | "moderator" | "broadcaster";
+
+/**
+ * What a chatter is allowed to do, as recognized from their badges
+ */
+export interface IUserPermissions {
+    level: CommandPermission;
+    /** 0 if not subscribed */
+    subscriberTier: number;
+}
+
+export interface ICommandPermissionRequirement {
+    /** Minimum role (defaults to Everyone) */
+    level?: CommandPermission;
+    /** Minimum tier for the Subscriber role (defaults to 1). Roles above Subscriber don't need to be subscribed at all. */
+    subscriberTier?: number;
+    /** Usernames that can use the command regardless of their role */
+    allowUsers?: string[];
+    /** Usernames that can't use the command regardless of their role */
+    denyUsers?: string[];
+}
+
+export class CommandPermissions {
+    protected static readonly levelsByName: { [name in CommandPermissionName]: CommandPermission } = {
+        everyone: CommandPermission.Everyone,
+        follower: CommandPermission.Follower,
+        subscriber: CommandPermission.Subscriber,
+        vip: CommandPermission.Vip,
+        moderator: CommandPermission.Moderator,
+        broadcaster: CommandPermission.Broadcaster,
+    };
+
+    public static readonly everyone: IUserPermissions = { level: CommandPermission.Everyone, subscriberTier: 0 };
+
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() {
+    }
+
+    /**
+     * @returns undefined if the name isn't recognized
+     */
+    public static parseLevel(name: string): CommandPermission | undefined {
+        return CommandPermissions.levelsByName[name.toLowerCase() as CommandPermissionName];
+    }
+
+    public static getRequirement(permission?: CommandPermission | ICommandPermissionRequirement): ICommandPermissionRequirement {
+        if (permission === undefined) {
+            return {};
+        }
+        return typeof permission === "number" ? { level: permission } : permission;
+    }
+
+    public static isPermitted(requirement: ICommandPermissionRequirement, username: string, userPermissions: IUserPermissions): boolean {
+        const normalizedUsername = username.toLowerCase();
+        if (requirement.denyUsers?.some(n => n.toLowerCase() === normalizedUsername)) {
+            return false;
+        }
+        if (requirement.allowUsers?.some(n => n.toLowerCase() === normalizedUsername)) {
+            return true;
+        }
+
+        const requiredLevel = requirement.level ?? CommandPermission.Everyone;
+        if (userPermissions.level !== requiredLevel) {
+            return userPermissions.level > requiredLevel;
+        }
+        return requiredLevel !== CommandPermission.Subscriber || userPermissions.subscriberTier >= (requirement.subscriberTier ?? 1);
+    }
+
+    /**
+     * The same message is used for every command, so that chatters always know why nothing happened
+     */
+    public static getDenialMessage(username: string, commandName: string, requirement: ICommandPermissionRequirement): string {
+        if (requirement.denyUsers?.some(n => n.toLowerCase() === username.toLowerCase())) {
+            return `@${username} you aren't allowed to use ${commandName}`;
+        }
+        return `@${username} ${commandName} is only available to ${CommandPermissions.getRoleDescription(requirement)}`;
+    }
+
+    protected static getRoleDescription(requirement: ICommandPermissionRequirement): string {
+        switch (requirement.level ?? CommandPermission.Everyone) {
+            case CommandPermission.Broadcaster:
+                return "the broadcaster";
+            case CommandPermission.Moderator:
+                return "moderators";
+            case CommandPermission.Vip:
+                return "VIPs & moderators";
+            case CommandPermission.Subscriber:
+                return (requirement.subscriberTier ?? 1) > 1 ? `tier ${requirement.subscriberTier}+ subscribers` : "subscribers";
+            case CommandPermission.Follower:
+                return "followers";
+            case CommandPermission.Everyone:
+            default:
+                return "approved users"; // only reachable through allowUsers
+        }
+    }
+}
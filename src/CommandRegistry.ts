@@ -0,0 +1,154 @@
+import { CommandPermissions, IUserPermissions } from "./CommandPermissions";
+import { ICommandTrigger, NewCommandArgs } from "./IrcBot";
+
+export interface ICommandRegistration extends NewCommandArgs {
+    /** Shown by !help */
+    description?: string;
+    /** Arguments that follow the trigger phrase, shown by !help (e.g. "<gameName> <amount>") */
+    usage?: string;
+    /** Commands are grouped by category in the !commands list */
+    category: string;
+    /** Channels where the command can be triggered (defaults to every channel) */
+    channels?: string[];
+    /** A disabled command isn't triggered or listed (e.g. outside of a configured command's schedule) */
+    isEnabled?: () => boolean;
+}
+
+/**
+ * Indexes commands by the first word of each of their trigger phrases, so that finding the commands a message might trigger takes a single lookup
+ */
+export class CommandRegistry {
+    protected readonly _registrationsByCommandId = new Map<string, ICommandRegistration>();
+    /** Keyed by lowercase word, so that case-insensitive triggers are found too */
+    protected readonly _registrationsByFirstWord = new Map<string, ICommandRegistration[]>();
+    /** Commands with "contains" or "regex" triggers, which could match any message */
+    protected readonly _unindexedRegistrations: ICommandRegistration[] = [];
+
+    public static getFirstWord(text: string): string {
+        return text.trim().split(" ")[0];
+    }
+
+    public static getTriggers(registration: NewCommandArgs): ICommandTrigger[] {
+        return registration.triggers ?? registration.triggerPhrases.map(phrase => ({ phrase, strictMatch: registration.strictMatch, caseSensitive: true, matchMode: "prefix" }));
+    }
+
+    /** In registration order */
+    public get registrations(): ICommandRegistration[] {
+        return Array.from(this._registrationsByCommandId.values());
+    }
+
+    public register(registration: ICommandRegistration): void {
+        if (this._registrationsByCommandId.has(registration.commandId)) {
+            throw new Error(`A command is already registered with id: ${registration.commandId}`);
+        }
+
+        this._registrationsByCommandId.set(registration.commandId, registration);
+        const triggers = CommandRegistry.getTriggers(registration);
+        if (triggers.some(n => n.matchMode !== "prefix")) {
+            this._unindexedRegistrations.push(registration);
+        }
+        const firstWords = new Set(triggers.filter(n => n.matchMode === "prefix").map(n => CommandRegistry.getFirstWord(n.phrase).toLowerCase()));
+        for (const firstWord of firstWords) {
+            const registrations = this._registrationsByFirstWord.get(firstWord) ?? [];
+            registrations.push(registration);
+            this._registrationsByFirstWord.set(firstWord, registrations);
+        }
+    }
+
+    /**
+     * @returns false if no command was registered with the given id
+     */
+    public unregister(commandId: string): boolean {
+        const registration = this._registrationsByCommandId.get(commandId);
+        if (!registration) {
+            return false;
+        }
+
+        this._registrationsByCommandId.delete(commandId);
+        const unindexedIndex = this._unindexedRegistrations.indexOf(registration);
+        if (unindexedIndex >= 0) {
+            this._unindexedRegistrations.splice(unindexedIndex, 1);
+        }
+        for (const [firstWord, registrations] of this._registrationsByFirstWord) {
+            const remaining = registrations.filter(n => n !== registration);
+            if (remaining.length === 0) {
+                this._registrationsByFirstWord.delete(firstWord);
+            } else {
+                this._registrationsByFirstWord.set(firstWord, remaining);
+            }
+        }
+        return true;
+    }
+
+    public get(commandId: string): ICommandRegistration | undefined {
+        return this._registrationsByCommandId.get(commandId);
+    }
+
+    /**
+     * @returns every command with a trigger phrase that starts with the same word as the message (ignoring case), plus every command that could match anywhere in a message. The caller is responsible for matching the triggers themselves.
+     */
+    public getCandidates(message: string): ICommandRegistration[] {
+        const indexedRegistrations = this._registrationsByFirstWord.get(CommandRegistry.getFirstWord(message).toLowerCase()) ?? [];
+        if (this._unindexedRegistrations.length === 0) {
+            return indexedRegistrations;
+        }
+        return Array.from(new Set(indexedRegistrations.concat(this._unindexedRegistrations)));
+    }
+
+    /**
+     * Looks up a command by any of its trigger phrases, ignoring case & with or without the leading "!"
+     */
+    public findByTriggerPhrase(name: string, channel?: string): ICommandRegistration | undefined {
+        const normalizedName = name.trim().replace(/^!/, "").toLowerCase();
+        return this.registrations
+            .filter(n => CommandRegistry.isAvailableInChannel(n, channel))
+            .find(n => n.triggerPhrases.some(triggerPhrase => triggerPhrase.trim().replace(/^!/, "").toLowerCase() === normalizedName));
+    }
+
+    public static isAvailableInChannel(registration: ICommandRegistration, channel?: string): boolean {
+        return channel === undefined || registration.channels === undefined || registration.channels.includes(channel.toLowerCase());
+    }
+
+    /**
+     * @returns undefined if there is no such command
+     */
+    public getHelpText(name: string, channel?: string): string | undefined {
+        const registration = this.findByTriggerPhrase(name, channel);
+        if (!registration) {
+            return undefined;
+        }
+
+        const [triggerPhrase, ...aliases] = registration.triggerPhrases;
+        const usage = registration.usage ? `${triggerPhrase} ${registration.usage}` : triggerPhrase;
+        const description = registration.description ? ` - ${registration.description}` : ``;
+        const aliasText = aliases.length > 0 ? ` (aliases: ${aliases.join(" ")})` : ``;
+        return `${usage}${description}${aliasText}`;
+    }
+
+    /**
+     * @returns only the commands the user is permitted to use
+     */
+    public getCommandListText(username: string, userPermissions: IUserPermissions, channel?: string): string {
+        const triggerPhrasesByCategory: { [category: string]: string[] } = {};
+        const listedTriggerPhrases = new Set<string>(); // several commands may share a trigger phrase (e.g. a configured response & a hardcoded one)
+        for (const registration of this.registrations) {
+            const triggerPhrase = registration.triggerPhrases[0];
+            if (triggerPhrase === undefined) { // e.g. a response to a keyword anywhere in a message
+                continue;
+            }
+            if (!CommandPermissions.isPermitted(CommandPermissions.getRequirement(registration.permission), username, userPermissions)
+                || !CommandRegistry.isAvailableInChannel(registration, channel)
+                || !(registration.isEnabled?.() ?? true)
+                || listedTriggerPhrases.has(triggerPhrase)) {
+                continue;
+            }
+            listedTriggerPhrases.add(triggerPhrase);
+            triggerPhrasesByCategory[registration.category] = (triggerPhrasesByCategory[registration.category] ?? []).concat(triggerPhrase);
+        }
+
+        return Object.keys(triggerPhrasesByCategory)
+            .sort()
+            .map(category => `${category}: ${triggerPhrasesByCategory[category].join(" ")}`)
+            .join(" | ");
+    }
+}
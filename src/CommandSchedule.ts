@@ -0,0 +1,166 @@
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+/**
+ * A recurring period during which a command is available
+ */
+export interface ICommandScheduleWindow {
+    /** Defaults to every day */
+    days?: Weekday[];
+    /** "HH:MM" (defaults to the start of the day) */
+    startTime?: string;
+    /** "HH:MM", exclusive (defaults to the end of the day). May be earlier than startTime for a window that runs past midnight. */
+    endTime?: string;
+}
+
+export interface ICommandScheduleConfig {
+    /** Date string. Without an explicit UTC offset, it's interpreted in the schedule's timezone. */
+    startsAt?: string;
+    /** Date string. Without an explicit UTC offset, it's interpreted in the schedule's timezone. */
+    expiresAt?: string;
+    /** The command is only available during one of these windows */
+    schedule?: ICommandScheduleWindow[];
+    /** IANA timezone name (e.g. "America/New_York") */
+    timezone?: string;
+}
+
+export enum CommandScheduleStatus {
+    Active = "active",
+    /** startsAt is still in the future */
+    Upcoming = "upcoming",
+    Expired = "expired",
+    /** Between startsAt & expiresAt, but not in any of the schedule's windows */
+    OutsideWindow = "outsideWindow",
+}
+
+/**
+ * Decides whether a configured command is available at a given time
+ */
+export class CommandSchedule {
+    protected static readonly weekdays: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+    protected static readonly utcOffsetPattern = /(Z|[+-]\d{2}:?\d{2})$/i;
+    protected static readonly dateTimePattern = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() {
+    }
+
+    /**
+     * @param defaultTimezone used if the schedule doesn't specify one (defaults to the system's timezone)
+     */
+    public static getStatus(config: ICommandScheduleConfig, now: Date = new Date(), defaultTimezone?: string): CommandScheduleStatus {
+        const timezone = config.timezone ?? defaultTimezone;
+        if (config.expiresAt !== undefined && CommandSchedule.parseDate(config.expiresAt, timezone).getTime() <= now.getTime()) {
+            return CommandScheduleStatus.Expired;
+        }
+        if (config.startsAt !== undefined && CommandSchedule.parseDate(config.startsAt, timezone).getTime() > now.getTime()) {
+            return CommandScheduleStatus.Upcoming;
+        }
+        if (config.schedule && config.schedule.length > 0 && !config.schedule.some(n => CommandSchedule.isInWindow(n, now, timezone))) {
+            return CommandScheduleStatus.OutsideWindow;
+        }
+        return CommandScheduleStatus.Active;
+    }
+
+    /**
+     * @returns a description of each problem with the schedule (empty if it's valid)
+     */
+    public static getConfigErrors(config: ICommandScheduleConfig): string[] {
+        const errors: string[] = [];
+        if (config.timezone !== undefined) {
+            try {
+                new Intl.DateTimeFormat("en-US", { timeZone: config.timezone });
+            } catch (err) {
+                errors.push(`Invalid timezone: ${config.timezone}`);
+                return errors;
+            }
+        }
+        for (const dateString of [config.startsAt, config.expiresAt].filter(n => n !== undefined) as string[]) {
+            try {
+                CommandSchedule.parseDate(dateString, config.timezone);
+            } catch (err) {
+                errors.push(err.message);
+            }
+        }
+        for (const window of config.schedule ?? []) {
+            for (const day of window.days ?? []) {
+                if (!CommandSchedule.weekdays.includes(`${day}`.toLowerCase().slice(0, 3) as Weekday)) {
+                    errors.push(`Invalid day: ${day}`);
+                }
+            }
+            for (const timeOfDay of [window.startTime, window.endTime].filter(n => n !== undefined) as string[]) {
+                try {
+                    CommandSchedule.parseTimeOfDay(timeOfDay);
+                } catch (err) {
+                    errors.push(err.message);
+                }
+            }
+        }
+        return errors;
+    }
+
+    /**
+     * Interprets a date string without an explicit UTC offset (e.g. "2024-10-01T02:00:00") as a time in the given timezone
+     * @throws if the string isn't a valid date
+     */
+    public static parseDate(dateString: string, timezone?: string): Date {
+        const match = CommandSchedule.dateTimePattern.exec(dateString.trim());
+        if (!timezone || !match || CommandSchedule.utcOffsetPattern.test(dateString.trim())) {
+            const date = new Date(dateString);
+            if (isNaN(date.getTime())) {
+                throw new Error(`Invalid date: ${dateString}`);
+            }
+            return date;
+        }
+
+        const [year, month, day, hours, minutes, seconds] = match.slice(1).map(n => parseInt(n ?? "0"));
+        const wallClockMillis = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+        // The offset at the wall clock time is close enough to the offset at the actual time, except within an hour of a DST change
+        const offsetMillis = CommandSchedule.getTimezoneOffsetMillis(new Date(wallClockMillis), timezone);
+        return new Date(wallClockMillis - offsetMillis);
+    }
+
+    protected static isInWindow(window: ICommandScheduleWindow, now: Date, timezone?: string): boolean {
+        const { weekday, minutesIntoDay } = CommandSchedule.getLocalTime(now, timezone);
+        const startMinutes = window.startTime ? CommandSchedule.parseTimeOfDay(window.startTime) : 0;
+        const endMinutes = window.endTime ? CommandSchedule.parseTimeOfDay(window.endTime) : 24 * 60;
+        const days = window.days?.map(n => n.toLowerCase().slice(0, 3) as Weekday);
+        const isOnDay = (day: Weekday): boolean => !days || days.includes(day);
+
+        if (startMinutes < endMinutes) {
+            return isOnDay(weekday) && minutesIntoDay >= startMinutes && minutesIntoDay < endMinutes;
+        }
+        // The window runs past midnight, so its early hours belong to the previous day's window
+        const previousDay = CommandSchedule.weekdays[(CommandSchedule.weekdays.indexOf(weekday) + 6) % 7];
+        return (isOnDay(weekday) && minutesIntoDay >= startMinutes) || (isOnDay(previousDay) && minutesIntoDay < endMinutes);
+    }
+
+    /**
+     * @returns minutes since midnight
+     */
+    protected static parseTimeOfDay(timeOfDay: string): number {
+        const match = /^(\d{1,2}):(\d{2})$/.exec(timeOfDay.trim());
+        if (!match) {
+            throw new Error(`Invalid time of day (expected HH:MM): ${timeOfDay}`);
+        }
+        return parseInt(match[1]) * 60 + parseInt(match[2]);
+    }
+
+    protected static getLocalTime(date: Date, timezone?: string): { weekday: Weekday, minutesIntoDay: number } {
+        const parts = new Intl.DateTimeFormat("en-US", { timeZone: timezone, weekday: "short", hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).formatToParts(date);
+        const getPart = (type: string): string => parts.find(n => n.type === type)?.value ?? "";
+        return {
+            weekday: getPart("weekday").toLowerCase().slice(0, 3) as Weekday,
+            minutesIntoDay: parseInt(getPart("hour")) * 60 + parseInt(getPart("minute")),
+        };
+    }
+
+    /**
+     * @returns how far ahead of UTC the timezone is at the given time
+     */
+    protected static getTimezoneOffsetMillis(date: Date, timezone: string): number {
+        const parts = new Intl.DateTimeFormat("en-US", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit", hourCycle: "h23" }).formatToParts(date);
+        const getPart = (type: string): number => parseInt(parts.find(n => n.type === type)?.value ?? "0");
+        const wallClockMillis = Date.UTC(getPart("year"), getPart("month") - 1, getPart("day"), getPart("hour"), getPart("minute"), getPart("second"));
+        return wallClockMillis - Math.floor(date.getTime() / 1000) * 1000;
+    }
+}
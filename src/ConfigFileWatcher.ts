@@ -0,0 +1,57 @@
+import * as fs from "fs";
+import { Logger } from "./Logger";
+
+const log = Logger.get("config");
+
+/**
+ * Watches a directory for changes to specific files. The directory is watched (rather than each file) so that files replaced by a rename, as editors & atomic writes do, are still noticed.
+ */
+export class ConfigFileWatcher {
+    /** Editors often write a file in several steps, so changes are only reported once a file has been quiet for this long */
+    public static readonly debounceMillis = 500;
+
+    protected _watcher?: fs.FSWatcher;
+    protected readonly _debounceTimeoutIdsByFileName: { [fileName: string]: NodeJS.Timeout } = {};
+
+    public constructor(
+        protected readonly _directory: string,
+        protected readonly _fileNames: string[],
+        protected readonly _onFileChanged: (fileName: string) => void) {
+    }
+
+    public start(): void {
+        if (this._watcher) {
+            return;
+        }
+
+        this._watcher = fs.watch(this._directory, (_eventType, fileName) => {
+            if (!fileName || !this._fileNames.includes(fileName.toString())) {
+                return;
+            }
+            this.onFileEvent(fileName.toString());
+        });
+        this._watcher.on("error", (err) => {
+            log.error(`Error watching config directory ${this._directory}: ${err}`);
+        });
+    }
+
+    public stop(): void {
+        this._watcher?.close();
+        this._watcher = undefined;
+        for (const fileName of Object.keys(this._debounceTimeoutIdsByFileName)) {
+            clearTimeout(this._debounceTimeoutIdsByFileName[fileName]);
+            delete this._debounceTimeoutIdsByFileName[fileName];
+        }
+    }
+
+    protected onFileEvent(fileName: string): void {
+        clearTimeout(this._debounceTimeoutIdsByFileName[fileName]);
+        this._debounceTimeoutIdsByFileName[fileName] = setTimeout(() => {
+            delete this._debounceTimeoutIdsByFileName[fileName];
+            if (!fs.existsSync(`${this._directory}/${fileName}`)) {
+                return; // mid-rename, or deleted on purpose. Either way, there's nothing to load.
+            }
+            this._onFileChanged(fileName);
+        }, ConfigFileWatcher.debounceMillis);
+    }
+}
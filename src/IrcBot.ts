@@ -1,10 +1,37 @@
-import { randomInt } from "crypto";
+import { X509Certificate, randomInt } from "crypto";
 import * as fs from "fs";
 import { Parser as CsvParser } from "json2csv";
 import * as net from "net";
-import { ConsoleColors } from "./ConsoleColors";
+import * as path from "path";
+import * as tls from "tls";
 import { TimerGroup } from "./TimerGroup";
 import { Future } from "./Future";
+import { ChatPriority, ChatSendQueue, IChatRateLimits } from "./ChatSendQueue";
+import { ChatMessageSplitter } from "./ChatMessageSplitter";
+import { ChatHistoryLog, IChatHistoryConfig, IChatHistoryEntry } from "./ChatHistoryLog";
+import { CommandRegistry, ICommandRegistration } from "./CommandRegistry";
+import { CommandPermission, CommandPermissionName, CommandPermissions, ICommandPermissionRequirement, IUserPermissions } from "./CommandPermissions";
+import { IrcLineDecoder } from "./IrcLineDecoder";
+import { ResponseTemplate } from "./ResponseTemplate";
+import { CommandSchedule, CommandScheduleStatus, ICommandScheduleConfig } from "./CommandSchedule";
+import { ConfigFileWatcher } from "./ConfigFileWatcher";
+import { IIrcMessage, IrcMessageParser } from "./IrcMessageParser";
+import { ILoggingConfig, Logger } from "./Logger";
+import { IUserDetailStorageConfig, IUserDetailStore } from "./UserDetailStore";
+import { JsonUserDetailStore } from "./JsonUserDetailStore";
+import { SqliteUserDetailStore } from "./SqliteUserDetailStore";
+import { IUserDetailBackupConfig, UserDetailBackups } from "./UserDetailBackups";
+import { ILiveStreamInfo, StreamStats } from "./StreamStats";
+import { Utils } from "./Utils";
+import { IShutdownStep, ShutdownCoordinator } from "./ShutdownCoordinator";
+import { ITrafficCaptureConfig, TrafficCapture, TrafficCaptureSource } from "./TrafficCapture";
+
+const ircLog = Logger.get("irc");
+const chatLog = Logger.get("chat");
+const commandLog = Logger.get("commands");
+const configLog = Logger.get("config");
+const userLog = Logger.get("users");
+const captureLog = Logger.get("capture");
 
 export interface IIrcBotConfig {
     connection: IIrcBotConnectionConfig;
@@ -16,6 +43,30 @@ export interface IIrcBotConfig {
 
 export interface IIrcBotMiscConfig {
     maxChatMessageLength?: number;
+    /** Delay before the first attempt to reconnect after a dropped connection (defaults to 1 second). Doubles with each failed attempt. */
+    reconnectBaseDelaySeconds?: number;
+    /** Upper bound for the delay between reconnection attempts (defaults to 5 minutes) */
+    reconnectMaxDelaySeconds?: number;
+    /** Append "(1/3)"-style markers when a long message is split into several parts (defaults to true) */
+    chatContinuationMarkers?: boolean;
+    /** Minimum delay between the parts of a split message (defaults to 1 second) */
+    chatSplitPartGapSeconds?: number;
+    /** Overrides the outgoing chat rate limits that the bot paces itself against */
+    chatRateLimits?: Partial<IChatRateLimits>;
+    /** Every chat message the bot sees is logged under users/chatHistory in the config directory */
+    chatHistory?: IChatHistoryConfig;
+    /** Raw IRC & EventSub traffic is recorded under captures in the config directory, so that it can be replayed with --replay (off by default) */
+    trafficCapture?: ITrafficCaptureConfig;
+    /** IANA timezone (e.g. "America/New_York") that command schedules are interpreted in, unless they set their own (defaults to the system's timezone) */
+    timezone?: string;
+    /** Reload commands.json & miscConfig.json whenever they change (defaults to true) */
+    watchConfigFiles?: boolean;
+    /** Log levels by category & optional log files, written under logs in the config directory */
+    logging?: ILoggingConfig;
+    /** Where user details are saved (only read at startup) */
+    userDetailStorage?: IUserDetailStorageConfig;
+    /** Snapshots of every user detail, kept under users/backups in the config directory (only read at startup) */
+    userDetailBackups?: IUserDetailBackupConfig;
 }
 
 export interface IIrcBotConnectionConfig {
@@ -26,19 +77,36 @@ export interface IIrcBotConnectionConfig {
     server: {
         host: string;
         port: number;
+        /** The bot's home channel (e.g. "#elite_spud"). Command groups apply here unless they specify otherwise. */
         channel: string;
+        /** Further channels to join alongside the primary one (e.g. partner channels during a co-stream) */
+        additionalChannels?: string[];
+        /** Connect over TLS (Twitch listens on port 6697 for this) instead of plaintext. The server certificate is always verified. */
+        tls?: boolean | IIrcBotTlsConfig;
     },
 }
 
+export interface IIrcBotTlsConfig {
+    /** Path (absolute or relative to the config directory) to a PEM-encoded CA certificate. Replaces the default trusted CAs, so this is only intended for testing against a local server. */
+    caPath?: string;
+    /** Name to verify the server certificate against (defaults to the server host) */
+    servername?: string;
+}
+
 export interface IIrcBotAuxCommandGroupConfig {
-    timerMinutes: number;
+    /** Posts one of the group's commands on this interval while the channel is live (the group has no timer if this is omitted) */
+    timerMinutes?: number;
     timerMinutesOffset?: number;
-    random: boolean;
+    /** The timer skips a post unless at least this many chat messages were sent in the channel since its previous one (defaults to 1, so that a quiet chat isn't posted into over & over) */
+    timerMinChatMessages?: number;
+    random?: boolean;
+    /** Channels whose chat can trigger these commands & that receive the group's timer posts (defaults to the primary channel only) */
+    channels?: string[];
     commands: IIrcBotAuxCommandConfig[];
 }
 
 export interface CommandsFromConfigResult {
-    chatResponses: ((messageDetail: IPrivMessageDetail) => Promise<void>)[];
+    commands: ICommandRegistration[];
     timerGroups: TimerGroup[];
 }
 
@@ -48,7 +116,10 @@ export interface IUserDetailCollection<TUserDetail extends UserDetail> {
 
 export interface IUserDetail {
     username: string;
+    /** Watch time in the primary channel */
     secondsInChat: number;
+    /** Watch time in every channel the bot has joined (including the primary one) */
+    secondsInChatByChannel?: { [channel: string]: number };
     numChatMessages: number;
     lastSeenInChat?: Date;
     lastChatted?: Date;
@@ -58,6 +129,7 @@ export interface IUserDetail {
 export class UserDetail implements IUserDetail {
     public username: string;
     public secondsInChat: number;
+    public secondsInChatByChannel?: { [channel: string]: number };
     public numChatMessages: number;
     public lastSeenInChat?: Date;
     public lastChatted?: Date;
@@ -66,6 +138,7 @@ export class UserDetail implements IUserDetail {
     public constructor(detail: IUserDetail) {
         this.username = detail.username;
         this.secondsInChat = detail.secondsInChat;
+        this.secondsInChatByChannel = detail.secondsInChatByChannel === undefined ? undefined : { ...detail.secondsInChatByChannel };
         this.numChatMessages = detail.numChatMessages;
         this.lastSeenInChat = detail.lastSeenInChat === undefined ? undefined : new Date(detail.lastSeenInChat);
         this.lastChatted = detail.lastChatted === undefined ? undefined : new Date(detail.lastChatted);
@@ -77,13 +150,39 @@ export class UserDetail implements IUserDetail {
     }
 }
 
-export interface IIrcBotAuxCommandConfig {
+export interface IIrcBotAuxCommandTriggerConfig {
+    phrase: string;
+    /** Defaults to the command's `strict` */
+    strict?: boolean;
+    /** Defaults to the command's `caseSensitive` */
+    caseSensitive?: boolean;
+    /** Defaults to "prefix" */
+    match?: TriggerMatchMode;
+}
+
+/**
+ * startsAt, expiresAt & schedule apply to chat triggers as well as timer posts
+ */
+export interface IIrcBotAuxCommandConfig extends ICommandScheduleConfig {
     name: string;
-    aliases?: string[];
-    /** Matches names exactly (ignoring whitespace) */
-    strict?: boolean; // TODO: allow specifying strict match for each name/alias, not all.
-    /** Date string */
-    expiresAt?: string;
+    aliases?: (string | IIrcBotAuxCommandTriggerConfig)[];
+    /** Matched instead of the name & aliases, so that the name can just be a label (e.g. for a response to a keyword anywhere in a message) */
+    triggers?: (string | IIrcBotAuxCommandTriggerConfig)[];
+    /** Shown by !help */
+    description?: string;
+    /** Matches names exactly (ignoring whitespace), unless a trigger says otherwise */
+    strict?: boolean;
+    /** Defaults to false, unless a trigger says otherwise */
+    caseSensitive?: boolean;
+    /** Minimum role needed to use the command (defaults to "everyone") */
+    permission?: CommandPermissionName;
+    /** Minimum tier when permission is "subscriber" (defaults to 1) */
+    subscriberTier?: number;
+    /** Usernames that can use the command regardless of their role */
+    allowUsers?: string[];
+    /** Usernames that can't use the command regardless of their role */
+    denyUsers?: string[];
+    /** May contain variables, e.g. "${user} has been following for ${followage}" (see the README for the full list) */
     responses: string[];
     /** Delay until this command can be triggered again by a particular user (defaults to 30 seconds) */
     userTimeoutSeconds?: number;
@@ -91,22 +190,27 @@ export interface IIrcBotAuxCommandConfig {
     globalTimeoutSeconds?: number;
 }
 
-export interface IMessageDetail {
-    command: "PING" | "PRIVMESSAGE" | "JOIN" | string;
+/**
+ * A parsed IRC message, narrowed to a specific command. Every field of the underlying message (tags, prefix, params, etc.) remains available.
+ */
+export interface IMessageDetail extends IIrcMessage {
+    command: string;
 }
 
-export interface IJoinMessageDetail {
+export interface IJoinMessageDetail extends IMessageDetail {
+    command: "JOIN";
     username: string;
+    /** user@host */
     hostname: string;
     channel: string;
-    command: "JOIN";
 }
 
-export interface IPartMessageDetail {
+export interface IPartMessageDetail extends IMessageDetail {
+    command: "PART";
     username: string;
+    /** user@host */
     hostname: string;
     channel: string;
-    command: "PART";
 }
 
 export interface IPingMessageDetail extends IMessageDetail {
@@ -114,23 +218,109 @@ export interface IPingMessageDetail extends IMessageDetail {
     hostname: string;
 }
 
-export interface IPrivMessageDetail {
-    command: "PRIVMESSAGE";
-    tags?: string;
+/** Sent by the server once it has accepted our login (RPL_WELCOME) */
+export interface IWelcomeMessageDetail extends IMessageDetail {
+    command: "001";
+    hostname: string;
+}
+
+/** Sent by the server (Twitch) when it is about to terminate the connection for maintenance */
+export interface IReconnectMessageDetail extends IMessageDetail {
+    command: "RECONNECT";
+}
+
+export interface IPrivMessageDetail extends IMessageDetail {
+    command: "PRIVMSG";
     username: string;
+    /** user@host */
     hostname: string;
     recipient: string;
     message: string;
     respondTo: string;
 }
 
+/** Sent by the server (Twitch) after the bot joins a channel or sends a message to it, describing the bot's own status there */
+export interface IUserStateMessageDetail extends IMessageDetail {
+    command: "USERSTATE";
+    channel: string;
+}
+
+/** Sent by the server to report status or errors (e.g. Twitch's "Your message was not sent because you are sending messages too quickly") */
+export interface INoticeMessageDetail extends IMessageDetail {
+    command: "NOTICE";
+    /** The channel the notice concerns, or the bot's nick / "*" for notices about the connection itself */
+    target: string;
+    message: string;
+}
+
+/** Sent by the server (Twitch) for events that are announced in a channel's chat, such as subs, raids & announcements */
+export interface IUserNoticeMessageDetail extends IMessageDetail {
+    command: "USERNOTICE";
+    channel: string;
+    /** Text the user chose to attach to the event, if any */
+    message?: string;
+}
+
+/** Sent by the server (Twitch) when a user's messages are purged by a ban or timeout, or when a channel's chat is cleared */
+export interface IClearChatMessageDetail extends IMessageDetail {
+    command: "CLEARCHAT";
+    channel: string;
+    /** The user whose messages were purged (undefined if the whole chat was cleared) */
+    username?: string;
+}
+
+/** Sent by the server (Twitch) when a single message is deleted */
+export interface IClearMessageMessageDetail extends IMessageDetail {
+    command: "CLEARMSG";
+    channel: string;
+    message: string;
+}
+
+/** Sent by the server (Twitch) after the bot joins a channel & whenever one of that channel's chat settings changes */
+export interface IRoomStateMessageDetail extends IMessageDetail {
+    command: "ROOMSTATE";
+    channel: string;
+}
+
+/** A private message sent directly to the bot (Twitch) */
+export interface IWhisperMessageDetail extends IMessageDetail {
+    command: "WHISPER";
+    username: string;
+    /** user@host */
+    hostname: string;
+    recipient: string;
+    message: string;
+}
+
+/** Every message the bot knows how to handle, discriminated by command */
+export type IrcMessageDetail = IPrivMessageDetail | IPingMessageDetail | IJoinMessageDetail | IPartMessageDetail | IWelcomeMessageDetail | IReconnectMessageDetail | IUserStateMessageDetail
+    | INoticeMessageDetail | IUserNoticeMessageDetail | IClearChatMessageDetail | IClearMessageMessageDetail | IRoomStateMessageDetail | IWhisperMessageDetail;
+
+/**
+ * "prefix" matches the start of a message, "contains" matches the phrase anywhere in a message, & "regex" treats the phrase as a regular expression
+ */
+export type TriggerMatchMode = "prefix" | "contains" | "regex";
+
+export interface ICommandTrigger {
+    phrase: string;
+    /** Only applies to "prefix" triggers */
+    strictMatch: boolean;
+    caseSensitive: boolean;
+    matchMode: TriggerMatchMode;
+}
+
 /**
  * Represents a generic message handler that triggers from a set of specific command phrases at the start of a message
  */
 export interface NewCommandArgs {
     messageHandler: (messageDetail: IPrivMessageDetail) => Promise<void>,
+    /** Listed by !help & !commands */
     triggerPhrases: string[],
     strictMatch: boolean,
+    /** Matched instead of triggerPhrases when a command needs different options for each trigger (defaults to each trigger phrase, matched case-sensitively) */
+    triggers?: ICommandTrigger[],
+    /** Who can use the command (defaults to everyone) */
+    permission?: CommandPermission | ICommandPermissionRequirement,
     /**
      * Globally unique identifier for this command
      */
@@ -139,6 +329,18 @@ export interface NewCommandArgs {
     userTimeoutSeconds: number
 }
 
+/**
+ * What a configured response's variables are filled in from
+ */
+export interface IResponseTemplateContext {
+    channel: string;
+    command: IIrcBotAuxCommandConfig;
+    /** Undefined when the response is posted by a timer */
+    messageDetail?: IPrivMessageDetail;
+    /** Words following the trigger phrase */
+    args: string[];
+}
+
 export enum UserChatStatus {
     Disconnected = 0,
     BeingAdded = 1,
@@ -149,15 +351,27 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
     private _startupPromise: Promise<void>;
     public get hasStarted(): Promise<void> { return this._startupPromise; };
 
-    public static readonly userDetailEncoding = "utf8";
-
     protected readonly _config: IIrcBotConfig;
 
-    /** Hardcoded responses are kept separate from those read from a configuration to allow interactive editing of configured commands */
+    /** Handlers that see every chat message. Commands are dispatched separately, through the command registry. */
     protected readonly _hardcodedPrivMessageResponseHandlers: ((message: IPrivMessageDetail) => Promise<void>)[] = [];
-    protected readonly _configuredPrivMessageResponseHandlers: ((message: IPrivMessageDetail) => Promise<void>)[] = [];
-    protected readonly _configuredTimerGroups: TimerGroup[] = [];
-    protected readonly _socket: net.Socket;
+    protected readonly _commandRegistry = new CommandRegistry();
+    protected _configuredTimerGroups: TimerGroup[] = [];
+    protected _socket: net.Socket;
+    /** Whether the current socket has connected (& sent the session commands, which are the first thing written) */
+    protected _isConnected = false;
+    /** Holds partially received lines for the current socket */
+    protected _lineDecoder: IrcLineDecoder;
+    /** Resolves once the first connection to the server has been established */
+    protected readonly _initialConnection = new Future<void>();
+    /** Set while the bot is intentionally closing its connection, so that the closed socket is not treated as a dropped connection */
+    protected _isDisconnecting = false;
+    protected _reconnectAttempts = 0;
+    protected _reconnectTimeout?: NodeJS.Timeout;
+    /** The configured CA certificate (see IIrcBotTlsConfig.caPath), read once so that reconnecting never depends on the file */
+    protected readonly _tlsCa?: Buffer;
+    protected _awaitingKeepalivePong = false;
+    protected readonly _chatSendQueue: ChatSendQueue;
     protected readonly _privMessageDetailCache: { [key: string]: IPrivMessageDetail } = {};
 
     // TODO: Implement this
@@ -167,77 +381,373 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
     protected readonly _pendingUserDetailByUsername: { [username: string]: Future<TUserDetail> } = {};
     /** UserId is a unique identifier that identifies a single user across multiple usernames */
     protected readonly _userDetailByUserId: IUserDetailCollection<TUserDetail>;
-    protected readonly _usersInChat: { [key: string]: UserChatStatus } = {};
+    protected readonly _userDetailStore: IUserDetailStore;
+    /** Each user detail as it was last saved, so that only the ones that changed are written */
+    protected readonly _savedUserDetailJsonByUserId: { [userId: string]: string } = {};
+    /** Users whose details may have changed since the last save, so that the rest aren't compared every time */
+    protected readonly _changedUserIds = new Set<string>();
+    protected readonly _userDetailBackups?: UserDetailBackups;
+    protected readonly _usersInChatByChannel: { [channel: string]: { [username: string]: UserChatStatus } } = {};
+    protected readonly _streamStats: StreamStats;
+    protected _userTrackingInterval?: NodeJS.Timeout;
+    protected _lastUserTrackingMillis = Date.now();
+    protected _pendingUserTracking?: Promise<void>;
+    protected _userDetailBackupInterval?: NodeJS.Timeout;
+    protected _shutdownCoordinator?: ShutdownCoordinator;
 
     protected readonly _userDetailsPath: string;
+    protected readonly _userDetailsSqlitePath: string;
+    /** Configured commands that are edited from chat are saved here */
+    protected readonly _commandsConfigPath: string;
+    protected readonly _miscConfigPath: string;
+    protected _configFileWatcher?: ConfigFileWatcher;
     protected readonly _userDetailsPathCsv: string;
-    protected readonly _chatHistoryPath: string = ``; // fs.realpathSync(`${configDir}/users/twitchChatHistory.csv`);
+    /** Directory holding the rotating chat history logs */
+    protected readonly _chatHistoryPath: string;
+    /** Directory holding the rotating bot logs, if they're enabled */
+    protected readonly _logsPath: string;
+    protected readonly _chatHistoryLog?: ChatHistoryLog;
+    protected readonly _trafficCapture?: TrafficCapture;
+    /** Number of times each configured command has been used, for the ${count} response variable */
+    protected readonly _commandUseCountsPath: string;
+    protected _commandUseCounts: { [commandName: string]: number } = {};
+    /** Configured commands whose schedule has already been reported as invalid */
+    protected readonly _commandsWithInvalidSchedules = new WeakSet<IIrcBotAuxCommandConfig>();
+
+    /** A PING is sent after this long without any data from the server. If there's still nothing after another interval, the connection is considered dead. */
+    public static readonly keepaliveIntervalSeconds = 60;
 
     protected get maxChatMessageLength(): number {
         return this._config.misc.maxChatMessageLength ?? Number.MAX_SAFE_INTEGER
     }
 
+    /** The channel named in the connection config, as opposed to any additional channels */
+    protected get primaryChannel(): string {
+        return IrcBotBase.normalizeChannelName(this._config.connection.server.channel);
+    }
+
+    /** Every channel the bot joins, starting with the primary one */
+    protected get channels(): string[] {
+        const channels = [this._config.connection.server.channel]
+            .concat(this._config.connection.server.additionalChannels ?? [])
+            .map(n => IrcBotBase.normalizeChannelName(n));
+        return Array.from(new Set(channels));
+    }
+
+    /** Channel names are case-insensitive, so they're always stored lowercase & with their leading # */
+    public static normalizeChannelName(channel: string): string {
+        const lowercase = channel.trim().toLowerCase();
+        return lowercase.startsWith("#") ? lowercase : `#${lowercase}`;
+    }
+
+    /** Plain IRC has no standard rate limit, so default to a conservative one */
+    protected get defaultChatRateLimits(): IChatRateLimits {
+        return { messagesPerWindow: 20, elevatedMessagesPerWindow: 20, windowSeconds: 30 };
+    }
+
+    /** Number of chat messages waiting to be sent because of rate limiting */
+    public get chatQueueDepth(): number {
+        return this._chatSendQueue.depth;
+    }
+
     public constructor(config: IIrcBotConfig) {
         this._config = config;
-        this._userDetailsPath = fs.realpathSync(`${this._config.configDir}/users/twitchUserDetails.json`); // TODO: load this path later or ensure the file exists earlier to prevent errors
-        this._userDetailsPathCsv = fs.realpathSync(`${this._config.configDir}/users/twitchUserDetails.csv`);
-
-        this._socket = new net.Socket();
-        this._socket.setNoDelay();
+        this._logsPath = path.join(this._config.configDir, "logs");
+        Logger.configure(this._config.misc.logging, this._logsPath);
+        this._userDetailsPath = IrcBotBase.resolveSymlinks(path.join(this._config.configDir, "users", "twitchUserDetails.json"));
+        this._userDetailsPathCsv = IrcBotBase.resolveSymlinks(path.join(this._config.configDir, "users", "twitchUserDetails.csv"));
+        this._userDetailsSqlitePath = path.join(this._config.configDir, "users", "userDetails.sqlite");
+
+        const chatRateLimits: IChatRateLimits = Object.assign(this.defaultChatRateLimits, this._config.misc.chatRateLimits);
+        this._chatSendQueue = new ChatSendQueue((channel, message) => this.sendRaw(`PRIVMSG ${channel} :${message}\r\n`), chatRateLimits);
+        this._chatSendQueue.pause(); // until the server welcomes the bot
+        this._tlsCa = this.loadTlsCa();
+
+        this._commandsConfigPath = path.join(this._config.configDir, "commands.json");
+        this._miscConfigPath = path.join(this._config.configDir, "miscConfig.json");
+        this._commandUseCountsPath = path.join(this._config.configDir, "users", "commandUseCounts.json");
+        if (fs.existsSync(this._commandUseCountsPath)) {
+            try {
+                this._commandUseCounts = JSON.parse(fs.readFileSync(this._commandUseCountsPath, { encoding: "utf8" }));
+            } catch (err) {
+                commandLog.error(`Starting command use counts over, because ${this._commandUseCountsPath} couldn't be read: ${err}`);
+            }
+        }
+        this.registerBuiltInCommands();
+        this.loadConfiguredCommands();
 
-        const configCommands: CommandsFromConfigResult = this.getCommandsFromConfig(config.auxCommandGroups, config.connection.server.channel);
-        this._configuredPrivMessageResponseHandlers = configCommands.chatResponses;
-        this._configuredTimerGroups = configCommands.timerGroups;
+        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleRegisteredCommands(detail));
 
+        this._chatHistoryPath = path.join(this._config.configDir, "users", "chatHistory");
+        if (this._config.misc.chatHistory?.enabled ?? true) {
+            this._chatHistoryLog = new ChatHistoryLog(this._chatHistoryPath, this._config.misc.chatHistory ?? {});
+            this._hardcodedPrivMessageResponseHandlers.push(async (detail) => this.recordChatHistory(detail));
+        }
         this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleChatMessageCount(detail));
+        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => this.recordTimerGroupChatMessage(detail));
+
+        if (this._config.misc.trafficCapture?.enabled) {
+            this._trafficCapture = new TrafficCapture(path.join(this._config.configDir, "captures"), this._config.misc.trafficCapture);
+        }
         
-        const userDetailJson: string = fs.readFileSync(this._userDetailsPath, { encoding: IrcBotBase.userDetailEncoding });
-        const jsonUserCollection = JSON.parse(userDetailJson);
-        this._userDetailByUserId = this.createUserCollection(jsonUserCollection); // necessary to instantiate non-primitive fields like Dates
-        console.log(`Successfully loaded userDetail from file: ${this._userDetailsPath}`);
+        this._userDetailStore = this.createUserDetailStore();
+        const storedUserCollection = this._userDetailStore.loadAll() as IUserDetailCollection<TUserDetail>;
+        this._userDetailByUserId = this.createUserCollection(storedUserCollection); // necessary to instantiate non-primitive fields like Dates
+        for (const userId in this._userDetailByUserId) {
+            this._savedUserDetailJsonByUserId[userId] = JSON.stringify(this._userDetailByUserId[userId]);
+        }
+        userLog.info(`Successfully loaded userDetail from: ${this._userDetailStore.description}`);
+
+        const backupConfig = this._config.misc.userDetailBackups ?? {};
+        if (backupConfig.enabled ?? true) {
+            this._userDetailBackups = new UserDetailBackups(path.join(this._config.configDir, "users", "backups"), backupConfig.retentionCount ?? UserDetailBackups.defaultRetentionCount);
+            this.backupUserDetails();
+            this._userDetailBackupInterval = setInterval(() => this.backupUserDetails(), 1000 * 60 * 60 * (backupConfig.intervalHours ?? UserDetailBackups.defaultIntervalHours));
+        }
+
+        this._streamStats = new StreamStats(path.join(this._config.configDir, "users", "streamStats"), () => this._config.misc.timezone);
 
         const userTrackingIntervalSeconds = 30;
-        setInterval(() => this.trackUsersInChat(userTrackingIntervalSeconds), 1000 * userTrackingIntervalSeconds);
+        this._userTrackingInterval = setInterval(() => {
+            this._lastUserTrackingMillis = Date.now();
+            this._pendingUserTracking = this.trackUsersInChat(userTrackingIntervalSeconds);
+        }, 1000 * userTrackingIntervalSeconds);
     }
 
-    protected async trackUsersInChat(secondsToAdd: number): Promise<void> {
-        // TODO: track daily / per-stream stats
+    /**
+     * Updates each channel's stream session & adds watch time for everyone present in a tracked channel, then saves every user detail
+     * @param force save user details even if no channel is currently being tracked
+     */
+    protected async trackUsersInChat(secondsToAdd: number, force: boolean = false): Promise<void> {
+        const channelsByUsername: { [username: string]: string[] } = {};
+        let numTrackedChannels = 0;
+        for (const channel of this.channels) {
+            this._streamStats.updateSession(channel, await this.getLiveStream(channel));
+            if (!this.isShuttingDown) {
+                await this.updateTimerGroups(channel);
+            }
+            if (!await this.shouldTrackUsersInChannel(channel)) {
+                continue;
+            }
+            numTrackedChannels++;
+            const usernames = Object.keys(this._usersInChatByChannel[channel] ?? {});
+            this._streamStats.recordWatchTime(channel, usernames, secondsToAdd);
+            for (const username of usernames) {
+                channelsByUsername[username] = (channelsByUsername[username] ?? []).concat(channel);
+            }
+        }
+        this.saveStreamStats();
+        if (!force && numTrackedChannels === 0) {
+            return;
+        }
+
         const userUpdatePromises: Promise<void>[] = [];
-        const usernamesInChat = Object.keys(this._usersInChat);
-        const userDetailPromisesByUsername = this.getUserDetailsWithCache(usernamesInChat);
+        const userDetailPromisesByUsername = this.getUserDetailsWithCache(Object.keys(channelsByUsername));
         for (const usernameKey in userDetailPromisesByUsername) {
             const userDetailPromise = userDetailPromisesByUsername[usernameKey];
             const updateUserPromise = userDetailPromise.then((userDetail) => {
-                userDetail.secondsInChat += secondsToAdd;
+                const secondsInChatByChannel = userDetail.secondsInChatByChannel ?? {};
+                for (const channel of channelsByUsername[usernameKey]) {
+                    secondsInChatByChannel[channel] = (secondsInChatByChannel[channel] ?? 0) + secondsToAdd;
+                    if (channel === this.primaryChannel) {
+                        userDetail.secondsInChat += secondsToAdd;
+                    }
+                }
+                userDetail.secondsInChatByChannel = secondsInChatByChannel;
                 userDetail.lastSeenInChat = new Date();
             }).catch((err) => {
-                console.log(`Error adding time to user detail w/ username: ${usernameKey} ${err}`);
+                userLog.error(`Error adding time to user detail w/ username: ${usernameKey} ${err}`);
             });
             userUpdatePromises.push(updateUserPromise);
         }
         
+        // TODO: Add a timeout of some sort (as a promise?)
+        await Promise.all(userUpdatePromises);
+        this.saveUserDetails();
+    }
+
+    protected createUserDetailStore(): IUserDetailStore {
+        const backend = this._config.misc.userDetailStorage?.backend ?? "json";
+        if (backend === "json") {
+            return new JsonUserDetailStore(this._userDetailsPath);
+        }
+        if (backend !== "sqlite") {
+            throw new Error(`Unknown userDetailStorage backend: ${backend}`);
+        }
+
+        const store = new SqliteUserDetailStore(this._userDetailsSqlitePath);
+        const numMigratedUsers = store.migrateFromJsonFile(this._userDetailsPath);
+        if (numMigratedUsers > 0) {
+            userLog.info(`Imported ${numMigratedUsers} user details from ${this._userDetailsPath} into ${this._userDetailsSqlitePath}`);
+        }
+        return store;
+    }
+
+    /**
+     * Flags a user detail to be compared against its saved copy (& written if it differs) the next time user details are saved
+     */
+    protected markUserDetailChanged(userId: string): void {
+        this._changedUserIds.add(userId);
+    }
+
+    /**
+     * Writes every user detail that changed since the last save
+     */
+    protected saveUserDetails(): void {
+        const changedUserDetailByUserId: IUserDetailCollection<TUserDetail> = {};
+        const changedJsonByUserId: { [userId: string]: string } = {};
+        for (const userId of this._changedUserIds) {
+            const userDetail = this._userDetailByUserId[userId];
+            if (!userDetail) {
+                continue;
+            }
+            const json = JSON.stringify(userDetail);
+            if (json !== this._savedUserDetailJsonByUserId[userId]) {
+                changedUserDetailByUserId[userId] = userDetail;
+                changedJsonByUserId[userId] = json;
+            }
+        }
+        const numChangedUsers = Object.keys(changedJsonByUserId).length;
+        if (numChangedUsers === 0) {
+            this._changedUserIds.clear();
+            return;
+        }
+
+        try {
+            this._userDetailStore.upsert(changedUserDetailByUserId);
+            Object.assign(this._savedUserDetailJsonByUserId, changedJsonByUserId);
+            this._changedUserIds.clear();
+            userLog.debug(`Successfully saved ${numChangedUsers} changed userDetails to: ${this._userDetailStore.description}`);
+        } catch (err) {
+            userLog.error(`Error saving userDetails: ${err}`);
+            return;
+        }
+
+        const storageConfig = this._config.misc.userDetailStorage;
+        if (storageConfig?.exportCsv ?? storageConfig?.backend !== "sqlite") {
+            try {
+                fs.writeFileSync(this._userDetailsPathCsv, this.getCsvUserDetail(this._userDetailByUserId));
+            } catch (err) {
+                userLog.error(`Error writing userDetail CSV to file: ${err}`);
+            }
+        }
+    }
+
+    protected saveStreamStats(): void {
+        try {
+            this._streamStats.save();
+        } catch (err) {
+            userLog.error(`Error saving stream stats: ${err}`);
+        }
+    }
+
+    /**
+     * @returns the snapshot's file name, or undefined if backups are disabled or the snapshot couldn't be written
+     */
+    protected backupUserDetails(): string | undefined {
+        if (!this._userDetailBackups) {
+            return undefined;
+        }
         try {
-            // TODO: Add a timeout of some sort (as a promise?)
-            await Promise.all(userUpdatePromises);
-            // TODO: put a limit on how many user detail files are backed up
-            // const dateNow = new Date();
-            // const dateSuffix = dateNow.toISOString().split(":").join("_").split(".").join("_");
-            // fs.renameSync(this._config.userDetailFilePath, `${this._config.userDetailFilePath}_${dateSuffix}`);
-            const tempFilePath = `${this._userDetailsPath}_temp`;
-
-            const json = JSON.stringify(this._userDetailByUserId);
-            fs.writeFileSync(tempFilePath, json);
-            fs.renameSync(tempFilePath, this._userDetailsPath);
-            console.log(`Successfully wrote userDetail to file: ${this._userDetailsPath}`);
-
-            const csv = this.getCsvUserDetail(this._userDetailByUserId);
-            fs.writeFileSync(this._userDetailsPathCsv, csv);
-            // console.log(`Successfully wrote userDetail to file: ${this.userDetailsPathCsv}`);
+            const fileName = this._userDetailBackups.createSnapshot(this._userDetailByUserId);
+            userLog.info(`Backed up userDetails to: ${fileName}`);
+            return fileName;
         } catch (err) {
-            console.log(`Error writing userDetail status to file: ${err}`);
+            userLog.error(`Error backing up userDetails: ${err}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Replaces every user detail with the ones in a snapshot, after checking that the snapshot is intact. The current user details are backed up first.
+     * @returns the number of user details restored
+     * @throws if the snapshot is invalid, or the current user details couldn't be backed up
+     */
+    protected restoreUserDetails(fileName: string): number {
+        if (!this._userDetailBackups) {
+            throw new Error("User detail backups are disabled");
+        }
+        const snapshot = this._userDetailBackups.loadSnapshot(fileName);
+        if (!this.backupUserDetails()) {
+            throw new Error("Couldn't back up the current user details");
+        }
+
+        const restoredUserDetailByUserId = this.createUserCollection(snapshot as IUserDetailCollection<TUserDetail>);
+        this._userDetailStore.replaceAll(restoredUserDetailByUserId);
+        for (const userId in this._userDetailByUserId) {
+            delete this._userDetailByUserId[userId];
+            delete this._savedUserDetailJsonByUserId[userId];
+        }
+        for (const userId in restoredUserDetailByUserId) {
+            this._userDetailByUserId[userId] = restoredUserDetailByUserId[userId];
+            this._savedUserDetailJsonByUserId[userId] = JSON.stringify(restoredUserDetailByUserId[userId]);
+        }
+        this._changedUserIds.clear();
+        userLog.info(`Restored ${Object.keys(restoredUserDetailByUserId).length} userDetails from: ${fileName}`);
+        return Object.keys(restoredUserDetailByUserId).length;
+    }
+
+    /**
+     * Only finds users as of the last save
+     * @returns undefined if no known user has this username
+     */
+    protected findUserDetailByUsername(username: string): TUserDetail | undefined {
+        const userId = this._userDetailStore.findUserIdByUsername(username);
+        return userId === undefined ? undefined : this._userDetailByUserId[userId];
+    }
+
+    /**
+     * Files that are replaced by a rename (rather than written in place) must be addressed by their real path, or the rename replaces the symlink instead
+     */
+    protected static resolveSymlinks(filePath: string): string {
+        return fs.existsSync(filePath) ? fs.realpathSync(filePath) : filePath;
+    }
+
+    /**
+     * Override for platforms that report when a channel is broadcasting, so that stream sessions are recorded
+     * @returns undefined if the channel isn't live
+     */
+    protected async getLiveStream(_channel: string): Promise<ILiveStreamInfo | undefined> {
+        return undefined;
+    }
+
+    /**
+     * Override to only count watch time while a channel is active (e.g. live). Called after the channel's stream session is updated.
+     */
+    protected async shouldTrackUsersInChannel(_channel: string): Promise<boolean> {
+        return true;
+    }
+
+    /**
+     * Override to only post timers while a channel is active (e.g. live). Called after the channel's stream session is updated.
+     */
+    protected async shouldRunTimersInChannel(_channel: string): Promise<boolean> {
+        return true;
+    }
+
+    /**
+     * Starts the channel's timers once it becomes active & stops them once it isn't
+     */
+    protected async updateTimerGroups(channel: string): Promise<void> {
+        const shouldRun = await this.shouldRunTimersInChannel(channel);
+        const timerGroupsToChange = this._configuredTimerGroups.filter(n => n.channel === channel && n.isRunning !== shouldRun);
+        for (const timerGroup of timerGroupsToChange) {
+            if (shouldRun) {
+                timerGroup.startTimer();
+            } else {
+                timerGroup.stopTimer();
+            }
+        }
+        if (timerGroupsToChange.some(n => n.isRunning === shouldRun)) {
+            commandLog.info(`${shouldRun ? `Started` : `Stopped`} the timers in ${channel}`);
         }
     }
 
+    protected recordTimerGroupChatMessage(messageDetail: IPrivMessageDetail): void {
+        const channel = IrcBotBase.normalizeChannelName(messageDetail.recipient);
+        this._configuredTimerGroups.filter(n => n.channel === channel).forEach(n => n.recordChatMessage());
+    }
+
     protected getCsvUserDetail(userDetails: IUserDetailCollection<TUserDetail>): string {
         const userDetailMap = new Map<string, TUserDetail>();
         for (const userId in userDetails) {
@@ -279,21 +789,33 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
             }
         }
 
-        // We need the userId here to determine which stored userDetail belongs to the given username (the user may have changed their username)
+        if (usernamesToQuery.length === 0) {
+            return returnVal;
+        }
+
+        // We need the userId here to determine which stored userDetail belongs to the given username (the user may have changed their username).
+        // Lookups aren't kept once they settle, since the username may later belong to someone else; getUserIdsForUsernames is expected to cache ids instead.
         this.getUserIdsForUsernames(usernamesToQuery).then((userIdsByUsername) => {
-            for (const usernameKey in userIdsByUsername) {
+            for (const usernameKey of usernamesToQuery) {
+                const future = this._pendingUserDetailByUsername[usernameKey];
+                delete this._pendingUserDetailByUsername[usernameKey];
                 const userId = userIdsByUsername[usernameKey];
                 if (!userId) {
-                    this._pendingUserDetailByUsername[usernameKey].reject(`Unable to retrieve user detail for nonexistent userId`);
+                    future.reject(`Unable to retrieve user detail for nonexistent userId`);
                     continue;
                 }
+                this.markUserDetailChanged(userId); // callers are handed the user detail so that they can update it
                 if (!!this._userDetailByUserId[userId]) {
-                    this._pendingUserDetailByUsername[usernameKey].resolve(this._userDetailByUserId[userId]);
+                    future.resolve(this._userDetailByUserId[userId]);
                     continue;
                 }
                 const userDetail = this.createFreshUserDetail(usernameKey, userId);
                 this._userDetailByUserId[userId] = userDetail;
-                this._pendingUserDetailByUsername[usernameKey].resolve(userDetail);
+                future.resolve(userDetail);
+            }
+        }).catch((err) => {
+            for (const usernameKey of usernamesToQuery) {
+                this._pendingUserDetailByUsername[usernameKey]?.reject(err);
                 delete this._pendingUserDetailByUsername[usernameKey];
             }
         });
@@ -306,84 +828,239 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
     protected abstract createUserCollection(collection: IUserDetailCollection<TUserDetail>): IUserDetailCollection<TUserDetail>;
 
     protected async callCommandFunctionFromConfig(command: IIrcBotAuxCommandConfig, channel: string): Promise<boolean> {
-        if (command.expiresAt !== undefined) {
-            try {
-                const expireTime = new Date(command.expiresAt).getTime();
-                if (expireTime < Date.now()) {
-                    return false;
+        if (this.getConfiguredCommandStatus(command) !== CommandScheduleStatus.Active) {
+            return false;
+        }
+        const responseIndex = randomInt(command.responses.length);
+        const response = await this.renderResponse(command.responses[responseIndex], { channel, command, args: [] });
+        this.chat(channel, response, true, ChatPriority.Low);
+        return true;
+    }
+
+    /**
+     * Commands with an invalid schedule are treated as always active, so that a typo doesn't silently disable them. The problem is only logged the first time it's found in each loaded command.
+     */
+    protected getConfiguredCommandStatus(command: IIrcBotAuxCommandConfig): CommandScheduleStatus {
+        try {
+            return CommandSchedule.getStatus(command, new Date(), this._config.misc.timezone);
+        } catch (err) {
+            if (!this._commandsWithInvalidSchedules.has(command)) {
+                this._commandsWithInvalidSchedules.add(command);
+                commandLog.error(`Failed to check the schedule of command ${command.name}: ${err.message}`);
+            }
+            return CommandScheduleStatus.Active;
+        }
+    }
+
+    protected async renderResponse(response: string, context: IResponseTemplateContext): Promise<string> {
+        if (!ResponseTemplate.hasVariables(response)) {
+            return response;
+        }
+        return await ResponseTemplate.render(response, (name, args) => this.getResponseVariable(name, args, context));
+    }
+
+    /**
+     * @param name lowercase
+     * @returns undefined if the variable isn't recognized
+     */
+    protected async getResponseVariable(name: string, args: string[], context: IResponseTemplateContext): Promise<string | undefined> {
+        switch (name) {
+            case "user":
+                return context.messageDetail?.username ?? "";
+            case "target":
+                return context.args.length > 0
+                    ? context.args[0].replace(/^@/, "")
+                    : context.messageDetail?.username ?? ""; // with no one to target, the user targets themself
+            case "arg": {
+                const argNumber = parseInt(args[0]);
+                if (!(argNumber >= 1)) {
+                    return undefined;
                 }
+                return context.args[argNumber - 1] ?? "";
+            }
+            case "count":
+                return `${this._commandUseCounts[context.command.name] ?? 0}`;
+            case "random": {
+                const min = parseInt(args[0]);
+                const max = parseInt(args[1]);
+                if (isNaN(min) || isNaN(max) || max < min) {
+                    return undefined;
+                }
+                return `${min + randomInt(max - min + 1)}`;
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    protected incrementCommandUseCount(commandName: string): void {
+        this._commandUseCounts[commandName] = (this._commandUseCounts[commandName] ?? 0) + 1;
+        try {
+            const tempFilePath = `${this._commandUseCountsPath}_temp`;
+            fs.writeFileSync(tempFilePath, JSON.stringify(this._commandUseCounts, undefined, 2));
+            fs.renameSync(tempFilePath, this._commandUseCountsPath);
+        } catch (err) {
+            commandLog.error(`Error writing command use counts: ${err}`);
+        }
+    }
+
+    /**
+     * @returns the words following whichever trigger phrase the message starts with
+     */
+    protected static getCommandArgs(message: string, triggerPhrases: string[]): string[] {
+        const messageWords = message.trim().split(/\s+/);
+        const numTriggerWords = triggerPhrases
+            .map(triggerPhrase => triggerPhrase.trim().split(/\s+/))
+            .filter(triggerWords => triggerWords.every((word, i) => messageWords[i]?.toLowerCase() === word.toLowerCase()))
+            .reduce((max, triggerWords) => Math.max(max, triggerWords.length), 1);
+        return messageWords.slice(numTriggerWords);
+    }
+
+    public static readonly configuredCommandIdPrefix = "config:";
+
+    /** Configured commands get their own ids, so that they never collide with a hardcoded command that shares a trigger phrase */
+    public static getConfiguredCommandId(commandName: string): string {
+        return `${IrcBotBase.configuredCommandIdPrefix}${commandName}`;
+    }
+
+    /**
+     * Registers the configured commands & creates their timers, replacing any that were loaded before. Timers are only started in channels where the previous ones were running.
+     */
+    protected loadConfiguredCommands(): void {
+        const channelsWithRunningTimers = this._configuredTimerGroups.filter(n => n.isRunning).map(n => n.channel);
+        this._configuredTimerGroups.forEach(n => n.stopTimer());
+        for (const registration of this._commandRegistry.registrations) {
+            if (registration.commandId.startsWith(IrcBotBase.configuredCommandIdPrefix)) {
+                this._commandRegistry.unregister(registration.commandId);
+            }
+        }
+
+        const configCommands: CommandsFromConfigResult = this.getCommandsFromConfig(this._config.auxCommandGroups);
+        for (const command of configCommands.commands) {
+            try {
+                this._commandRegistry.register(command);
             } catch (err) {
-                console.log(`Failed to compare command expiration time: ${err.message}`);
+                configLog.warn(`Skipped configured command ${command.triggerPhrases[0]}: ${err.message}`);
             }
         }
-        const responseIndex = randomInt(command.responses.length);
-        const response = command.responses[responseIndex];
-        this.chat(channel, response, true);
-        return true;
+        this._configuredTimerGroups = configCommands.timerGroups;
+        this._configuredTimerGroups.filter(n => channelsWithRunningTimers.includes(n.channel)).forEach(n => n.startTimer());
     }
 
     // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
-    protected getCommandsFromConfig(commandGroups: IIrcBotAuxCommandGroupConfig[], channelToAddTimers: string | undefined): CommandsFromConfigResult {
-        const chatResponses: ((messageDetail: IPrivMessageDetail) => Promise<void>)[] = [];
+    protected getCommandsFromConfig(commandGroups: IIrcBotAuxCommandGroupConfig[]): CommandsFromConfigResult {
+        const commands: ICommandRegistration[] = [];
         const timerGroups: TimerGroup[] = [];
         
         for (const commandGroup of commandGroups) {
-            const timerCommands: {(): Promise<boolean>}[] = [];
+            const groupChannels = this.getCommandGroupChannels(commandGroup);
             for (const command of commandGroup.commands) {
-                if (channelToAddTimers !== undefined && channelToAddTimers !== null) {
-                    if (!command.responses || command.responses.length === 0) {
-                        continue;
-                    }
-                    const func = () => this.callCommandFunctionFromConfig(command, channelToAddTimers)
-                        .catch((err) => {
-                            this.onError(err);
-                            return false;
-                        });
-                    timerCommands.push(func);
-                }
-
                 if (!command.name) {
                     continue;
                 }
-                const commandNames = Array.isArray(command.aliases)
-                    ? [command.name].concat(command.aliases)
-                    : [command.name];
-                const func = this.getSimpleCommandFunc(commandNames, command.responses, command.strict ?? false, command.name, command.globalTimeoutSeconds ?? 0, command.userTimeoutSeconds ?? 30);
-                chatResponses.push(func);
+                const triggers = this.getConfiguredCommandTriggers(command);
+                if (triggers.length === 0) {
+                    configLog.warn(`Configured command ${command.name} has no valid triggers`);
+                    continue;
+                }
+                const commandNames = triggers.filter(n => n.matchMode === "prefix").map(n => n.phrase);
+                commands.push({
+                    messageHandler: async (messageDetail) => {
+                        this.incrementCommandUseCount(command.name);
+                        const args = IrcBotBase.getCommandArgs(messageDetail.message, commandNames);
+                        const response = await this.renderResponse(command.responses[randomInt(command.responses.length)], { channel: messageDetail.recipient, command, messageDetail, args });
+                        this.chat(messageDetail.respondTo, response, true);
+                    },
+                    triggerPhrases: commandNames,
+                    strictMatch: command.strict ?? false,
+                    triggers,
+                    permission: {
+                        level: this.getConfiguredCommandPermissionLevel(command),
+                        subscriberTier: command.subscriberTier,
+                        allowUsers: command.allowUsers,
+                        denyUsers: command.denyUsers,
+                    },
+                    isEnabled: () => this.getConfiguredCommandStatus(command) === CommandScheduleStatus.Active,
+                    commandId: IrcBotBase.getConfiguredCommandId(command.name),
+                    globalTimeoutSeconds: command.globalTimeoutSeconds ?? 0,
+                    userTimeoutSeconds: command.userTimeoutSeconds ?? 30,
+                    description: command.description,
+                    category: "Info",
+                    channels: groupChannels,
+                });
             }
 
             if (commandGroup.timerMinutes !== null && commandGroup.timerMinutes !== undefined) {
-                const timerGroup = new TimerGroup(timerCommands, commandGroup.timerMinutes, commandGroup.timerMinutesOffset, commandGroup.random);
-                timerGroups.push(timerGroup);
+                for (const channel of groupChannels) {
+                    const timerCommands: {(): Promise<boolean>}[] = commandGroup.commands
+                        .filter(command => command.responses && command.responses.length > 0)
+                        .map(command => () => this.callCommandFunctionFromConfig(command, channel)
+                            .catch((err) => {
+                                this.onError(err);
+                                return false;
+                            }));
+                    const timerGroup = new TimerGroup(channel, timerCommands, commandGroup.timerMinutes, commandGroup.timerMinutesOffset, commandGroup.random, commandGroup.timerMinChatMessages ?? 1);
+                    timerGroups.push(timerGroup);
+                }
             }
         }
 
-        return { chatResponses, timerGroups };
+        return { commands, timerGroups };
     }
 
     /**
-     * Creates a basic response function that responds to a matching message with only simple text strings
-     * @param triggerPhrases 
-     * @param responses 
-     * @param strictMatch 
-     * @param commandKey 
-     * @param globalTimeoutSeconds 
-     * @param userTimeoutSeconds 
-     * @returns 
+     * An unrecognized permission is treated as the most restrictive one, rather than opening the command up to everyone
      */
-    public getSimpleCommandFunc(triggerPhrases: string[], responses: string[], strictMatch: boolean, commandId: string, globalTimeoutSeconds: number, userTimeoutSeconds: number): (message: IPrivMessageDetail) => Promise<void> {
-        const subFunc = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const response = responses[randomInt(responses.length)];
-            this.chat(messageDetail.respondTo, response, true);
-        }
-        return this.getCommandFunc({
-            messageHandler: subFunc,
-            triggerPhrases,
-            strictMatch,
-            commandId,
-            globalTimeoutSeconds,
-            userTimeoutSeconds,
-        });
+    protected getConfiguredCommandPermissionLevel(command: IIrcBotAuxCommandConfig): CommandPermission {
+        const level = CommandPermissions.parseLevel(command.permission ?? "everyone");
+        if (level === undefined) {
+            configLog.warn(`Unknown permission for ${command.name}: ${command.permission}. Only the broadcaster will be able to use it.`);
+            return CommandPermission.Broadcaster;
+        }
+        return level;
+    }
+
+    public static getTriggerPhrase(trigger: string | IIrcBotAuxCommandTriggerConfig): string {
+        return typeof trigger === "string" ? trigger : trigger.phrase;
+    }
+
+    /**
+     * Fills in each trigger's options from the command's defaults. Triggers with invalid regular expressions are left out.
+     */
+    protected getConfiguredCommandTriggers(command: IIrcBotAuxCommandConfig): ICommandTrigger[] {
+        const triggerConfigs = command.triggers ?? [command.name, ...(command.aliases ?? [])];
+        const triggers: ICommandTrigger[] = [];
+        for (const triggerConfig of triggerConfigs) {
+            const trigger: ICommandTrigger = typeof triggerConfig === "string"
+                ? { phrase: triggerConfig, strictMatch: command.strict ?? false, caseSensitive: command.caseSensitive ?? false, matchMode: "prefix" }
+                : { phrase: triggerConfig.phrase, strictMatch: triggerConfig.strict ?? command.strict ?? false, caseSensitive: triggerConfig.caseSensitive ?? command.caseSensitive ?? false, matchMode: triggerConfig.match ?? "prefix" };
+            if (trigger.matchMode === "regex") {
+                try {
+                    new RegExp(trigger.phrase);
+                } catch (err) {
+                    configLog.warn(`Skipped invalid regex trigger for ${command.name}: ${err.message}`);
+                    continue;
+                }
+            }
+            triggers.push(trigger);
+        }
+        return triggers;
+    }
+
+    /**
+     * @returns the joined channels a command group applies to
+     */
+    protected getCommandGroupChannels(commandGroup: IIrcBotAuxCommandGroupConfig): string[] {
+        if (!commandGroup.channels) {
+            return [this.primaryChannel];
+        }
+
+        const joinedChannels = this.channels;
+        const groupChannels = commandGroup.channels.map(n => IrcBotBase.normalizeChannelName(n));
+        for (const channel of groupChannels.filter(n => !joinedChannels.includes(n))) {
+            configLog.warn(`Command group refers to ${channel}, which is not a joined channel. Add it to the connection config's additionalChannels.`);
+        }
+        return groupChannels.filter(n => joinedChannels.includes(n));
     }
 
     /**
@@ -393,30 +1070,547 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
      */
     public getCommandFunc(args: NewCommandArgs): (messageDetail: IPrivMessageDetail) => Promise<void> {
         const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const hasMatch = args.triggerPhrases.some((triggerPhrase) => {
-                return this.doesTriggerMatch(messageDetail, triggerPhrase, args.strictMatch);
+            const matchedTrigger = CommandRegistry.getTriggers(args).find((trigger) => {
+                return this.doesCommandTriggerMatch(messageDetail, trigger);
             });
-            if (!hasMatch) {
+            if (!matchedTrigger) {
                 return;
             }
 
-            if (!this.shouldIgnoreTimeoutRestrictions(messageDetail)) {
-                if (this.isCommandTimedOut(args.commandId, messageDetail.username)) {
-                    return;
-                }
-            }
-
-            await args.messageHandler(messageDetail);
-
-            this.addCommandTimeoutDelays(args.commandId, args.globalTimeoutSeconds, { userTimeoutSeconds: args.userTimeoutSeconds, username: messageDetail.username });
+            await this.invokeCommand(args, messageDetail, matchedTrigger);
         }
         return messageHandler;
     }
 
-    protected abstract shouldIgnoreTimeoutRestrictions(messageDetail: IPrivMessageDetail): boolean;
+    /**
+     * Runs a command whose trigger phrase has already been matched, unless the user isn't permitted to use it or it is timed out
+     */
+    protected async invokeCommand(args: NewCommandArgs, messageDetail: IPrivMessageDetail, matchedTrigger: ICommandTrigger): Promise<void> {
+        const requirement = CommandPermissions.getRequirement(args.permission);
+        if (!await this.hasCommandPermission(messageDetail, requirement)) {
+            if (matchedTrigger.matchMode === "prefix") { // keywords in the middle of a message weren't meant as a command, so there's nothing to deny
+                this.denyCommandPermission(messageDetail, args.commandId, matchedTrigger.phrase, requirement);
+            }
+            return;
+        }
 
-    protected addCommandTimeoutDelays(commandId: string, globalTimeoutSeconds: number, userTimeout?: { userTimeoutSeconds: number, username: string }): void {
-        if (userTimeout && userTimeout.userTimeoutSeconds > 0) {
+        if (!await this.shouldIgnoreTimeoutRestrictions(messageDetail)) {
+            if (this.isCommandTimedOut(args.commandId, messageDetail.username)) {
+                return;
+            }
+        }
+
+        await args.messageHandler(messageDetail);
+
+        this.addCommandTimeoutDelays(args.commandId, args.globalTimeoutSeconds, { userTimeoutSeconds: args.userTimeoutSeconds, username: messageDetail.username });
+    }
+
+    /**
+     * Runs every registered command triggered by a message
+     */
+    protected async handleRegisteredCommands(messageDetail: IPrivMessageDetail): Promise<void> {
+        if (this.isShuttingDown) {
+            return;
+        }
+        const triggeredCommands: { command: ICommandRegistration, matchedTrigger: ICommandTrigger }[] = [];
+        for (const command of this._commandRegistry.getCandidates(messageDetail.message)) {
+            if (!CommandRegistry.isAvailableInChannel(command, messageDetail.recipient) || !(command.isEnabled?.() ?? true)) {
+                continue;
+            }
+            const matchedTrigger = CommandRegistry.getTriggers(command).find(trigger => this.doesCommandTriggerMatch(messageDetail, trigger));
+            if (matchedTrigger) {
+                triggeredCommands.push({ command, matchedTrigger });
+            }
+        }
+
+        const commandPromises = triggeredCommands.map(async ({ command, matchedTrigger }) => {
+            await this.invokeCommand(command, messageDetail, matchedTrigger);
+        });
+        await Promise.all(commandPromises.map(n => n.catch((err) => {
+            commandLog.error("Error processing command:", err);
+        })));
+    }
+
+    /**
+     * Override to recognize roles (e.g. from badges)
+     */
+    protected async getUserPermissions(_messageDetail: IPrivMessageDetail): Promise<IUserPermissions> {
+        return CommandPermissions.everyone;
+    }
+
+    protected async hasCommandPermission(messageDetail: IPrivMessageDetail, permission: CommandPermission | ICommandPermissionRequirement): Promise<boolean> {
+        const requirement = CommandPermissions.getRequirement(permission);
+        const userPermissions = await this.getUserPermissions(messageDetail);
+        return CommandPermissions.isPermitted(requirement, messageDetail.username, userPermissions);
+    }
+
+    /**
+     * Tells the user why their command was ignored. Each user is only told once in a while, so that retrying doesn't flood chat.
+     */
+    protected denyCommandPermission(messageDetail: IPrivMessageDetail, commandId: string, commandName: string, permission: CommandPermission | ICommandPermissionRequirement): void {
+        const denialId = `${commandId}_denied`;
+        if (this.isCommandTimedOut(denialId, messageDetail.username)) {
+            return;
+        }
+        this.addCommandTimeoutDelays(denialId, 0, { userTimeoutSeconds: IrcBotBase.permissionDenialTimeoutSeconds, username: messageDetail.username });
+        this.chat(messageDetail.respondTo, CommandPermissions.getDenialMessage(messageDetail.username, commandName, CommandPermissions.getRequirement(permission)));
+    }
+
+    public static readonly permissionDenialTimeoutSeconds = 30;
+
+    protected registerBuiltInCommands(): void {
+        this._commandRegistry.register({
+            messageHandler: async (detail) => this.handleHelp(detail),
+            triggerPhrases: ["!help"],
+            strictMatch: false,
+            commandId: "!help",
+            globalTimeoutSeconds: 0,
+            userTimeoutSeconds: 5,
+            description: "Describes a command",
+            usage: "<command>",
+            category: "General",
+        });
+        this._commandRegistry.register({
+            messageHandler: async (detail) => await this.handleCommandList(detail),
+            triggerPhrases: ["!commands"],
+            strictMatch: true,
+            commandId: "!commands",
+            globalTimeoutSeconds: 10,
+            userTimeoutSeconds: 60,
+            description: "Lists every command you can use",
+            category: "General",
+        });
+
+        const userStats: { triggerPhrase: string, usage: string, description: string, handler: (messageDetail: IPrivMessageDetail) => Promise<void> }[] = [
+            { triggerPhrase: "!watchtime", usage: "[username]", description: "Shows how long a user has watched this stream & in total", handler: (detail) => this.handleWatchTime(detail) },
+            { triggerPhrase: "!streak", usage: "[username]", description: "Shows how many streams in a row a user has attended", handler: (detail) => this.handleStreak(detail) },
+            { triggerPhrase: "!topchatters", usage: "", description: "Lists who has chatted the most this stream", handler: (detail) => this.handleTopChatters(detail) },
+        ];
+        for (const command of userStats) {
+            this._commandRegistry.register({
+                messageHandler: command.handler,
+                triggerPhrases: [command.triggerPhrase],
+                strictMatch: false,
+                commandId: command.triggerPhrase,
+                globalTimeoutSeconds: 5,
+                userTimeoutSeconds: 30,
+                description: command.description,
+                usage: command.usage,
+                category: "Stats",
+            });
+        }
+
+        const commandEditors: { triggerPhrase: string, usage: string, description: string, handler: (messageDetail: IPrivMessageDetail) => Promise<void> }[] = [
+            { triggerPhrase: "!addcom", usage: "<name> <response>", description: "Adds a command", handler: (detail) => this.handleAddCommand(detail) },
+            { triggerPhrase: "!editcom", usage: "<name> [#responseNumber] <response>", description: "Replaces a command's response", handler: (detail) => this.handleEditCommand(detail) },
+            { triggerPhrase: "!delcom", usage: "<name>", description: "Deletes a command & its aliases", handler: (detail) => this.handleDeleteCommand(detail) },
+            { triggerPhrase: "!aliascom", usage: "<name> <alias>", description: "Adds another name for a command", handler: (detail) => this.handleAliasCommand(detail) },
+            { triggerPhrase: "!unaliascom", usage: "<alias>", description: "Removes one of a command's aliases", handler: (detail) => this.handleUnaliasCommand(detail) },
+            { triggerPhrase: "!listcom", usage: "[name]", description: "Lists configured commands, or describes one", handler: (detail) => this.handleListCommands(detail) },
+            { triggerPhrase: "!reload", usage: "", description: "Reloads commands.json & miscConfig.json", handler: (detail) => this.handleReload(detail) },
+            { triggerPhrase: "!comschedule", usage: "", description: "Lists configured commands that haven't started yet or have expired", handler: (detail) => this.handleCommandSchedule(detail) },
+        ];
+        const userDetailAdministration: { triggerPhrase: string, usage: string, description: string, handler: (messageDetail: IPrivMessageDetail) => Promise<void> }[] = [
+            { triggerPhrase: "!backupusers", usage: "", description: "Takes a snapshot of every user's details", handler: (detail) => this.handleBackupUsers(detail) },
+            { triggerPhrase: "!restoreusers", usage: "[snapshot]", description: "Lists the newest user detail snapshots, or restores one", handler: (detail) => this.handleRestoreUsers(detail) },
+        ];
+        for (const command of userDetailAdministration) {
+            this._commandRegistry.register({
+                messageHandler: command.handler,
+                triggerPhrases: [command.triggerPhrase],
+                strictMatch: false,
+                commandId: command.triggerPhrase,
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: command.description,
+                usage: command.usage,
+                permission: CommandPermission.Broadcaster,
+                category: "Administration",
+            });
+        }
+
+        for (const editor of commandEditors) {
+            this._commandRegistry.register({
+                messageHandler: editor.handler,
+                triggerPhrases: [editor.triggerPhrase],
+                strictMatch: false,
+                commandId: editor.triggerPhrase,
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: editor.description,
+                usage: editor.usage,
+                permission: CommandPermission.Moderator,
+                category: "Moderation",
+            });
+        }
+    }
+
+    protected findConfiguredCommand(nameOrAlias: string): { group: IIrcBotAuxCommandGroupConfig, command: IIrcBotAuxCommandConfig } | undefined {
+        for (const group of this._config.auxCommandGroups) {
+            const command = group.commands.find(n => n.name === nameOrAlias
+                || (n.aliases ?? []).some(alias => IrcBotBase.getTriggerPhrase(alias) === nameOrAlias)
+                || (n.triggers ?? []).some(trigger => IrcBotBase.getTriggerPhrase(trigger) === nameOrAlias));
+            if (command) {
+                return { group, command };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * @returns the group that commands added from a channel's chat are stored in (a group without a timer, which applies only to that channel)
+     */
+    protected getEditableCommandGroup(channel: string): IIrcBotAuxCommandGroupConfig {
+        const ircChannel = IrcBotBase.normalizeChannelName(channel);
+        const existingGroup = this._config.auxCommandGroups.find(group => {
+            const groupChannels = group.channels ? group.channels.map(n => IrcBotBase.normalizeChannelName(n)) : [this.primaryChannel];
+            return (group.timerMinutes === undefined || group.timerMinutes === null) && groupChannels.length === 1 && groupChannels[0] === ircChannel;
+        });
+        if (existingGroup) {
+            return existingGroup;
+        }
+
+        const newGroup: IIrcBotAuxCommandGroupConfig = ircChannel === this.primaryChannel
+            ? { commands: [] }
+            : { channels: [ircChannel], commands: [] };
+        this._config.auxCommandGroups.push(newGroup);
+        return newGroup;
+    }
+
+    /**
+     * Makes an edit to the configured commands, then saves & reloads them so that it takes effect immediately.
+     * The edit is undone if it can't be saved, & the commands are reloaded from the previous config, since the live commands share their objects with the edited one.
+     */
+    protected applyCommandsConfigChange(messageDetail: IPrivMessageDetail, successMessage: string, edit: () => void): void {
+        const previousCommandGroups: IIrcBotAuxCommandGroupConfig[] = JSON.parse(JSON.stringify(this._config.auxCommandGroups));
+        try {
+            edit();
+            this.saveCommandsConfig();
+        } catch (err) {
+            this._config.auxCommandGroups = previousCommandGroups;
+            this.loadConfiguredCommands();
+            configLog.error(`Error saving configured commands: ${err}`);
+            this.chat(messageDetail.respondTo, `Failed to save the change: ${err.message}`);
+            return;
+        }
+        this.loadConfiguredCommands();
+        this.chat(messageDetail.respondTo, successMessage);
+    }
+
+    /**
+     * @returns the built-in or hardcoded command that a phrase already triggers, so that configured commands can't shadow it
+     */
+    protected findNonConfiguredCommand(phrase: string): ICommandRegistration | undefined {
+        const normalizedPhrase = phrase.toLowerCase();
+        return this._commandRegistry.registrations.find(n => !n.commandId.startsWith(IrcBotBase.configuredCommandIdPrefix)
+            && n.triggerPhrases.some(triggerPhrase => triggerPhrase.toLowerCase() === normalizedPhrase));
+    }
+
+    protected saveCommandsConfig(): void {
+        const commandsConfigPath = IrcBotBase.resolveSymlinks(this._commandsConfigPath);
+        const tempFilePath = `${commandsConfigPath}_temp`;
+        fs.writeFileSync(tempFilePath, `${JSON.stringify(this._config.auxCommandGroups, undefined, 4)}\n`);
+        fs.renameSync(tempFilePath, commandsConfigPath);
+        configLog.info(`Successfully wrote configured commands to file: ${commandsConfigPath}`);
+    }
+
+    /**
+     * Splits a command editing message into its first few words & the (untrimmed) text that follows them
+     */
+    protected static getCommandEditArgs(message: string, numWords: number): { words: string[], rest: string } {
+        const words: string[] = [];
+        let rest = message.trim();
+        for (let i = 0; i <= numWords && rest.length > 0; i++) {
+            const match = /^(\S+)\s*/.exec(rest);
+            if (!match) {
+                break;
+            }
+            if (i > 0) {
+                words.push(match[1]); // the first word is the editing command itself
+            }
+            rest = rest.slice(match[0].length);
+        }
+        return { words, rest };
+    }
+
+    protected async handleAddCommand(messageDetail: IPrivMessageDetail): Promise<void> {
+        const args = IrcBotBase.getCommandEditArgs(messageDetail.message, 1);
+        if (args.words.length < 1 || !args.rest) {
+            this.chat(messageDetail.respondTo, `Usage: !addcom <name> <response>`);
+            return;
+        }
+        const name = args.words[0];
+        if (this.findConfiguredCommand(name)) {
+            this.chat(messageDetail.respondTo, `${name} already exists. Use !editcom to change it.`);
+            return;
+        }
+        if (this.findNonConfiguredCommand(name)) {
+            this.chat(messageDetail.respondTo, `${name} is a built-in command, so it can't be added`);
+            return;
+        }
+
+        this.applyCommandsConfigChange(messageDetail, `Added ${name}`, () => this.getEditableCommandGroup(messageDetail.recipient).commands.push({ name, responses: [args.rest] }));
+    }
+
+    protected async handleEditCommand(messageDetail: IPrivMessageDetail): Promise<void> {
+        let args = IrcBotBase.getCommandEditArgs(messageDetail.message, 2);
+        const responseNumberMatch = args.words.length === 2 ? /^#(\d+)$/.exec(args.words[1]) : null;
+        if (!responseNumberMatch) {
+            args = IrcBotBase.getCommandEditArgs(messageDetail.message, 1);
+        }
+        if (args.words.length < 1 || !args.rest) {
+            this.chat(messageDetail.respondTo, `Usage: !editcom <name> [#responseNumber] <response>`);
+            return;
+        }
+
+        const name = args.words[0];
+        const found = this.findConfiguredCommand(name);
+        if (!found) {
+            this.chat(messageDetail.respondTo, `${name} doesn't exist. Use !addcom to create it.`);
+            return;
+        }
+        const responses = found.command.responses;
+        if (!responseNumberMatch && responses.length > 1) {
+            this.chat(messageDetail.respondTo, `${name} has ${responses.length} responses. Specify which one to replace (e.g. !editcom ${name} #2 <response>).`);
+            return;
+        }
+        const responseIndex = responseNumberMatch ? parseInt(responseNumberMatch[1]) - 1 : 0;
+        if (responseIndex < 0 || responseIndex >= responses.length) {
+            this.chat(messageDetail.respondTo, `${name} only has ${responses.length} response${responses.length === 1 ? `` : `s`}`);
+            return;
+        }
+
+        this.applyCommandsConfigChange(messageDetail, responseNumberMatch ? `Updated response #${responseIndex + 1} of ${name}` : `Updated ${name}`, () => { responses[responseIndex] = args.rest; });
+    }
+
+    protected async handleDeleteCommand(messageDetail: IPrivMessageDetail): Promise<void> {
+        const args = IrcBotBase.getCommandEditArgs(messageDetail.message, 1);
+        if (args.words.length < 1) {
+            this.chat(messageDetail.respondTo, `Usage: !delcom <name>`);
+            return;
+        }
+
+        const name = args.words[0];
+        const found = this.findConfiguredCommand(name);
+        if (!found) {
+            this.chat(messageDetail.respondTo, `${name} doesn't exist`);
+            return;
+        }
+        if (found.command.name !== name) {
+            this.chat(messageDetail.respondTo, `${name} is an alias of ${found.command.name}. Use !unaliascom ${name} to remove just the alias.`);
+            return;
+        }
+
+        this.applyCommandsConfigChange(messageDetail, `Deleted ${name}`, () => found.group.commands.splice(found.group.commands.indexOf(found.command), 1));
+    }
+
+    protected async handleAliasCommand(messageDetail: IPrivMessageDetail): Promise<void> {
+        const args = IrcBotBase.getCommandEditArgs(messageDetail.message, 2);
+        if (args.words.length < 2) {
+            this.chat(messageDetail.respondTo, `Usage: !aliascom <name> <alias>`);
+            return;
+        }
+
+        const [name, alias] = args.words;
+        const found = this.findConfiguredCommand(name);
+        if (!found) {
+            this.chat(messageDetail.respondTo, `${name} doesn't exist`);
+            return;
+        }
+        if (found.command.triggers) {
+            this.chat(messageDetail.respondTo, `${found.command.name} uses custom triggers, which can only be changed in commands.json`);
+            return;
+        }
+        const existingCommand = this.findConfiguredCommand(alias);
+        if (existingCommand) {
+            this.chat(messageDetail.respondTo, `${alias} is already used by ${existingCommand.command.name}`);
+            return;
+        }
+        if (this.findNonConfiguredCommand(alias)) {
+            this.chat(messageDetail.respondTo, `${alias} is a built-in command, so it can't be an alias`);
+            return;
+        }
+
+        this.applyCommandsConfigChange(messageDetail, `${alias} now triggers ${found.command.name}`, () => { found.command.aliases = (found.command.aliases ?? []).concat(alias); });
+    }
+
+    protected async handleUnaliasCommand(messageDetail: IPrivMessageDetail): Promise<void> {
+        const args = IrcBotBase.getCommandEditArgs(messageDetail.message, 1);
+        if (args.words.length < 1) {
+            this.chat(messageDetail.respondTo, `Usage: !unaliascom <alias>`);
+            return;
+        }
+
+        const alias = args.words[0];
+        const found = this.findConfiguredCommand(alias);
+        if (!found || !(found.command.aliases ?? []).some(n => IrcBotBase.getTriggerPhrase(n) === alias)) {
+            this.chat(messageDetail.respondTo, `${alias} isn't an alias of any command`);
+            return;
+        }
+
+        this.applyCommandsConfigChange(messageDetail, `Removed alias ${alias} from ${found.command.name}`, () => { found.command.aliases = (found.command.aliases ?? []).filter(n => IrcBotBase.getTriggerPhrase(n) !== alias); });
+    }
+
+    protected async handleListCommands(messageDetail: IPrivMessageDetail): Promise<void> {
+        const args = IrcBotBase.getCommandEditArgs(messageDetail.message, 1);
+        if (args.words.length === 0) {
+            const names = this._config.auxCommandGroups
+                .filter(group => this.getCommandGroupChannels(group).includes(messageDetail.recipient.toLowerCase()))
+                .flatMap(group => group.commands.map(n => n.name))
+                .filter(n => !!n);
+            this.chat(messageDetail.respondTo, `Configured commands: ${names.join(" ")}`, true);
+            return;
+        }
+
+        const name = args.words[0];
+        const found = this.findConfiguredCommand(name);
+        if (!found) {
+            this.chat(messageDetail.respondTo, `${name} doesn't exist`);
+            return;
+        }
+        const aliases = (found.command.aliases ?? []).map(n => IrcBotBase.getTriggerPhrase(n));
+        const startsAt = found.command.startsAt ? `, starts ${found.command.startsAt}` : ``;
+        const expiry = found.command.expiresAt ? `, expires ${found.command.expiresAt}` : ``;
+        const status = this.getConfiguredCommandStatus(found.command);
+        this.chat(messageDetail.respondTo, `${found.command.name} (${status}): ${found.command.responses.length} response${found.command.responses.length === 1 ? `` : `s`}, aliases: ${aliases.length > 0 ? aliases.join(" ") : `none`}${startsAt}${expiry}`);
+    }
+
+    protected async handleReload(messageDetail: IPrivMessageDetail): Promise<void> {
+        const errors = [...this.reloadCommandsConfig(), ...this.reloadMiscConfig()];
+        if (errors.length > 0) {
+            this.chat(messageDetail.respondTo, `Reload failed, so any file with problems kept its previous settings (${errors.length} problem${errors.length === 1 ? `` : `s`}, first: ${errors[0]})`, true);
+            return;
+        }
+        this.chat(messageDetail.respondTo, `Reloaded ${this._config.auxCommandGroups.flatMap(n => n.commands).length} configured commands`);
+    }
+
+    protected async handleBackupUsers(messageDetail: IPrivMessageDetail): Promise<void> {
+        if (!this._userDetailBackups) {
+            this.chat(messageDetail.respondTo, `User detail backups are disabled in the misc config`);
+            return;
+        }
+        this.saveUserDetails();
+        const fileName = this.backupUserDetails();
+        this.chat(messageDetail.respondTo, fileName ? `Backed up ${Object.keys(this._userDetailByUserId).length} users to ${fileName}` : `Backup failed. Check the log for details.`);
+    }
+
+    protected async handleRestoreUsers(messageDetail: IPrivMessageDetail): Promise<void> {
+        if (!this._userDetailBackups) {
+            this.chat(messageDetail.respondTo, `User detail backups are disabled in the misc config`);
+            return;
+        }
+        const fileName = messageDetail.message.trim().split(/\s+/)[1];
+        if (!fileName) {
+            const snapshots = this._userDetailBackups.listSnapshots().slice(0, 3).map(n => n.fileName);
+            this.chat(messageDetail.respondTo, snapshots.length > 0 ? `Newest snapshots: ${snapshots.join(" ")} | Usage: !restoreusers <snapshot>` : `There are no snapshots yet`, true);
+            return;
+        }
+
+        try {
+            const numRestoredUsers = this.restoreUserDetails(fileName);
+            this.chat(messageDetail.respondTo, `Restored ${numRestoredUsers} users from ${fileName}. The previous details were backed up first.`, true);
+        } catch (err) {
+            userLog.error(`Error restoring userDetails from ${fileName}: ${err}`);
+            this.chat(messageDetail.respondTo, `Restore failed, so nothing was changed: ${err.message}`, true);
+        }
+    }
+
+    /**
+     * @returns the user named in the command's first argument, or the user who sent it
+     */
+    protected async getStatsCommandUserDetail(messageDetail: IPrivMessageDetail): Promise<TUserDetail | undefined> {
+        const username = messageDetail.message.trim().split(/\s+/)[1]?.replace(/^@/, "");
+        return username ? this.findUserDetailByUsername(username) : await this.getUserDetailWithCache(messageDetail.username);
+    }
+
+    protected async handleWatchTime(messageDetail: IPrivMessageDetail): Promise<void> {
+        const userDetail = await this.getStatsCommandUserDetail(messageDetail);
+        if (!userDetail) {
+            this.chat(messageDetail.respondTo, `I haven't seen that user in chat`);
+            return;
+        }
+        const channel = IrcBotBase.normalizeChannelName(messageDetail.recipient);
+        const totalSeconds = userDetail.secondsInChatByChannel?.[channel] ?? (channel === this.primaryChannel ? userDetail.secondsInChat : 0);
+        const totalWatchTime = Utils.getDurationString(1000 * totalSeconds) || "no time";
+        const session = this._streamStats.getCurrentSession(channel);
+        if (!session) {
+            this.chat(messageDetail.respondTo, `${userDetail.username} has watched for ${totalWatchTime} in total`);
+            return;
+        }
+        const sessionSeconds = session.statsByUsername[userDetail.username.toLowerCase()]?.seconds ?? 0;
+        this.chat(messageDetail.respondTo, `${userDetail.username} has watched for ${Utils.getDurationString(1000 * sessionSeconds) || "no time"} this stream (${totalWatchTime} in total)`);
+    }
+
+    protected async handleStreak(messageDetail: IPrivMessageDetail): Promise<void> {
+        const userDetail = await this.getStatsCommandUserDetail(messageDetail);
+        if (!userDetail) {
+            this.chat(messageDetail.respondTo, `I haven't seen that user in chat`);
+            return;
+        }
+        const channel = IrcBotBase.normalizeChannelName(messageDetail.recipient);
+        if (!this._streamStats.getLatestSession(channel)) {
+            this.chat(messageDetail.respondTo, `No streams have been recorded yet`);
+            return;
+        }
+        const streak = this._streamStats.getStreak(channel, userDetail.username);
+        this.chat(messageDetail.respondTo, `${userDetail.username} has attended ${streak} stream${streak === 1 ? `` : `s`} in a row`);
+    }
+
+    protected async handleTopChatters(messageDetail: IPrivMessageDetail): Promise<void> {
+        const channel = IrcBotBase.normalizeChannelName(messageDetail.recipient);
+        const session = this._streamStats.getLatestSession(channel);
+        if (!session) {
+            this.chat(messageDetail.respondTo, `No streams have been recorded yet`);
+            return;
+        }
+        const topChatters = StreamStats.getTopChatters(session, 5);
+        const streamDescription = session === this._streamStats.getCurrentSession(channel) ? `this stream` : `last stream`;
+        if (topChatters.length === 0) {
+            this.chat(messageDetail.respondTo, `Nobody chatted ${streamDescription}`);
+            return;
+        }
+        this.chat(messageDetail.respondTo, `Top chatters ${streamDescription}: ${topChatters.map(n => `${n.username} (${n.messages})`).join(", ")}`);
+    }
+
+    protected async handleCommandSchedule(messageDetail: IPrivMessageDetail): Promise<void> {
+        const commands = this._config.auxCommandGroups
+            .filter(group => this.getCommandGroupChannels(group).includes(messageDetail.recipient.toLowerCase()))
+            .flatMap(group => group.commands);
+        const upcoming = commands
+            .filter(n => this.getConfiguredCommandStatus(n) === CommandScheduleStatus.Upcoming)
+            .map(n => `${n.name} (starts ${n.startsAt})`);
+        const expired = commands
+            .filter(n => this.getConfiguredCommandStatus(n) === CommandScheduleStatus.Expired)
+            .map(n => `${n.name} (expired ${n.expiresAt})`);
+        this.chat(messageDetail.respondTo, `Upcoming: ${upcoming.length > 0 ? upcoming.join(" ") : `none`} | Expired: ${expired.length > 0 ? expired.join(" ") : `none`}`, true);
+    }
+
+    /**
+     * A bare "!help" is left alone, so that it can still be given a configured response
+     */
+    protected handleHelp(messageDetail: IPrivMessageDetail): void {
+        const commandName = messageDetail.message.trim().split(" ").slice(1).join(" ").trim();
+        if (!commandName) {
+            return;
+        }
+        const helpText = this._commandRegistry.getHelpText(commandName, messageDetail.recipient);
+        this.chat(messageDetail.respondTo, helpText ?? `Unknown command: ${commandName}`, true);
+    }
+
+    protected async handleCommandList(messageDetail: IPrivMessageDetail): Promise<void> {
+        const commandList = this._commandRegistry.getCommandListText(messageDetail.username, await this.getUserPermissions(messageDetail), messageDetail.recipient);
+        this.chat(messageDetail.respondTo, `Commands - ${commandList}`, true);
+    }
+
+    /**
+     * Moderators can repeat commands as often as they like
+     */
+    protected async shouldIgnoreTimeoutRestrictions(messageDetail: IPrivMessageDetail): Promise<boolean> {
+        return (await this.getUserPermissions(messageDetail)).level >= CommandPermission.Moderator;
+    }
+
+    protected addCommandTimeoutDelays(commandId: string, globalTimeoutSeconds: number, userTimeout?: { userTimeoutSeconds: number, username: string }): void {
+        if (userTimeout && userTimeout.userTimeoutSeconds > 0) {
             const userCantUseCommandForMillis = userTimeout.userTimeoutSeconds * 1000;
             const canUseCommandAgainAt = Date.now() + userCantUseCommandForMillis;
             const userTimeoutCompositeKey = `${commandId}_${userTimeout.username}`;
@@ -449,7 +1643,21 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
         return false;
     }
 
-    protected doesTriggerMatch(messageDetail: IPrivMessageDetail, triggerPhrase: string, strictMatch: boolean): boolean {
+    protected doesCommandTriggerMatch(messageDetail: IPrivMessageDetail, trigger: ICommandTrigger): boolean {
+        switch (trigger.matchMode) {
+            case "contains":
+                return trigger.caseSensitive
+                    ? messageDetail.message.includes(trigger.phrase)
+                    : messageDetail.message.toLowerCase().includes(trigger.phrase.toLowerCase());
+            case "regex":
+                return new RegExp(trigger.phrase, trigger.caseSensitive ? "" : "i").test(messageDetail.message);
+            case "prefix":
+            default:
+                return this.doesTriggerMatch(messageDetail, trigger.phrase, trigger.strictMatch, trigger.caseSensitive);
+        }
+    }
+
+    protected doesTriggerMatch(messageDetail: IPrivMessageDetail, triggerPhrase: string, strictMatch: boolean, caseSensitive: boolean = true): boolean {
         const messageTrim = messageDetail.message.trim();
         const triggerTrim = triggerPhrase.trim();
         if (!messageTrim || !triggerTrim) {
@@ -465,7 +1673,10 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
             return false;
         }
         for (let i = 0; i < triggerArr.length; i++) {
-            if (messageArr[i] !== triggerArr[i]) {
+            const wordsMatch = caseSensitive
+                ? messageArr[i] === triggerArr[i]
+                : messageArr[i].toLowerCase() === triggerArr[i].toLowerCase();
+            if (!wordsMatch) {
                 return false;
             }
         }
@@ -486,62 +1697,475 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
     }
 
     public async _startup(): Promise<void> {
-        this._socket.on("error", (err) => this.onError(err));
-        this._socket.on("data", (data) => this.onData(data));
-
-        const connectPromise = new Promise<void>((resolve) => {
-            this._socket.connect(this._config.connection.server.port, this._config.connection.server.host,
-                () => {
-                    console.log("Connected successfully");
-                    this.sendRaw(`PASS ${this._config.connection.user.pass}\r\n`);
-                    this.sendRaw(`NICK ${this._config.connection.user.nick}\r\n`);
-                    this.sendRaw(`JOIN ${this._config.connection.server.channel}\r\n`);
-                    resolve();
-                }); // TODO: connect using the SSL URL (IRC or websocket?) https://dev.twitch.tv/docs/irc#twitch-specific-irc-messages
+        this.openConnection();
+        await this._initialConnection;
+        for (const channel of this.channels) {
+            this._streamStats.updateSession(channel, await this.getLiveStream(channel)); // otherwise a live channel's timers wouldn't start until the first tracking interval
+            await this.updateTimerGroups(channel);
+        }
+
+        if (this._config.misc.watchConfigFiles ?? true) {
+            const watchedFileNames = [path.basename(this._commandsConfigPath), path.basename(this._miscConfigPath), IrcBotBase.connectionConfigFileName];
+            this._configFileWatcher = new ConfigFileWatcher(this._config.configDir, watchedFileNames, (fileName) => this.onConfigFileChanged(fileName));
+            this._configFileWatcher.start();
+        }
+    }
+
+    /**
+     * Stops the bot in an orderly way, saving everything that's only held in memory. Later calls return the same promise as the first.
+     */
+    public shutdown(reason: string = "requested"): Promise<void> {
+        this._shutdownCoordinator = this._shutdownCoordinator ?? new ShutdownCoordinator(this.getShutdownSteps());
+        return this._shutdownCoordinator.run(reason);
+    }
+
+    protected get isShuttingDown(): boolean {
+        return this._shutdownCoordinator?.isShuttingDown ?? false;
+    }
+
+    /**
+     * Subclasses add to the shutdown by overriding the individual steps, so that the order stays the same
+     */
+    protected getShutdownSteps(): IShutdownStep[] {
+        return [
+            { name: "Stop accepting commands", run: () => this.stopAcceptingCommands() },
+            { name: "Finish pending tasks", run: () => this.finishPendingTasks(), timeoutSeconds: 30 },
+            { name: "Save user details", run: () => this.flushUserDetails() },
+            { name: "Restore temporary settings", run: () => this.restoreTemporarySettings() },
+            { name: "Leave channels", run: () => this.leaveChannels() },
+            { name: "Close connections", run: () => this.closeConnections() },
+        ];
+    }
+
+    /**
+     * Registered commands are ignored from here on (see handleRegisteredCommands), & timers, intervals & file watchers are stopped
+     */
+    protected stopAcceptingCommands(): void {
+        this._configuredTimerGroups.forEach(timer => timer.stopTimer());
+        this._configFileWatcher?.stop();
+        clearInterval(this._userTrackingInterval);
+        clearInterval(this._userDetailBackupInterval);
+    }
+
+    /**
+     * Override to wait for work that was started before the shutdown (e.g. queued API requests)
+     */
+    protected async finishPendingTasks(): Promise<void> {
+        // Nothing is queued outside of chat
+    }
+
+    /**
+     * Saves what's already in memory before anything that needs the network, then adds the watch time since the last tracking interval, saves again & closes the user detail store
+     */
+    protected async flushUserDetails(): Promise<void> {
+        this.saveUserDetails();
+        try {
+            await this._pendingUserTracking;
+            await this.trackUsersInChat(Math.floor((Date.now() - this._lastUserTrackingMillis) / 1000), true);
+        } catch (err) {
+            userLog.error(`Error adding the watch time since the last tracking interval: ${err}`);
+        } finally {
+            this.saveUserDetails();
+            this.saveStreamStats();
+            this._userDetailStore.close();
+        }
+    }
+
+    /**
+     * Override to undo changes that were only meant to last a while (e.g. relaxed chat settings)
+     */
+    protected async restoreTemporarySettings(): Promise<void> {
+        // Nothing is changed temporarily outside of chat
+    }
+
+    /**
+     * Messages still waiting in the chat queue are dropped
+     */
+    protected leaveChannels(): void {
+        this._chatSendQueue.clear();
+        for (const channel of this.channels) {
+            this.sendRaw(`PART ${channel}`);
+        }
+    }
+
+    protected async closeConnections(): Promise<void> {
+        this._isDisconnecting = true;
+        clearTimeout(this._reconnectTimeout);
+        this._reconnectTimeout = undefined;
+        const socket = this._socket;
+        if (!socket || socket.destroyed) {
+            return;
+        }
+        const closed = new Promise<void>((resolve) => socket.once("close", () => resolve()));
+        socket.end();
+        await closed;
+    }
+
+    public static readonly connectionConfigFileName = "connection.json";
+
+    protected onConfigFileChanged(fileName: string): void {
+        configLog.info(`Config file changed: ${fileName}`);
+        if (fileName === path.basename(this._commandsConfigPath)) {
+            this.reloadCommandsConfig();
+        } else if (fileName === path.basename(this._miscConfigPath)) {
+            this.reloadMiscConfig();
+        } else if (fileName === IrcBotBase.connectionConfigFileName) {
+            configLog.warn(`Changes to ${fileName} take effect after a restart`);
+        }
+    }
+
+    /**
+     * Replaces the configured commands & their timers with the ones in commands.json. The current commands are kept if the file isn't valid.
+     * @returns a description of each problem with the file (empty if it was loaded)
+     */
+    protected reloadCommandsConfig(): string[] {
+        let commandGroups: unknown;
+        try {
+            commandGroups = JSON.parse(fs.readFileSync(this._commandsConfigPath, { encoding: "utf8" }));
+        } catch (err) {
+            configLog.error(`Kept the current commands, because commands.json couldn't be read: ${err.message}`);
+            return [err.message];
+        }
+
+        const errors = this.getCommandGroupsConfigErrors(commandGroups);
+        if (errors.length > 0) {
+            configLog.error(`Kept the current commands, because commands.json is invalid:\n${errors.map(n => `    ${n}`).join("\n")}`);
+            return errors;
+        }
+
+        this._config.auxCommandGroups = commandGroups as IIrcBotAuxCommandGroupConfig[];
+        this.loadConfiguredCommands();
+        configLog.info(`Reloaded commands from file: ${this._commandsConfigPath}`);
+        return [];
+    }
+
+    /**
+     * Settings that are only read at startup (e.g. chatRateLimits, chatHistory & trafficCapture) still need a restart to change
+     * @returns a description of each problem with the file (empty if it was loaded)
+     */
+    protected reloadMiscConfig(): string[] {
+        let miscConfig: unknown;
+        try {
+            miscConfig = JSON.parse(fs.readFileSync(this._miscConfigPath, { encoding: "utf8" }));
+        } catch (err) {
+            configLog.error(`Kept the current misc config, because miscConfig.json couldn't be read: ${err.message}`);
+            return [err.message];
+        }
+
+        const errors = this.getMiscConfigErrors(miscConfig);
+        if (errors.length > 0) {
+            configLog.error(`Kept the current misc config, because miscConfig.json is invalid:\n${errors.map(n => `    ${n}`).join("\n")}`);
+            return errors;
+        }
+
+        this._config.misc = miscConfig as IIrcBotMiscConfig;
+        Logger.configure(this._config.misc.logging, this._logsPath);
+        configLog.info(`Reloaded misc config from file: ${this._miscConfigPath}`);
+        return [];
+    }
+
+    /**
+     * @returns a description of each problem with the command groups (empty if they're valid)
+     */
+    protected getCommandGroupsConfigErrors(commandGroups: unknown): string[] {
+        if (!Array.isArray(commandGroups)) {
+            return ["Expected an array of command groups"];
+        }
+
+        const errors: string[] = [];
+        const isStringArray = (value: unknown): boolean => Array.isArray(value) && value.every(n => typeof n === "string");
+        commandGroups.forEach((group: IIrcBotAuxCommandGroupConfig, groupIndex) => {
+            const groupName = `Command group ${groupIndex + 1}`;
+            if (typeof group !== "object" || group === null || !Array.isArray(group.commands)) {
+                errors.push(`${groupName}: expected an object with a "commands" array`);
+                return;
+            }
+            if (group.timerMinutes !== undefined && group.timerMinutes !== null && !(typeof group.timerMinutes === "number" && group.timerMinutes > 0)) {
+                errors.push(`${groupName}: timerMinutes must be a positive number`);
+            }
+            if (group.timerMinChatMessages !== undefined && !(Number.isInteger(group.timerMinChatMessages) && group.timerMinChatMessages >= 0)) {
+                errors.push(`${groupName}: timerMinChatMessages must be a whole number of at least 0`);
+            }
+            if (group.channels !== undefined && !isStringArray(group.channels)) {
+                errors.push(`${groupName}: channels must be an array of strings`);
+            }
+
+            group.commands.forEach((command: IIrcBotAuxCommandConfig, commandIndex) => {
+                const commandName = `${groupName}, ${typeof command?.name === "string" ? command.name : `command ${commandIndex + 1}`}`;
+                if (typeof command !== "object" || command === null || typeof command.name !== "string" || !command.name) {
+                    errors.push(`${commandName}: expected an object with a "name"`);
+                    return;
+                }
+                if (!isStringArray(command.responses) || command.responses.length === 0) {
+                    errors.push(`${commandName}: responses must be a non-empty array of strings`);
+                }
+                for (const trigger of [...(command.aliases ?? []), ...(command.triggers ?? [])]) {
+                    if (typeof trigger !== "string" && typeof trigger?.phrase !== "string") {
+                        errors.push(`${commandName}: each alias & trigger must be a string or have a "phrase"`);
+                    } else if (typeof trigger !== "string" && trigger.match === "regex") {
+                        try {
+                            new RegExp(trigger.phrase);
+                        } catch (err) {
+                            errors.push(`${commandName}: ${err.message}`);
+                        }
+                    } else if (typeof trigger !== "string" && trigger.match !== undefined && trigger.match !== "prefix" && trigger.match !== "contains") {
+                        errors.push(`${commandName}: unknown match mode: ${trigger.match}`);
+                    }
+                }
+                if (command.permission !== undefined && CommandPermissions.parseLevel(`${command.permission}`) === undefined) {
+                    errors.push(`${commandName}: unknown permission: ${command.permission}`);
+                }
+                errors.push(...CommandSchedule.getConfigErrors(command).map(n => `${commandName}: ${n}`));
+            });
         });
+        return errors;
+    }
 
-        await connectPromise;
-        this._configuredTimerGroups.forEach(timer => timer.startTimer());
+    /**
+     * @returns a description of each problem with the misc config (empty if it's valid)
+     */
+    protected getMiscConfigErrors(miscConfig: unknown): string[] {
+        if (typeof miscConfig !== "object" || miscConfig === null || Array.isArray(miscConfig)) {
+            return ["Expected an object"];
+        }
+
+        const errors: string[] = [];
+        const config = miscConfig as IIrcBotMiscConfig;
+        if (config.maxChatMessageLength !== undefined && !(typeof config.maxChatMessageLength === "number" && config.maxChatMessageLength > 0)) {
+            errors.push("maxChatMessageLength must be a positive number");
+        }
+        if (config.timezone !== undefined) {
+            errors.push(...CommandSchedule.getConfigErrors({ timezone: config.timezone }));
+        }
+        if (config.userDetailStorage?.backend !== undefined && !["json", "sqlite"].includes(config.userDetailStorage.backend)) {
+            errors.push("userDetailStorage.backend must be \"json\" or \"sqlite\"");
+        }
+        const backupConfig = config.userDetailBackups;
+        if (backupConfig?.intervalHours !== undefined && !(typeof backupConfig.intervalHours === "number" && backupConfig.intervalHours > 0)) {
+            errors.push("userDetailBackups.intervalHours must be a positive number");
+        }
+        if (backupConfig?.retentionCount !== undefined && !(Number.isInteger(backupConfig.retentionCount) && backupConfig.retentionCount > 0)) {
+            errors.push("userDetailBackups.retentionCount must be a positive whole number");
+        }
+        if (config.logging !== undefined) {
+            errors.push(...Logger.getConfigErrors(config.logging));
+        }
+        return errors;
+    }
+
+    /**
+     * Commands that start a session on a freshly opened connection. These are replayed each time the bot reconnects.
+     */
+    protected getSessionCommands(): string[] {
+        return [
+            `PASS ${this._config.connection.user.pass}`,
+            `NICK ${this._config.connection.user.nick}`,
+            `JOIN ${this.channels.join(",")}`,
+        ];
+    }
+
+    /**
+     * Opens a new connection to the server and replaces the current one with it.
+     * If the connection can't be established or drops later on, another attempt is scheduled automatically.
+     */
+    protected openConnection(): void {
+        this._isConnected = false;
+        const socket = this.connectSocket(() => {
+            this._isConnected = socket === this._socket;
+            ircLog.info(`Connected successfully${socket instanceof tls.TLSSocket ? ` (TLS)` : ``}`);
+            for (const command of this.getSessionCommands()) {
+                this.sendRaw(command);
+            }
+            this._initialConnection.resolve();
+        });
+        this._lineDecoder = new IrcLineDecoder(this._config.encoding);
+        socket.setTimeout(IrcBotBase.keepaliveIntervalSeconds * 1000);
+        socket.on("error", (err) => this.onError(err));
+        socket.on("data", (data) => {
+            this._awaitingKeepalivePong = false;
+            this.onData(data);
+        });
+        socket.on("timeout", () => this.onIdle(socket));
+        socket.on("close", () => this.onClose(socket));
+        this._socket = socket;
+    }
+
+    /**
+     * Drops the current connection and immediately opens a new one
+     */
+    public reconnect(): void {
+        const oldSocket = this._socket;
+        if (this._reconnectTimeout) {
+            clearTimeout(this._reconnectTimeout);
+            this._reconnectTimeout = undefined;
+        }
+        this.onConnectionLost();
+        this.openConnection();
+        oldSocket?.destroy(); // the old socket is no longer current, so closing it won't schedule another reconnect
+    }
+
+    protected onIdle(socket: net.Socket): void {
+        if (socket !== this._socket) {
+            return;
+        }
+
+        if (this._awaitingKeepalivePong) {
+            socket.destroy(new Error(`No response from server after ${IrcBotBase.keepaliveIntervalSeconds * 2} seconds`));
+            return;
+        }
+        this._awaitingKeepalivePong = true;
+        this.sendRaw(`PING :${this._config.connection.server.host}`, false);
+    }
+
+    protected onClose(socket: net.Socket): void {
+        if (socket !== this._socket) {
+            return;
+        }
+        this.onConnectionLost();
+        if (this._isDisconnecting) {
+            return;
+        }
+
+        const delayMillis = this.getReconnectDelayMillis(this._reconnectAttempts);
+        this._reconnectAttempts++;
+        ircLog.warn(`IRC connection closed. Reconnecting in ${(delayMillis / 1000).toFixed(1)} seconds (attempt ${this._reconnectAttempts})...`);
+        this._reconnectTimeout = setTimeout(() => {
+            this._reconnectTimeout = undefined;
+            this.openConnection();
+        }, delayMillis);
+    }
+
+    /**
+     * Holds chat until the server welcomes the bot again, & forgets who was in chat, since nobody's departure is reported while the bot isn't connected.
+     * The JOINs that follow the next connection fill the chat back in.
+     */
+    protected onConnectionLost(): void {
+        this._isConnected = false;
+        this._chatSendQueue.pause();
+        for (const channel in this._usersInChatByChannel) {
+            delete this._usersInChatByChannel[channel];
+        }
+    }
+
+    /**
+     * Exponential backoff with jitter, so that a server-wide disconnect doesn't have every client retrying in lockstep
+     * @param attempt number of consecutive failed attempts so far
+     */
+    protected getReconnectDelayMillis(attempt: number): number {
+        const baseMillis = (this._config.misc.reconnectBaseDelaySeconds ?? 1) * 1000;
+        const maxMillis = (this._config.misc.reconnectMaxDelaySeconds ?? 300) * 1000;
+        const ceilingMillis = Math.min(maxMillis, baseMillis * Math.pow(2, attempt));
+        return ceilingMillis / 2 + Math.random() * ceilingMillis / 2;
+    }
+
+    /**
+     * @throws if a CA certificate is configured but can't be read or isn't a valid PEM certificate
+     */
+    protected loadTlsCa(): Buffer | undefined {
+        const server = this._config.connection.server;
+        const caPath = server.tls && server.tls !== true ? server.tls.caPath : undefined;
+        if (!caPath) {
+            return undefined;
+        }
+        const resolvedCaPath = path.resolve(this._config.configDir, caPath);
+        try {
+            const ca = fs.readFileSync(resolvedCaPath);
+            new X509Certificate(ca); // throws unless it holds a certificate
+            return ca;
+        } catch (err) {
+            throw new Error(`Unable to load the TLS CA certificate from ${resolvedCaPath}: ${err.message}`);
+        }
+    }
+
+    /**
+     * Opens a new socket to the configured server, over TLS if the connection config requests it
+     * @param onConnect called once the connection is ready for writing (after the TLS handshake & certificate check, if applicable)
+     */
+    protected connectSocket(onConnect: () => void): net.Socket {
+        const server = this._config.connection.server;
+        if (server.tls) {
+            const tlsConfig: IIrcBotTlsConfig = server.tls === true ? {} : server.tls;
+            const socket = tls.connect({
+                host: server.host,
+                port: server.port,
+                servername: tlsConfig.servername ?? server.host,
+                ca: this._tlsCa,
+                rejectUnauthorized: true,
+            }, onConnect);
+            socket.setNoDelay();
+            return socket;
+        }
+
+        const socket = new net.Socket();
+        socket.setNoDelay();
+        socket.connect(server.port, server.host, onConnect);
+        return socket;
     }
 
     protected onError(err: Error): void {
-        console.log(`CAUGHT SOCKET ERROR`);
-        console.log(err.stack);
+        ircLog.error("Socket error:", err);
     }
 
     protected onData(data: Buffer): void {
-        console.log("Received IRC Data");
-        const dataStr = data.toString(this._config.encoding);
-        const dataStrMessages = dataStr.trimEnd().split("\r\n").map(x => `${x}\r\n`);
-        console.log(`  ${ConsoleColors.FgGreen}- ${dataStrMessages.join(`  - `).trimEnd()}${ConsoleColors.Reset}`);
-
-        for (const message of dataStrMessages) {
-            const privMessageDetail = this.parsePrivMessage(message);
-            if (privMessageDetail) {
-                this.handlePrivMessageResponse(privMessageDetail);
-                continue;
-            }
+        const dataStrMessages = this._lineDecoder.push(data);
+        if (dataStrMessages.length === 0) {
+            return;
+        }
+        ircLog.debug(`Received IRC data:\n  - ${dataStrMessages.join(`\n  - `)}`);
 
-            const pingMessageDetail = this.parsePingMessage(message);
-            if (pingMessageDetail) {
-                this.handlePing(pingMessageDetail);
+        for (const line of dataStrMessages) {
+            this.recordTraffic("irc", line);
+            const message = IrcMessageParser.parse(line);
+            if (!message) {
+                ircLog.warn(`Unable to parse IRC message: ${line}`);
                 continue;
             }
 
-            const joinMessageDetail = this.parseJoinMessage(message);
-            if (joinMessageDetail) {
-                this.handleJoinMessage(joinMessageDetail);
-                continue;
+            const messageDetail = this.getMessageDetail(message);
+            if (messageDetail) {
+                this.handleMessageDetail(messageDetail);
             }
+        }
+    }
 
-            const partMessageDetail = this.parsePartMessage(message);
-            if (partMessageDetail) {
-                this.handlePartMessage(partMessageDetail);
-                continue;
-            }
+    /**
+     * @returns undefined if the message isn't one the bot handles, or is missing parts that its command requires
+     */
+    protected getMessageDetail(message: IIrcMessage): IrcMessageDetail | undefined {
+        switch (message.command) {
+            case "PRIVMSG": return this.getPrivMessageDetail(message);
+            case "PING": return this.getPingMessageDetail(message);
+            case "001": return this.getWelcomeMessageDetail(message);
+            case "RECONNECT": return { ...message, command: "RECONNECT" };
+            case "JOIN": return this.getJoinMessageDetail(message);
+            case "PART": return this.getPartMessageDetail(message);
+            case "USERSTATE": return message.params.length === 0 ? undefined : { ...message, command: "USERSTATE", channel: message.params[0] };
+            case "NOTICE": return this.getNoticeMessageDetail(message);
+            case "USERNOTICE": return this.getUserNoticeMessageDetail(message);
+            case "CLEARCHAT": return this.getClearChatMessageDetail(message);
+            case "CLEARMSG": return this.getClearMessageMessageDetail(message);
+            case "ROOMSTATE": return message.params.length === 0 ? undefined : { ...message, command: "ROOMSTATE", channel: message.params[0] };
+            case "WHISPER": return this.getWhisperMessageDetail(message);
+            default: return undefined;
         }
+    }
 
-        console.log("");
+    protected handleMessageDetail(messageDetail: IrcMessageDetail): void {
+        switch (messageDetail.command) {
+            case "PRIVMSG": this.handlePrivMessageResponse(messageDetail); return;
+            case "PING": this.handlePing(messageDetail); return;
+            case "001": this.handleWelcome(messageDetail); return;
+            case "RECONNECT": this.handleReconnect(messageDetail); return;
+            case "JOIN": this.handleJoinMessage(messageDetail); return;
+            case "PART": this.handlePartMessage(messageDetail); return;
+            case "USERSTATE": this.handleUserState(messageDetail); return;
+            case "NOTICE": this.handleNotice(messageDetail); return;
+            case "USERNOTICE": this.handleUserNotice(messageDetail); return;
+            case "CLEARCHAT": this.handleClearChat(messageDetail); return;
+            case "CLEARMSG": this.handleClearMessage(messageDetail); return;
+            case "ROOMSTATE": this.handleRoomState(messageDetail); return;
+            case "WHISPER": this.handleWhisper(messageDetail); return;
+        }
     }
 
     protected async getUserIdForUsername(username: string): Promise<string | undefined> {
@@ -563,21 +2187,23 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
     }
 
     protected async handleJoinMessage(messageDetail: IJoinMessageDetail): Promise<void> {
-        console.log(  `${ConsoleColors.FgRed}${messageDetail.username} joined ${messageDetail.channel}${ConsoleColors.Reset}`);
+        ircLog.debug(`${messageDetail.username} joined ${messageDetail.channel}`);
         try {
-            this._usersInChat[messageDetail.username] = UserChatStatus.Connected;
+            const channel = IrcBotBase.normalizeChannelName(messageDetail.channel);
+            this._usersInChatByChannel[channel] = this._usersInChatByChannel[channel] ?? {};
+            this._usersInChatByChannel[channel][messageDetail.username] = UserChatStatus.Connected;
         } catch (err) {
-            console.log(`error adding user to chat: ${err}`);
+            ircLog.error(`Error adding user to chat: ${err}`);
         }
     }
 
     /** Part messages are sent when a user departs a chatroom */
     protected async handlePartMessage(messageDetail: IPartMessageDetail): Promise<void> {
-        console.log(  `${ConsoleColors.FgRed}${messageDetail.username} departed ${messageDetail.channel}${ConsoleColors.Reset}`);
+        ircLog.debug(`${messageDetail.username} departed ${messageDetail.channel}`);
         try {
-            delete this._usersInChat[messageDetail.username];
+            delete this._usersInChatByChannel[IrcBotBase.normalizeChannelName(messageDetail.channel)]?.[messageDetail.username];
         } catch (err) {
-            console.log(`error removing user from chat: ${err}`);
+            ircLog.error(`Error removing user from chat: ${err}`);
         }
     }
 
@@ -590,143 +2216,290 @@ export abstract class IrcBotBase<TUserDetail extends UserDetail> {
             
             userDetail.numChatMessages++;
             userDetail.lastChatted = new Date();
+            this._streamStats.recordChatMessage(IrcBotBase.normalizeChannelName(messageDetail.recipient), messageDetail.username);
         } catch (err) {
-            console.log(`Error updating chat message count for user: ${messageDetail.username}`);
-            console.log(err);
+            userLog.error(`Error updating chat message count for user: ${messageDetail.username}`, err);
         }
     }
 
-    protected handlePrivMessageResponse(messageDetail: IPrivMessageDetail): void {
-        const handlers = this._configuredPrivMessageResponseHandlers.concat(this._hardcodedPrivMessageResponseHandlers);
+    protected recordChatHistory(messageDetail: IPrivMessageDetail): void {
+        try {
+            this._chatHistoryLog?.append(this.getChatHistoryEntry(messageDetail));
+        } catch (err) {
+            chatLog.error(`Error writing chat history: ${err}`);
+        }
+    }
 
-        for (const handler of handlers) {
-            handler(messageDetail).catch((err) => {
-                console.log("Error processing privMessage response: ");
-                console.log(err);
-                console.error("Error processing privMessage response: "); // TODO: actually use this output stream
-                console.error(err);
-            });
+    protected recordTraffic(source: TrafficCaptureSource, data: string): void {
+        try {
+            this._trafficCapture?.record(source, data);
+        } catch (err) {
+            captureLog.error(`Error writing traffic capture: ${err}`);
         }
     }
 
+    /**
+     * Override to record platform-specific details such as user & message ids
+     */
+    protected getChatHistoryEntry(messageDetail: IPrivMessageDetail): IChatHistoryEntry {
+        return {
+            timestamp: new Date().toISOString(),
+            channel: messageDetail.recipient,
+            username: messageDetail.username,
+            message: messageDetail.message,
+            tags: {},
+        };
+    }
+
+    /**
+     * @returns once every handler is done with the message (errors are logged, so this never rejects)
+     */
+    protected async handlePrivMessageResponse(messageDetail: IPrivMessageDetail): Promise<void> {
+        await Promise.all(this._hardcodedPrivMessageResponseHandlers.map(handler => handler(messageDetail).catch((err) => {
+            commandLog.error("Error processing privMessage response:", err);
+        })));
+    }
+
     protected handlePing(messageDetail: IPingMessageDetail): void {
         this.sendRaw(`PONG :${messageDetail.hostname}\r\n`);
     }
 
+    /** The server accepted our login, so the connection is healthy again. Running timers start their schedules over, rather than posting the moment chat is back. */
+    protected handleWelcome(_messageDetail: IWelcomeMessageDetail): void {
+        this._reconnectAttempts = 0;
+        this._configuredTimerGroups.forEach(n => n.resetTimer());
+        this._chatSendQueue.resume();
+    }
+
+    protected handleReconnect(_messageDetail: IReconnectMessageDetail): void {
+        ircLog.warn("Server requested a reconnect");
+        this.reconnect();
+    }
+
+    /**
+     * Override to track whether the bot has elevated status in a channel (see ChatSendQueue.setElevated)
+     */
+    protected handleUserState(_messageDetail: IUserStateMessageDetail): void {
+        // Plain IRC has no notion of elevated chat status
+    }
+
+    protected handleNotice(messageDetail: INoticeMessageDetail): void {
+        ircLog.info(`Notice for ${messageDetail.target}: ${messageDetail.message}`);
+    }
+
+    /**
+     * Override to react to subs, raids, announcements, etc.
+     */
+    protected handleUserNotice(_messageDetail: IUserNoticeMessageDetail): void {
+        // Plain IRC servers don't send this
+    }
+
+    /**
+     * Override to react to bans, timeouts & chat clears
+     */
+    protected handleClearChat(_messageDetail: IClearChatMessageDetail): void {
+        // Plain IRC servers don't send this
+    }
+
+    /**
+     * Override to react to deleted messages
+     */
+    protected handleClearMessage(_messageDetail: IClearMessageMessageDetail): void {
+        // Plain IRC servers don't send this
+    }
+
+    /**
+     * Override to track chat settings such as slow mode or follower-only mode
+     */
+    protected handleRoomState(_messageDetail: IRoomStateMessageDetail): void {
+        // Plain IRC servers don't send this
+    }
+
+    protected handleWhisper(messageDetail: IWhisperMessageDetail): void {
+        ircLog.info(`Whisper from ${messageDetail.username}: ${messageDetail.message}`);
+    }
+
+    /**
+     * Nothing is written unless the connection is open & has been logged in to (anything sent earlier would reach the server before PASS & NICK)
+     */
     public sendRaw(data: string, enableLogging: boolean = true): void {
+        if (!this._isConnected || this._socket.destroyed) {
+            ircLog.warn(`Not connected, so ${data.split(" ")[0].trim()} wasn't sent`);
+            return;
+        }
         if (!data.endsWith("\r\n")) {
             data += "\r\n";
         }
         this._socket.write(data);
+        const logMessage = `Sent IRC data:\n  ${data.split("\r\n").join("\n  ").trimEnd()}`;
         if (enableLogging) {
-            console.log("Sent IRC Data");
-        }
-        const printStr = data.split("\r\n").join("\r\n  ").trimEnd();
-        if (enableLogging) {
-            console.log(`  ${ConsoleColors.FgCyan}${printStr}${ConsoleColors.Reset}\n`);
+            ircLog.debug(logMessage);
+        } else {
+            ircLog.trace(logMessage);
         }
     }
 
-    protected parsePingMessage(message: string): IPingMessageDetail | undefined {
-        const pingPattern = /^PING :(.+)\r?\n?$/;
-        const pingRegexArray = pingPattern.exec(message);
-        if (pingRegexArray === undefined || pingRegexArray === null) {
+    protected getPingMessageDetail(message: IIrcMessage): IPingMessageDetail | undefined {
+        if (message.params.length === 0) {
             return undefined;
         }
-
-        const pingMessageDetail: IPingMessageDetail = {
+        return {
+            ...message,
             command: "PING",
-            hostname: pingRegexArray[1],
+            hostname: message.params[message.params.length - 1],
+        };
+    }
+
+    protected getWelcomeMessageDetail(message: IIrcMessage): IWelcomeMessageDetail | undefined {
+        return {
+            ...message,
+            command: "001",
+            hostname: message.prefix?.host ?? message.prefix?.raw ?? "",
         };
-        return pingMessageDetail
     }
 
-    protected parsePartMessage(message: string): IPartMessageDetail | undefined {
-        const partPattern = /^:(\w+)!(\w+@[\w.]+) PART ([#\w]+)\r?\n?$/;
-        const regexArray = partPattern.exec(message);
-        if (!regexArray) {
+    protected getPartMessageDetail(message: IIrcMessage): IPartMessageDetail | undefined {
+        if (!message.prefix?.nick || message.params.length === 0) {
             return undefined;
         }
-        const messageDetail: IPartMessageDetail = {
+        return {
+            ...message,
             command: "PART",
-            username: regexArray[1],
-            hostname: regexArray[2],
-            channel: regexArray[3],
+            username: message.prefix.nick,
+            hostname: `${message.prefix.user ?? ""}@${message.prefix.host ?? ""}`,
+            channel: message.params[0],
         };
-        return messageDetail;
     }
 
-    protected parseJoinMessage(message: string): IJoinMessageDetail | undefined {
-        const joinPattern = /^:(\w+)!(\w+@[\w.]+) JOIN ([#\w]+)\r?\n?$/;
-        const regexArray = joinPattern.exec(message);
-        if (!regexArray) {
+    protected getJoinMessageDetail(message: IIrcMessage): IJoinMessageDetail | undefined {
+        if (!message.prefix?.nick || message.params.length === 0) {
             return undefined;
         }
-        const messageDetail: IJoinMessageDetail = {
+        return {
+            ...message,
             command: "JOIN",
-            username: regexArray[1],
-            hostname: regexArray[2],
-            channel: regexArray[3],
+            username: message.prefix.nick,
+            hostname: `${message.prefix.user ?? ""}@${message.prefix.host ?? ""}`,
+            channel: message.params[0],
+        };
+    }
+
+    protected getNoticeMessageDetail(message: IIrcMessage): INoticeMessageDetail | undefined {
+        if (message.params.length < 2) {
+            return undefined;
+        }
+        return {
+            ...message,
+            command: "NOTICE",
+            target: message.params[0],
+            message: message.params[message.params.length - 1],
         };
-        return messageDetail;
     }
 
-    protected parsePrivMessage(message: string): IPrivMessageDetail | undefined {
-        if (this._privMessageDetailCache[message] !== undefined) {
-            return this._privMessageDetailCache[message];
+    protected getUserNoticeMessageDetail(message: IIrcMessage): IUserNoticeMessageDetail | undefined {
+        if (message.params.length === 0) {
+            return undefined;
         }
+        return {
+            ...message,
+            command: "USERNOTICE",
+            channel: message.params[0],
+            message: message.params.length > 1 ? message.params[message.params.length - 1] : undefined,
+        };
+    }
 
-        const pattern = /^(@?.* *):(\w+)!(\w+@[\w.]+) PRIVMSG ([#\w]+) :(.+)\r?\n?$/;
-        const regexArray = pattern.exec(message);
-        if (!regexArray) {
+    protected getClearChatMessageDetail(message: IIrcMessage): IClearChatMessageDetail | undefined {
+        if (message.params.length === 0) {
             return undefined;
         }
+        return {
+            ...message,
+            command: "CLEARCHAT",
+            channel: message.params[0],
+            username: message.params.length > 1 ? message.params[1] : undefined,
+        };
+    }
 
-        const username = regexArray[2];
-        const recipient = regexArray[4];
+    protected getClearMessageMessageDetail(message: IIrcMessage): IClearMessageMessageDetail | undefined {
+        if (message.params.length < 2) {
+            return undefined;
+        }
+        return {
+            ...message,
+            command: "CLEARMSG",
+            channel: message.params[0],
+            message: message.params[message.params.length - 1],
+        };
+    }
+
+    protected getWhisperMessageDetail(message: IIrcMessage): IWhisperMessageDetail | undefined {
+        if (!message.prefix?.nick || message.params.length < 2) {
+            return undefined;
+        }
+        return {
+            ...message,
+            command: "WHISPER",
+            username: message.prefix.nick,
+            hostname: `${message.prefix.user ?? ""}@${message.prefix.host ?? ""}`,
+            recipient: message.params[0],
+            message: message.params[message.params.length - 1],
+        };
+    }
+
+    protected getPrivMessageDetail(message: IIrcMessage): IPrivMessageDetail | undefined {
+        if (this._privMessageDetailCache[message.raw] !== undefined) {
+            return this._privMessageDetailCache[message.raw];
+        }
+
+        if (!message.prefix?.nick || message.params.length < 2) {
+            return undefined;
+        }
+
+        const username = message.prefix.nick;
+        const recipient = message.params[0];
         const respondTo = recipient.startsWith("#") ? recipient : username;
 
         const messageDetails: IPrivMessageDetail = {
-            command: "PRIVMESSAGE",
-            tags: regexArray[1],
+            ...message,
+            command: "PRIVMSG",
             username,
-            hostname: regexArray[3],
+            hostname: `${message.prefix.user ?? ""}@${message.prefix.host ?? ""}`,
             recipient,
-            message: regexArray[5],
+            message: message.params[message.params.length - 1],
             respondTo,
         };
 
-        if (messageDetails === undefined || messageDetails === null) {
-            console.log("Message was not parsable!");
-        } else {
-            this._privMessageDetailCache[message] = messageDetails;
-            setTimeout(() => {
-                delete this._privMessageDetailCache[message];
-            }, 2000)
-        }
+        this._privMessageDetailCache[message.raw] = messageDetails;
+        setTimeout(() => {
+            delete this._privMessageDetailCache[message.raw];
+        }, 2000)
 
         return messageDetails
     }
 
-    public chat(recipient: string, message: string, ignoreCharacterLimit: boolean = false): void {
+    /**
+     * Queues a chat message to be sent as soon as the rate limit allows
+     * @param priority messages with a higher priority are sent before any waiting messages with a lower one
+     */
+    public chat(recipient: string, message: string, ignoreCharacterLimit: boolean = false, priority: ChatPriority = ChatPriority.Normal): void {
         // TODO: Wait on join here?
 
         let actualMessage = message;
         if (actualMessage.length > this.maxChatMessageLength) {
             if (ignoreCharacterLimit) {
-                while (actualMessage.length > this.maxChatMessageLength) {
-                    const head = actualMessage.substring(0, this.maxChatMessageLength);
-                    this.chat(recipient, head);
-                    actualMessage = actualMessage.substring(this.maxChatMessageLength);
-                }
-                this.chat(recipient, actualMessage);
+                const parts = ChatMessageSplitter.split(actualMessage, {
+                    maxLength: this.maxChatMessageLength,
+                    continuationMarkers: this._config.misc.chatContinuationMarkers ?? true,
+                });
+                const partGapMillis = (this._config.misc.chatSplitPartGapSeconds ?? 1) * 1000;
+                parts.forEach((part, i) => this._chatSendQueue.enqueue(recipient, part, priority, i === 0 ? 0 : partGapMillis));
                 return;
             }
 
             actualMessage = "<Message was too long. Please file a bug report with the owner :)>";
-            console.log(`Message too long: ${message}`);
+            chatLog.warn(`Message too long: ${message}`);
         }
 
-        this.sendRaw(`PRIVMSG ${recipient} :${actualMessage}\r\n`);
+        this._chatSendQueue.enqueue(recipient, actualMessage, priority);
     }
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { StringDecoder } from "string_decoder";
+import { Logger } from "./Logger";
+
+const log = Logger.get("irc");
+
+/**
+ * Reassembles complete IRC lines from a stream of socket chunks.
+ * A chunk may end partway through a line (or partway through a multi-byte character), so anything after the last line terminator is held until the next chunk arrives.
+ */
+export class IrcLineDecoder {
+    /** IRCv3 allows 8191 bytes of tags plus 512 bytes for the rest of the message, so anything much longer than that is garbage */
+    public static readonly defaultMaxLineLength = 16384;
+
+    protected readonly _decoder: StringDecoder;
+    protected _partialLine = "";
+    /** Set after an oversized partial line was dropped, until the terminator that ends it has been seen */
+    protected _isDiscardingLine = false;
+
+    public constructor(encoding: BufferEncoding, protected readonly _maxLineLength: number = IrcLineDecoder.defaultMaxLineLength) {
+        this._decoder = new StringDecoder(encoding);
+    }
+
+    /**
+     * @returns the lines completed by this chunk (without line terminators) in the order they were received
+     */
+    public push(chunk: Buffer): string[] {
+        const text = this._partialLine + this._decoder.write(chunk);
+        const segments = text.split(/\r?\n/);
+        this._partialLine = segments.pop() ?? "";
+
+        if (this._isDiscardingLine && segments.length > 0) {
+            segments.shift(); // the tail end of a line that was already dropped
+            this._isDiscardingLine = false;
+        }
+
+        const lines: string[] = [];
+        for (const segment of segments) {
+            if (segment.length > this._maxLineLength) {
+                log.warn(`Dropped an IRC line that exceeded the maximum length (${segment.length} > ${this._maxLineLength} characters)`);
+                continue;
+            }
+            if (segment.length > 0) {
+                lines.push(segment);
+            }
+        }
+
+        if (this._partialLine.length > this._maxLineLength) {
+            log.warn(`Dropped a partial IRC line that exceeded the maximum length (${this._partialLine.length} > ${this._maxLineLength} characters)`);
+            this._partialLine = "";
+            this._isDiscardingLine = true;
+        }
+
+        return lines;
+    }
+}
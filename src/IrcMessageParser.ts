@@ -0,0 +1,161 @@
+/** Tag values have already been unescaped. Tags sent without a value map to an empty string. */
+export type IrcTags = { [key: string]: string };
+
+export interface IIrcPrefix {
+    /** The prefix exactly as it was sent (without the leading ':') */
+    raw: string;
+    nick?: string;
+    user?: string;
+    /** For messages that originate from the server itself, this holds the server name */
+    host?: string;
+}
+
+/**
+ * A single IRC line, split according to https://ircv3.net/specs/extensions/message-tags & RFC 1459
+ */
+export interface IIrcMessage {
+    /** The line exactly as it was received (without its line terminator) */
+    raw: string;
+    tags: IrcTags;
+    prefix?: IIrcPrefix;
+    /** Always uppercase (e.g. "PRIVMSG", "001") */
+    command: string;
+    /** Every parameter, including the trailing one */
+    params: string[];
+    /** The final parameter, if it was sent in trailing form (i.e. after a ':', where it may contain spaces) */
+    trailing?: string;
+}
+
+export class IrcMessageParser {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() {
+    }
+
+    /**
+     * @returns undefined if the line has no command
+     */
+    public static parse(line: string): IIrcMessage | undefined {
+        const raw = line.replace(/\r?\n$/, "").replace(/\r$/, "");
+        let rest = raw;
+
+        let tags: IrcTags = {};
+        if (rest.startsWith("@")) {
+            const tagsEnd = rest.indexOf(" ");
+            if (tagsEnd === -1) {
+                return undefined;
+            }
+            tags = IrcMessageParser.parseTags(rest.slice(1, tagsEnd));
+            rest = rest.slice(tagsEnd + 1).trimStart();
+        }
+
+        let prefix: IIrcPrefix | undefined = undefined;
+        if (rest.startsWith(":")) {
+            const prefixEnd = rest.indexOf(" ");
+            if (prefixEnd === -1) {
+                return undefined;
+            }
+            prefix = IrcMessageParser.parsePrefix(rest.slice(1, prefixEnd));
+            rest = rest.slice(prefixEnd + 1).trimStart();
+        }
+
+        const commandEnd = rest.indexOf(" ");
+        const command = (commandEnd === -1 ? rest : rest.slice(0, commandEnd)).toUpperCase();
+        if (!command) {
+            return undefined;
+        }
+        rest = commandEnd === -1 ? "" : rest.slice(commandEnd + 1);
+
+        const params: string[] = [];
+        let trailing: string | undefined = undefined;
+        while (rest.length > 0) {
+            if (rest.startsWith(" ")) {
+                rest = rest.slice(1);
+                continue;
+            }
+            if (rest.startsWith(":")) {
+                trailing = rest.slice(1);
+                params.push(trailing);
+                break;
+            }
+            const paramEnd = rest.indexOf(" ");
+            if (paramEnd === -1) {
+                params.push(rest);
+                break;
+            }
+            params.push(rest.slice(0, paramEnd));
+            rest = rest.slice(paramEnd + 1);
+        }
+
+        return { raw, tags, prefix, command, params, trailing };
+    }
+
+    /**
+     * @param tags the tag section of a message, without the leading '@'
+     */
+    public static parseTags(tags: string): IrcTags {
+        const parsedTags: IrcTags = {};
+        for (const tag of tags.split(";")) {
+            if (!tag) {
+                continue;
+            }
+            const separatorIndex = tag.indexOf("=");
+            if (separatorIndex === -1) {
+                parsedTags[tag] = "";
+                continue;
+            }
+            const key = tag.slice(0, separatorIndex);
+            const value = tag.slice(separatorIndex + 1); // values may contain '=' themselves
+            parsedTags[key] = IrcMessageParser.unescapeTagValue(value);
+        }
+        return parsedTags;
+    }
+
+    /**
+     * Reverses the escaping described in https://ircv3.net/specs/extensions/message-tags#escaping-values
+     */
+    public static unescapeTagValue(value: string): string {
+        let unescaped = "";
+        for (let i = 0; i < value.length; i++) {
+            const char = value[i];
+            if (char !== "\\") {
+                unescaped += char;
+                continue;
+            }
+
+            i++;
+            if (i >= value.length) {
+                break; // a trailing lone backslash is dropped
+            }
+            const escapedChar = value[i];
+            switch (escapedChar) {
+                case ":": unescaped += ";"; break;
+                case "s": unescaped += " "; break;
+                case "r": unescaped += "\r"; break;
+                case "n": unescaped += "\n"; break;
+                default: unescaped += escapedChar; break; // includes an escaped backslash
+            }
+        }
+        return unescaped;
+    }
+
+    /**
+     * Splits a prefix of the form nick!user@host. A bare prefix is treated as a server name if it contains a '.', otherwise as a nick.
+     */
+    public static parsePrefix(prefix: string): IIrcPrefix {
+        const userIndex = prefix.indexOf("!");
+        const hostIndex = prefix.indexOf("@", userIndex === -1 ? 0 : userIndex);
+        if (userIndex === -1 && hostIndex === -1) {
+            return prefix.includes(".")
+                ? { raw: prefix, host: prefix }
+                : { raw: prefix, nick: prefix };
+        }
+
+        const nickEnd = userIndex !== -1 ? userIndex : hostIndex;
+        const nick = prefix.slice(0, nickEnd);
+        const user = userIndex === -1
+            ? undefined
+            : prefix.slice(userIndex + 1, hostIndex === -1 ? undefined : hostIndex);
+        const host = hostIndex === -1 ? undefined : prefix.slice(hostIndex + 1);
+        return { raw: prefix, nick, user, host };
+    }
+}
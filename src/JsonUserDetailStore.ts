@@ -0,0 +1,63 @@
+import * as fs from "fs";
+import { IUserDetail, IUserDetailCollection, UserDetail } from "./IrcBot";
+import { IUserDetailStore } from "./UserDetailStore";
+
+/**
+ * Keeps every user detail in a single JSON file, which is rewritten in full whenever any of them change
+ */
+export class JsonUserDetailStore implements IUserDetailStore {
+    public static readonly encoding = "utf8";
+
+    protected _userDetailByUserId: IUserDetailCollection<IUserDetail> = {};
+    protected readonly _userIdByUsername: { [username: string]: string } = {};
+
+    /**
+     * @param _filePath the file is replaced by a rename on each write, so this should already have any symlinks resolved
+     */
+    public constructor(protected readonly _filePath: string) {
+    }
+
+    public get description(): string {
+        return this._filePath;
+    }
+
+    public loadAll(): IUserDetailCollection<IUserDetail> {
+        if (fs.existsSync(this._filePath)) {
+            this._userDetailByUserId = JSON.parse(fs.readFileSync(this._filePath, { encoding: JsonUserDetailStore.encoding }));
+        }
+        for (const userId in this._userDetailByUserId) {
+            this._userIdByUsername[this._userDetailByUserId[userId].username.toLowerCase()] = userId;
+        }
+        return this._userDetailByUserId;
+    }
+
+    public upsert(userDetailsByUserId: IUserDetailCollection<UserDetail>): void {
+        for (const userId in userDetailsByUserId) {
+            this._userDetailByUserId[userId] = userDetailsByUserId[userId];
+            this._userIdByUsername[userDetailsByUserId[userId].username.toLowerCase()] = userId;
+        }
+        this.writeFile();
+    }
+
+    public replaceAll(userDetailsByUserId: IUserDetailCollection<UserDetail>): void {
+        this._userDetailByUserId = {};
+        for (const username in this._userIdByUsername) {
+            delete this._userIdByUsername[username];
+        }
+        this.upsert(userDetailsByUserId);
+    }
+
+    protected writeFile(): void {
+        const tempFilePath = `${this._filePath}_temp`;
+        fs.writeFileSync(tempFilePath, JSON.stringify(this._userDetailByUserId));
+        fs.renameSync(tempFilePath, this._filePath);
+    }
+
+    public findUserIdByUsername(username: string): string | undefined {
+        return this._userIdByUsername[username.toLowerCase()];
+    }
+
+    public close(): void {
+        // Every upsert is written immediately
+    }
+}
@@ -0,0 +1,210 @@
+import * as util from "util";
+import { ConsoleColors } from "./ConsoleColors";
+import { RotatingLogFile } from "./RotatingLogFile";
+
+export enum LogLevel {
+    Trace = 0,
+    Debug = 1,
+    Info = 2,
+    Warn = 3,
+    Error = 4,
+    Off = 5,
+}
+
+export type LogLevelName = "trace" | "debug" | "info" | "warn" | "error" | "off";
+
+/**
+ * The categories used throughout the bot. Any other name works too.
+ */
+export type LogCategory = "irc" | "eventsub" | "helix" | "sheets" | "commands" | "chat" | "users" | "auth" | "config" | "shutdown" | string;
+
+export interface ILoggingConfig {
+    /** Defaults to "info" */
+    level?: LogLevelName;
+    /** Overrides the level for particular categories, e.g. { "irc": "debug", "eventsub": "warn" } */
+    categories?: { [category in LogCategory]: LogLevelName };
+    /** Defaults to true */
+    colors?: boolean;
+    file?: {
+        /** Defaults to false */
+        enabled?: boolean;
+        /** Defaults to the console's level */
+        level?: LogLevelName;
+        /** Defaults to 10 MB */
+        maxFileBytes?: number;
+        /** Defaults to 30 days; 0 keeps logs forever */
+        retentionDays?: number;
+    };
+}
+
+/**
+ * Writes leveled log messages for a category to the console &, optionally, to rotating JSONL files. Secrets (tokens, PASS lines) are redacted from everything written.
+ */
+export class Logger {
+    public static readonly defaultLevel = LogLevel.Info;
+    public static readonly defaultMaxFileBytes = 10 * 1024 * 1024;
+    public static readonly defaultRetentionDays = 30;
+
+    protected static readonly levelsByName: { [name in LogLevelName]: LogLevel } = {
+        trace: LogLevel.Trace,
+        debug: LogLevel.Debug,
+        info: LogLevel.Info,
+        warn: LogLevel.Warn,
+        error: LogLevel.Error,
+        off: LogLevel.Off,
+    };
+    protected static readonly levelColors: { [level: number]: ConsoleColors } = {
+        [LogLevel.Trace]: ConsoleColors.Dim,
+        [LogLevel.Debug]: ConsoleColors.Dim,
+        [LogLevel.Warn]: ConsoleColors.FgYellow,
+        [LogLevel.Error]: ConsoleColors.FgRed,
+    };
+    protected static readonly redactions: { pattern: RegExp, replacement: string }[] = [
+        { pattern: /\bPASS\s+\S+/g, replacement: "PASS ***" },
+        { pattern: /\boauth:[A-Za-z0-9]+/g, replacement: "oauth:***" },
+        { pattern: /\b(Bearer\s+)[A-Za-z0-9._~+/-]+=*/gi, replacement: "$1***" },
+        { pattern: /(["']?\b(?:access_token|refresh_token|id_token|client_secret|password|pass)["']?\s*[:=]\s*["']?)[^"',&\s}]+/gi, replacement: "$1***" },
+        { pattern: /([?&]code=)[^&\s]+/g, replacement: "$1***" }, // authorization codes in OAuth redirects
+    ];
+    protected static readonly ansiEscapePattern = /\x1b\[[0-9;]*m/g; // eslint-disable-line no-control-regex
+
+    protected static _config: ILoggingConfig = {};
+    protected static _logFile?: RotatingLogFile;
+    protected static _logFileDirectory?: string;
+    /** Logging about the log file itself would otherwise write to the log file in the middle of writing to it */
+    protected static _isWritingToFile = false;
+    protected static readonly _loggersByCategory: { [category: string]: Logger } = {};
+
+    protected constructor(public readonly category: LogCategory) {
+    }
+
+    public static get(category: LogCategory): Logger {
+        Logger._loggersByCategory[category] = Logger._loggersByCategory[category] ?? new Logger(category);
+        return Logger._loggersByCategory[category];
+    }
+
+    /**
+     * May be called again (e.g. when the config is reloaded). Loggers that were already created pick up the new config.
+     * @param logFileDirectory where log files are written, if enabled
+     */
+    public static configure(config: ILoggingConfig | undefined, logFileDirectory?: string): void {
+        Logger._config = config ?? {};
+        const fileConfig = Logger._config.file;
+        if (!fileConfig?.enabled || !logFileDirectory) {
+            Logger._logFile = undefined;
+            return;
+        }
+
+        Logger._logFileDirectory = logFileDirectory;
+        Logger._logFile = new RotatingLogFile(logFileDirectory, "bot", "jsonl", {
+            maxFileBytes: fileConfig.maxFileBytes ?? Logger.defaultMaxFileBytes,
+            retentionDays: fileConfig.retentionDays ?? Logger.defaultRetentionDays,
+        }, (fileName, err) => err
+            ? Logger.get("config").error(`Error deleting expired log ${fileName}: ${err}`)
+            : Logger.get("config").info(`Deleted expired log: ${fileName}`));
+    }
+
+    /**
+     * @returns undefined if the name isn't recognized
+     */
+    public static parseLevel(name: string): LogLevel | undefined {
+        return Logger.levelsByName[name.toLowerCase() as LogLevelName];
+    }
+
+    /**
+     * @returns a description of each problem with the config (empty if it's valid)
+     */
+    public static getConfigErrors(config: ILoggingConfig): string[] {
+        const errors: string[] = [];
+        const levelNames: [string, unknown][] = [
+            ["logging.level", config.level],
+            ["logging.file.level", config.file?.level],
+            ...Object.entries(config.categories ?? {}).map(([category, levelName]) => [`logging.categories.${category}`, levelName] as [string, unknown]),
+        ];
+        for (const [setting, levelName] of levelNames) {
+            if (levelName !== undefined && (typeof levelName !== "string" || Logger.parseLevel(levelName) === undefined)) {
+                errors.push(`${setting} must be one of: ${Object.keys(Logger.levelsByName).join(", ")}`);
+            }
+        }
+        return errors;
+    }
+
+    public static redact(text: string): string {
+        return Logger.redactions.reduce((redacted, redaction) => redacted.replace(redaction.pattern, redaction.replacement), text);
+    }
+
+    protected get consoleLevel(): LogLevel {
+        const levelName = Logger._config.categories?.[this.category] ?? Logger._config.level;
+        return (levelName ? Logger.parseLevel(levelName) : undefined) ?? Logger.defaultLevel;
+    }
+
+    protected get fileLevel(): LogLevel {
+        const levelName = Logger._config.file?.level;
+        return (levelName ? Logger.parseLevel(levelName) : undefined) ?? this.consoleLevel;
+    }
+
+    /**
+     * Lets callers skip building expensive messages that wouldn't be written anyway
+     */
+    public isEnabled(level: LogLevel): boolean {
+        return level >= this.consoleLevel || (!!Logger._logFile && level >= this.fileLevel);
+    }
+
+    public trace(...args: unknown[]): void {
+        this.write(LogLevel.Trace, args);
+    }
+
+    public debug(...args: unknown[]): void {
+        this.write(LogLevel.Debug, args);
+    }
+
+    public info(...args: unknown[]): void {
+        this.write(LogLevel.Info, args);
+    }
+
+    public warn(...args: unknown[]): void {
+        this.write(LogLevel.Warn, args);
+    }
+
+    public error(...args: unknown[]): void {
+        this.write(LogLevel.Error, args);
+    }
+
+    /**
+     * Arguments are formatted like console.log's (so errors include their stack). Messages may contain ConsoleColors, which are stripped from file output.
+     */
+    protected write(level: LogLevel, args: unknown[]): void {
+        const writeToConsole = level >= this.consoleLevel;
+        const writeToFile = !!Logger._logFile && level >= this.fileLevel && !Logger._isWritingToFile;
+        if (!writeToConsole && !writeToFile) {
+            return;
+        }
+
+        const now = new Date();
+        const message = Logger.redact(util.format(...args));
+        const levelName = LogLevel[level].toUpperCase();
+        if (writeToConsole) {
+            const useColors = Logger._config.colors ?? true;
+            const levelColor = Logger.levelColors[level];
+            const line = `${now.toISOString().slice(11, 23)} ${levelName.padEnd(5)} [${this.category}] ${message}`;
+            const coloredLine = !useColors
+                ? line.replace(Logger.ansiEscapePattern, "")
+                : levelColor ? `${levelColor}${line}${ConsoleColors.Reset}` : line;
+            if (level >= LogLevel.Error) {
+                console.error(coloredLine);
+            } else {
+                console.log(coloredLine);
+            }
+        }
+        if (writeToFile) {
+            Logger._isWritingToFile = true;
+            try {
+                Logger._logFile?.appendLine(JSON.stringify({ timestamp: now.toISOString(), level: levelName.toLowerCase(), category: this.category, message: message.replace(Logger.ansiEscapePattern, "") }));
+            } catch (err) {
+                console.error(`Error writing to the log file in ${Logger._logFileDirectory}: ${err}`);
+            } finally {
+                Logger._isWritingToFile = false;
+            }
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import { Logger } from "./Logger";
+
+const log = Logger.get("commands");
+
+/**
+ * @returns undefined if the variable isn't recognized
+ */
+export type ResponseTemplateVariableResolver = (name: string, args: string[]) => Promise<string | undefined>;
+
+/**
+ * Fills in the "${name arg1 arg2}" variables in a configured response
+ */
+export class ResponseTemplate {
+    protected static readonly variablePattern = /\$\{([^{}]*)\}/g;
+    /** Stands in for a variable whose value couldn't be retrieved (e.g. because an API request failed) */
+    public static readonly unavailableText = "unknown";
+
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() {
+    }
+
+    public static hasVariables(template: string): boolean {
+        return new RegExp(ResponseTemplate.variablePattern.source).test(template);
+    }
+
+    /**
+     * Unrecognized variables are left as written, so that a typo in the config shows up in chat instead of silently disappearing
+     */
+    public static async render(template: string, resolveVariable: ResponseTemplateVariableResolver): Promise<string> {
+        let rendered = "";
+        let lastIndex = 0;
+        for (const match of template.matchAll(ResponseTemplate.variablePattern)) {
+            const [name, ...args] = match[1].trim().split(/\s+/);
+            let value: string | undefined;
+            try {
+                value = await resolveVariable(name.toLowerCase(), args);
+                if (value === undefined) {
+                    log.warn(`Unknown response variable: ${match[0]}`);
+                }
+            } catch (err) {
+                log.error(`Error retrieving response variable ${match[0]}: ${err}`);
+                value = ResponseTemplate.unavailableText;
+            }
+
+            rendered += template.slice(lastIndex, match.index) + (value ?? match[0]);
+            lastIndex = (match.index ?? 0) + match[0].length;
+        }
+        return rendered + template.slice(lastIndex);
+    }
+}
@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export interface IRotatingLogFileConfig {
+    /** A log is continued in a new file once it reaches this size */
+    maxFileBytes: number;
+    /** Logs older than this are deleted (0 keeps logs forever) */
+    retentionDays: number;
+}
+
+/**
+ * Appends lines to files named "<prefix>_YYYY-MM-DD[.N].<extension>", starting a new file each (UTC) day or whenever the current file grows too large
+ */
+export class RotatingLogFile {
+    protected readonly _fileNamePattern: RegExp;
+    protected _currentDate = "";
+    /** Number of times the current day's log has been continued in a new file */
+    protected _currentPart = 0;
+    protected _currentFileBytes = 0;
+
+    /**
+     * @param _onExpiredLogDeleted called with the name of each file deleted because of the retention period
+     */
+    public constructor(
+        protected readonly _directory: string,
+        protected readonly _fileNamePrefix: string,
+        protected readonly _fileExtension: string,
+        protected readonly _config: IRotatingLogFileConfig,
+        protected readonly _onExpiredLogDeleted?: (fileName: string, err?: Error) => void) {
+        this._fileNamePattern = new RegExp(`^${_fileNamePrefix}_(\\d{4}-\\d{2}-\\d{2})(?:\\.(\\d+))?\\.${_fileExtension}$`);
+        fs.mkdirSync(this._directory, { recursive: true });
+    }
+
+    protected get currentPath(): string {
+        const fileName = this._currentPart === 0
+            ? `${this._fileNamePrefix}_${this._currentDate}.${this._fileExtension}`
+            : `${this._fileNamePrefix}_${this._currentDate}.${this._currentPart}.${this._fileExtension}`;
+        return path.join(this._directory, fileName);
+    }
+
+    /**
+     * @param line without a trailing newline
+     */
+    public appendLine(line: string): void {
+        const lineWithNewline = `${line}\n`;
+        const lineBytes = Buffer.byteLength(lineWithNewline, "utf8");
+        this.rotateIfNeeded(lineBytes);
+        fs.appendFileSync(this.currentPath, lineWithNewline, { encoding: "utf8" });
+        this._currentFileBytes += lineBytes;
+    }
+
+    protected rotateIfNeeded(nextLineBytes: number): void {
+        const date = new Date().toISOString().slice(0, 10);
+        if (date !== this._currentDate) {
+            this._currentDate = date;
+            this.resumeLatestFile();
+            this.deleteExpiredLogs();
+        }
+
+        if (this._currentFileBytes > 0 && this._currentFileBytes + nextLineBytes > this._config.maxFileBytes) {
+            this._currentPart++;
+            this._currentFileBytes = 0;
+        }
+    }
+
+    /**
+     * Picks up where a previous run left off, so that restarting the bot doesn't start a new file
+     */
+    protected resumeLatestFile(): void {
+        this._currentPart = 0;
+        for (const fileName of fs.readdirSync(this._directory)) {
+            const match = this._fileNamePattern.exec(fileName);
+            if (match && match[1] === this._currentDate) {
+                this._currentPart = Math.max(this._currentPart, parseInt(match[2] ?? "0"));
+            }
+        }
+        this._currentFileBytes = fs.existsSync(this.currentPath) ? fs.statSync(this.currentPath).size : 0;
+    }
+
+    public deleteExpiredLogs(): void {
+        if (this._config.retentionDays <= 0) {
+            return;
+        }
+
+        const oldestDateToKeep = new Date(Date.now() - this._config.retentionDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        for (const fileName of fs.readdirSync(this._directory)) {
+            const match = this._fileNamePattern.exec(fileName);
+            if (!match || match[1] >= oldestDateToKeep) {
+                continue;
+            }
+            try {
+                fs.unlinkSync(path.join(this._directory, fileName));
+                this._onExpiredLogDeleted?.(fileName);
+            } catch (err) {
+                this._onExpiredLogDeleted?.(fileName, err);
+            }
+        }
+    }
+}
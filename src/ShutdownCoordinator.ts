@@ -0,0 +1,76 @@
+import { Logger } from "./Logger";
+
+const log = Logger.get("shutdown");
+
+export interface IShutdownStep {
+    /** Shown in logs */
+    name: string;
+    run: () => Promise<void> | void;
+    /** Later steps go ahead once this has elapsed, even if this step hasn't finished (defaults to 10 seconds) */
+    timeoutSeconds?: number;
+}
+
+/**
+ * Runs a series of shutdown steps in order, exactly once. A step that fails or runs out of time is logged & skipped, so later steps always get their turn.
+ */
+export class ShutdownCoordinator {
+    public static readonly defaultStepTimeoutSeconds = 10;
+    public static readonly signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+    protected _shutdownPromise?: Promise<void>;
+
+    public constructor(protected readonly _steps: IShutdownStep[]) {
+    }
+
+    public get isShuttingDown(): boolean {
+        return this._shutdownPromise !== undefined;
+    }
+
+    /**
+     * Later calls return the same promise as the first
+     */
+    public run(reason: string): Promise<void> {
+        this._shutdownPromise = this._shutdownPromise ?? this.runSteps(reason);
+        return this._shutdownPromise;
+    }
+
+    protected async runSteps(reason: string): Promise<void> {
+        log.info(`Shutting down (${reason})`);
+        for (const step of this._steps) {
+            const timeoutSeconds = step.timeoutSeconds ?? ShutdownCoordinator.defaultStepTimeoutSeconds;
+            let timeout: NodeJS.Timeout | undefined;
+            const timedOut = new Promise<boolean>((resolve) => { timeout = setTimeout(() => resolve(true), 1000 * timeoutSeconds); });
+            try {
+                log.debug(`Shutdown step started: ${step.name}`);
+                if (await Promise.race([Promise.resolve(step.run()).then(() => false), timedOut])) {
+                    log.warn(`Shutdown step didn't finish within ${timeoutSeconds} seconds, moving on: ${step.name}`);
+                }
+            } catch (err) {
+                log.error(`Shutdown step failed: ${step.name} ${err}`);
+            } finally {
+                clearTimeout(timeout);
+            }
+        }
+        log.info(`Shutdown complete`);
+    }
+
+    /**
+     * Runs the shutdown when the process is asked to stop, then exits. Asking again while the shutdown is running exits immediately.
+     */
+    public static exitOnSignals(shutdown: (reason: string) => Promise<void>): void {
+        let isShuttingDown = false;
+        for (const signal of ShutdownCoordinator.signals) {
+            process.on(signal, () => {
+                if (isShuttingDown) {
+                    log.warn(`Received ${signal} again, exiting without finishing the shutdown`);
+                    process.exit(1);
+                }
+                isShuttingDown = true;
+                shutdown(signal).then(() => process.exit(0), (err) => {
+                    log.error(`Shutdown failed: ${err}`);
+                    process.exit(1);
+                });
+            });
+        }
+    }
+}
@@ -1,6 +1,9 @@
 import { randomInt } from "crypto";
 import * as fs from "fs";
 import { ChannelPointRequests } from "./ChannelPointRequests";
+import { ChatPriority } from "./ChatSendQueue";
+import { CommandPermission } from "./CommandPermissions";
+import { ICommandRegistration } from "./CommandRegistry";
 import { Future } from "./Future";
 import { IIrcBotAuxCommandGroupConfig, IIrcBotMiscConfig, IPrivMessageDetail, IUserDetailCollection } from "./IrcBot";
 import { egadd_quotes, f_zero_gx_interview_quotes, f_zero_gx_quotes, f_zero_gx_story_quotes, luigi_quotes } from "./Quotes";
@@ -9,6 +12,9 @@ import { TwitchBotBase } from "./TwitchBot";
 import { CreateCustomChannelPointRewardArgs, TwitchEventSub_Event_ChannelPointCustomRewardRedemptionAdd, TwitchEventSub_Event_Cheer, TwitchEventSub_Notification_Subscription, TwitchEventSub_SubscriptionType } from "./TwitchBotTypes";
 import { Utils } from "./Utils";
 import { FundGameRequestOutcomeType, GoogleAPI } from "./google/GoogleAPI";
+import { Logger } from "./Logger";
+
+const userLog = Logger.get("users");
 
 export class SpudBotTwitch extends TwitchBotBase<ChatWarriorUserDetail> {
     public declare readonly _config: ISpudBotConfig;
@@ -26,25 +32,8 @@ export class SpudBotTwitch extends TwitchBotBase<ChatWarriorUserDetail> {
 
     public constructor(miscConfig: IIrcBotMiscConfig, connection: ISpudBotConnectionConfig, auxCommandGroups: IIrcBotAuxCommandGroupConfig[], configDir: string) {
         super(miscConfig, connection, auxCommandGroups, configDir);
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleEcho(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleFirst(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleSlot(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleTimeout(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleGiveaway(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handlePlay(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleUptime(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleBonk(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleEgaddQuote(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleLuigiQuote(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleFZeroGXStoryQuote(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleFZeroGXInterviewQuote(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleFZeroGXQuote(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleCreateGameRequestRewards(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleGameRequestModular(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleBidwarModular(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleYes(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleNo(detail));
-        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.handleUpdateAllUsers(detail));
+        this._hardcodedPrivMessageResponseHandlers.push(async (detail) => await this.trackFirstChatter(detail));
+        this.registerSpudBotCommands();
 
         try {
             this._bonkCountPath = fs.realpathSync(`${this._config.configDir}/bonkCount.txt`);
@@ -55,12 +44,226 @@ export class SpudBotTwitch extends TwitchBotBase<ChatWarriorUserDetail> {
         }
     }
 
+    protected registerSpudBotCommands(): void {
+        const commands: ICommandRegistration[] = [
+            {
+                messageHandler: async (detail) => await this.handleEcho(detail),
+                triggerPhrases: ["!echo"],
+                strictMatch: false, // echoing requires something after the command itself
+                commandId: "!echo",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Repeats the rest of the message",
+                usage: "<message>",
+                category: "Fun",
+            },
+            {
+                messageHandler: async (detail) => await this.handleFirst(detail),
+                triggerPhrases: ["!first"],
+                strictMatch: false,
+                commandId: "!first",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Names the first chatter of the day",
+                category: "Fun",
+            },
+            {
+                messageHandler: async (detail) => await this.handleSlot(detail),
+                triggerPhrases: ["!slot"],
+                strictMatch: true,
+                commandId: "!slot",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Try your luck (2 in 3 chance of a timeout)",
+                category: "Fun",
+            },
+            {
+                messageHandler: async (detail) => await this.handleTimeout(detail),
+                triggerPhrases: ["!timeout"],
+                strictMatch: true,
+                commandId: "!timeout",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Times yourself out for a few minutes",
+                category: "Fun",
+            },
+            {
+                messageHandler: async (detail) => await this.handleGiveaway(detail),
+                triggerPhrases: ["!giveaway", "!vacation"],
+                strictMatch: false,
+                commandId: "!giveaway",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Enter the giveaway (you will win a timeout)",
+                category: "Fun",
+            },
+            {
+                messageHandler: async (detail) => await this.handlePlay(detail),
+                triggerPhrases: ["!play"],
+                strictMatch: false,
+                commandId: "!play",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Posts !play for other bots to pick up",
+                permission: CommandPermission.Broadcaster,
+                category: "Broadcaster",
+            },
+            {
+                messageHandler: async (detail) => await this.handleUptime(detail),
+                triggerPhrases: ["git status", "!uptime", "!status", "!duration"],
+                strictMatch: true,
+                commandId: "!uptime",
+                globalTimeoutSeconds: 10,
+                userTimeoutSeconds: 120,
+                description: "How long the stream has been live",
+                category: "Stream",
+            },
+            {
+                messageHandler: async (detail) => await this.handleBonk(detail),
+                triggerPhrases: ["!bonk"],
+                strictMatch: true,
+                commandId: "!bonk",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Adds one to the bonk counter",
+                category: "Fun",
+            },
+            {
+                messageHandler: async (detail) => await this.handleEgaddQuote(detail),
+                triggerPhrases: ["!egaddquote"],
+                strictMatch: false,
+                commandId: "!egaddquote",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "A random E. Gadd quote",
+                category: "Quotes",
+            },
+            {
+                messageHandler: async (detail) => await this.handleLuigiQuote(detail),
+                triggerPhrases: ["!luigiquote"],
+                strictMatch: false,
+                commandId: "!luigiquote",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "A random Luigi quote",
+                category: "Quotes",
+            },
+            {
+                messageHandler: async (detail) => await this.handleFZeroGXStoryQuote(detail),
+                triggerPhrases: ["!fzerogxstoryquote", "!gxstoryquote"],
+                strictMatch: false,
+                commandId: "!fzerogxstoryquote",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "A random F-Zero GX story mode quote",
+                category: "Quotes",
+            },
+            {
+                messageHandler: async (detail) => await this.handleFZeroGXInterviewQuote(detail),
+                triggerPhrases: ["!fzerogxinterviewquote", "!gxinterviewquote"],
+                strictMatch: false,
+                commandId: "!fzerogxinterviewquote",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "A random F-Zero GX pilot interview quote",
+                category: "Quotes",
+            },
+            {
+                messageHandler: async (detail) => await this.handleFZeroGXQuote(detail),
+                triggerPhrases: ["!fzerogxquote", "!gxquote"],
+                strictMatch: false,
+                commandId: "!fzerogxquote",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "A random F-Zero GX quote",
+                category: "Quotes",
+            },
+            {
+                messageHandler: async (detail) => await this.handleCreateGameRequestRewards(detail),
+                triggerPhrases: ["!initGameRequests"],
+                strictMatch: false,
+                commandId: "!initGameRequests",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Creates the channel point rewards used for game requests",
+                permission: CommandPermission.Broadcaster,
+                category: "Broadcaster",
+            },
+            {
+                messageHandler: async (detail) => await this.handleGameRequestModular(detail),
+                triggerPhrases: ["!gamerequest"],
+                strictMatch: false, // requesting a game requires input after the command
+                commandId: "!gamerequest",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Manages game requests (broadcaster only)",
+                usage: "[add, fund, start, complete] ...",
+                category: "Game Requests",
+            },
+            {
+                messageHandler: async (detail) => await this.handleBidwarModular(detail),
+                triggerPhrases: ["!bidwar"],
+                strictMatch: false,
+                commandId: "!bidwar",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Spend your bidwar bank on a game",
+                usage: "contribute \"<gameName>\" <amount>",
+                category: "Game Requests",
+            },
+            {
+                messageHandler: async (detail) => await this.handleYes(detail),
+                triggerPhrases: ["!yes"],
+                strictMatch: true,
+                commandId: "!yes",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Confirms your pending request",
+                category: "Game Requests",
+            },
+            {
+                messageHandler: async (detail) => await this.handleNo(detail),
+                triggerPhrases: ["!no"],
+                strictMatch: true,
+                commandId: "!no",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Cancels your pending request",
+                category: "Game Requests",
+            },
+            {
+                messageHandler: async (detail) => await this.handleUpdateAllUsers(detail),
+                triggerPhrases: ["!updateAllUsers"],
+                strictMatch: true,
+                commandId: "!updateAllUsers",
+                globalTimeoutSeconds: 0,
+                userTimeoutSeconds: 0,
+                description: "Refreshes every stored user's details from Twitch",
+                permission: CommandPermission.Broadcaster,
+                category: "Broadcaster",
+            },
+        ];
+        for (const command of commands) {
+            this._commandRegistry.register(command);
+        }
+    }
+
     public override async _startup(): Promise<void> {
         await super._startup();
 
+        this._googleApi.resolve(await this.startGoogleApi());
+    }
+
+    protected async startGoogleApi(): Promise<GoogleAPI> {
         const googleApi = new GoogleAPI(this._config.connection.google, this);
         await googleApi.startup();
-        this._googleApi.resolve(googleApi);
+        return googleApi;
+    }
+
+    /** Spreadsheet updates are queued, so a redemption made just before the shutdown would otherwise be lost */
+    protected override async finishPendingTasks(): Promise<void> {
+        await super.finishPendingTasks();
+        await (await this._googleApi).waitForPendingTasks();
     }
 
     protected override async getTwitchBroadcasterId(): Promise<string> {
@@ -193,48 +396,29 @@ export class SpudBotTwitch extends TwitchBotBase<ChatWarriorUserDetail> {
     }
 
     protected async handleEcho(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const response = messageDetail.message.split(" ").slice(1).join(" "); // Trim the "!echo" off the front & send the rest along
-            this.chat(messageDetail.respondTo, response);
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!echo"],
-            strictMatch: false, // echoing requires something after the command itself
-            commandId: "!echo",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        const response = messageDetail.message.split(" ").slice(1).join(" "); // Trim the "!echo" off the front & send the rest along
+        this.chat(messageDetail.respondTo, response);
     }
 
-    protected async handleFirst(messageDetail: IPrivMessageDetail): Promise<void> {
-        const broadcasterName = this._config.connection.server.channel.substring(1);
-        if (!this._firstChatterName && messageDetail.username !== broadcasterName) {
+    protected async trackFirstChatter(messageDetail: IPrivMessageDetail): Promise<void> {
+        const isPrimaryChannel = messageDetail.recipient === this.primaryChannel; // chatters in partner channels aren't first in ours
+        if (!this._firstChatterName && isPrimaryChannel && messageDetail.username !== this.twitchChannelName) {
             this._firstChatterName = messageDetail.username;
         }
-        
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            let response: string;
-            const someoneWasAlreadyFirst = !!this._firstChatterName;
-            if (this._firstChatterName === messageDetail.username) {
-                response = `Congrats, ${this._firstChatterName}, you${someoneWasAlreadyFirst ? "'re" : " were"} first today!`;
-            } else if (!this._firstChatterName) {
-                response = `No one is first yet...`;
-            } else {
-                response = `${this._firstChatterName} was first today.`
-            }
-            this.chat(messageDetail.respondTo, response);
+    }
+
+    protected async handleFirst(messageDetail: IPrivMessageDetail): Promise<void> {
+        await this.trackFirstChatter(messageDetail); // the command itself may be the first message of the day
+        let response: string;
+        const someoneWasAlreadyFirst = !!this._firstChatterName;
+        if (this._firstChatterName === messageDetail.username) {
+            response = `Congrats, ${this._firstChatterName}, you${someoneWasAlreadyFirst ? "'re" : " were"} first today!`;
+        } else if (!this._firstChatterName) {
+            response = `No one is first yet...`;
+        } else {
+            response = `${this._firstChatterName} was first today.`
         }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!first"],
-            strictMatch: false,
-            commandId: "!first",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        this.chat(messageDetail.respondTo, response);
     }
 
     protected async handleCapsWarning(messageDetail: IPrivMessageDetail): Promise<void> {
@@ -269,7 +453,7 @@ export class SpudBotTwitch extends TwitchBotBase<ChatWarriorUserDetail> {
                 // TODO: Disable after a raid
                 this._capsMessageWarnings[messageDetail.username] = new Date(Date.now());
                 const response = `@${messageDetail.username} please don't use caps lock`;
-                this.chat(messageDetail.respondTo, response);
+                this.chat(messageDetail.respondTo, response, false, ChatPriority.High);
             }
         }
 
@@ -277,573 +461,378 @@ export class SpudBotTwitch extends TwitchBotBase<ChatWarriorUserDetail> {
     }
 
     protected async handleBonk(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const bonkCount = await this.getBonkCount() + 1;
-            await this.setBonkCount(bonkCount);
-            const response = `${bonkCount} recorded bonks`;
-            this.chat(messageDetail.respondTo, response);
-        };
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!bonk"],
-            strictMatch: true,
-            commandId: "!bonk",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        const bonkCount = await this.getBonkCount() + 1;
+        await this.setBonkCount(bonkCount);
+        const response = `${bonkCount} recorded bonks`;
+        this.chat(messageDetail.respondTo, response);
     }
 
-    // TODO: implement this
-    // protected handleEditCom(messageDetails: IPrivMessageDetail): void {
-    // }
-
     protected async handleSlot(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const roll = randomInt(3);
-            const timeoutSeconds = (randomInt(10) + 1) * 20 + 60;
-            if (roll !== 0) {
-                this.chat(messageDetail.respondTo, "💥 BANG!!");
-                this.timeout(messageDetail.respondTo.replace("#", ""), messageDetail.username, timeoutSeconds);
-            } else {
-                this.chat(messageDetail.respondTo, "Click...");
-            }
+        const roll = randomInt(3);
+        const timeoutSeconds = (randomInt(10) + 1) * 20 + 60;
+        if (roll !== 0) {
+            this.chat(messageDetail.respondTo, "💥 BANG!!");
+            await this.timeout(messageDetail.respondTo.replace("#", ""), messageDetail.username, timeoutSeconds);
+        } else {
+            this.chat(messageDetail.respondTo, "Click...");
         }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!slot"],
-            strictMatch: true,
-            commandId: "!slot",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
     }
 
     protected async handleTimeout(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const timeoutSeconds = randomInt(120) + 240;
-            const text = Utils.pickOne([
-                "You asked for it..." ,
-                'Taken down on the word "Go"!',
-                "Critical Hit!",
-                "You will be remembered...",
-                "You're welcome",
-                "Super Effective!",
-                "Please come again",
-                "In memoriam.",
-                "This one's on the house.",
-            ]);
-            
-            this.chat(messageDetail.respondTo, text);
-            this.timeout(messageDetail.respondTo.replace("#", ""), messageDetail.username, timeoutSeconds);
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!timeout"],
-            strictMatch: true,
-            commandId: "!timeout",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        const timeoutSeconds = randomInt(120) + 240;
+        const text = Utils.pickOne([
+            "You asked for it..." ,
+            'Taken down on the word "Go"!',
+            "Critical Hit!",
+            "You will be remembered...",
+            "You're welcome",
+            "Super Effective!",
+            "Please come again",
+            "In memoriam.",
+            "This one's on the house.",
+        ]);
+        
+        this.chat(messageDetail.respondTo, text);
+        await this.timeout(messageDetail.respondTo.replace("#", ""), messageDetail.username, timeoutSeconds);
     }
 
     protected async handleGiveaway(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const timeoutSeconds = (randomInt(5) + 1) * 60 + 60;
-            const text = Utils.pickOne([
-                "You've won a fabulous vacation, courtesy of 'Tater Airlines, enjoy your trip!",
-                "Congratulations! You won an all-expenses paid trip to the gulag, enjoy your stay!",
-                "You're a winner! Thanks for playing!",
-                "Jackpot!!",
-                "You're entitled to one (1) complimentary vacation. Enjoy the time off.",
-                "DING DING DING!!",
-            ]);
-            
-            this.chat(messageDetail.respondTo, text);
-            this.timeout(messageDetail.respondTo.replace("#", ""), messageDetail.username, timeoutSeconds);
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!giveaway", "!vacation"],
-            strictMatch: false,
-            commandId: "!giveaway",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        const timeoutSeconds = (randomInt(5) + 1) * 60 + 60;
+        const text = Utils.pickOne([
+            "You've won a fabulous vacation, courtesy of 'Tater Airlines, enjoy your trip!",
+            "Congratulations! You won an all-expenses paid trip to the gulag, enjoy your stay!",
+            "You're a winner! Thanks for playing!",
+            "Jackpot!!",
+            "You're entitled to one (1) complimentary vacation. Enjoy the time off.",
+            "DING DING DING!!",
+        ]);
+        
+        this.chat(messageDetail.respondTo, text);
+        await this.timeout(messageDetail.respondTo.replace("#", ""), messageDetail.username, timeoutSeconds);
     }
 
     protected async handlePlay(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const userIsBroadcaster = messageDetail.username === this.twitchChannelName
-            if (!userIsBroadcaster) { // TODO: detect streamer's name from config or make this a basic configuration with a name/broadcaster option
-                return;
-            }
-            this.chat(messageDetail.respondTo, "!play");
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!play"],
-            strictMatch: false,
-            commandId: "!play",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        this.chat(messageDetail.respondTo, "!play");
     }
 
     protected async handleUptime(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            try {
-                const streamDetails = await this.getStreamDetails(this.twitchChannelName);
-                const dateNowMillis = Date.now();
-                const dateStarted = new Date(streamDetails.started_at);
-                const dateStartedMillis = dateStarted.getTime();
-                let dateDiff = dateNowMillis - dateStartedMillis;
-                const days = Math.floor(dateDiff / (1000 * 60 * 60 * 24));
-                dateDiff -=  days * (1000 * 60 * 60 * 24);
-                const hours = Math.floor(dateDiff / (1000 * 60 * 60));
-                dateDiff -= hours * (1000 * 60 * 60);
-                const mins = Math.floor(dateDiff / (1000 * 60));
-                dateDiff -= mins * (1000 * 60);
-                const seconds = Math.floor(dateDiff / (1000));
-                dateDiff -= seconds * (1000);
-                const timeLiveStr = `${days ? `${days} day${days > 1 ? `s` : ``}` : ``} ${hours ? `${hours} hour${days > 1 ? `s` : ""}` : ``} ${mins ? `${mins} minute${mins > 1 ? `s` : ""}` : ``} ${seconds ? `${seconds} second${seconds > 1 ? `s` : ``}` : ``}`;
-    
-                this.chat(messageDetail.respondTo, `This stream has been live for ${timeLiveStr}`);
-            } catch (err) {
-                this.chat(messageDetail.respondTo, `This stream is currently offline.`);
-            }           
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["git status", "!uptime", "!status", "!duration"],
-            strictMatch: true,
-            commandId: "!uptime",
-            globalTimeoutSeconds: 10,
-            userTimeoutSeconds: 120,
-        });
-        await func(messageDetail);
+        try {
+            const streamDetails = await this.getStreamDetails(this.twitchChannelName);
+            const timeLiveStr = Utils.getDurationString(Date.now() - new Date(streamDetails.started_at).getTime());
+
+            this.chat(messageDetail.respondTo, `This stream has been live for ${timeLiveStr}`);
+        } catch (err) {
+            this.chat(messageDetail.respondTo, `This stream is currently offline.`);
+        }           
     }
 
     protected async handleEgaddQuote(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const quoteIndex = randomInt(egadd_quotes.length);
-            const quoteText = egadd_quotes[quoteIndex];
-            this.chat(messageDetail.respondTo, quoteText);
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!egaddquote"],
-            strictMatch: false,
-            commandId: "!egaddquote",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        const quoteIndex = randomInt(egadd_quotes.length);
+        const quoteText = egadd_quotes[quoteIndex];
+        this.chat(messageDetail.respondTo, quoteText);
     }
 
     protected async handleLuigiQuote(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const quoteIndex = randomInt(luigi_quotes.length);
-            const quoteText = luigi_quotes[quoteIndex];
-            this.chat(messageDetail.respondTo, quoteText);
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!luigiquote"],
-            strictMatch: false,
-            commandId: "!luigiquote",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        const quoteIndex = randomInt(luigi_quotes.length);
+        const quoteText = luigi_quotes[quoteIndex];
+        this.chat(messageDetail.respondTo, quoteText);
     }
 
     protected async handleFZeroGXStoryQuote(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const quoteIndex = randomInt(f_zero_gx_story_quotes.length);
-            const quoteText = f_zero_gx_story_quotes[quoteIndex];
-            this.chat(messageDetail.respondTo, quoteText);
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!fzerogxstoryquote", "!gxstoryquote"],
-            strictMatch: false,
-            commandId: "!fzerogxstoryquote",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        const quoteIndex = randomInt(f_zero_gx_story_quotes.length);
+        const quoteText = f_zero_gx_story_quotes[quoteIndex];
+        this.chat(messageDetail.respondTo, quoteText);
     }
 
     protected async handleFZeroGXInterviewQuote(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const quoteIndex = randomInt(f_zero_gx_interview_quotes.length);
-            const quoteText = f_zero_gx_interview_quotes[quoteIndex];
-            this.chat(messageDetail.respondTo, quoteText);
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!fzerogxinterviewquote", "!gxinterviewquote"],
-            strictMatch: false,
-            commandId: "!fzerogxinterviewquote",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        const quoteIndex = randomInt(f_zero_gx_interview_quotes.length);
+        const quoteText = f_zero_gx_interview_quotes[quoteIndex];
+        this.chat(messageDetail.respondTo, quoteText);
     }
 
     protected async handleFZeroGXQuote(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const quoteIndex = randomInt(f_zero_gx_quotes.length);
-            const quoteText = f_zero_gx_quotes[quoteIndex];
-            this.chat(messageDetail.respondTo, quoteText);
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!fzerogxquote", "!gxquote"],
-            strictMatch: false,
-            commandId: "!fzerogxquote",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        const quoteIndex = randomInt(f_zero_gx_quotes.length);
+        const quoteText = f_zero_gx_quotes[quoteIndex];
+        this.chat(messageDetail.respondTo, quoteText);
     }
 
     protected async handleCreateGameRequestRewards(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (_messageDetail: IPrivMessageDetail): Promise<void> => {
-            const existingRewards = await this.getChannelPointRewards();
-            const newRewards: CreateCustomChannelPointRewardArgs[] = [
-                {
-                    title: "Submit a new !GameRequest",
-                    cost: ChannelPointRequests.getGameRequestPrice(0),
-                    prompt: "Please provide the name of the game you'd like me to play. I manually review each request to determine how long it will take and how many points the request will cost to fund.",
-                    background_color: "#196719",
-                    is_user_input_required: true,
-                    is_max_per_user_per_stream_enabled: true,
-                    max_per_user_per_stream: 2,
-                },
-                {
-                    title: "Contribute to a !GameRequest (1K)",
-                    cost: 1000,
-                    prompt: "Please provide the name of the game you'd like me to play. Points will be automatically added toward any existing request matching that name, so please ensure correct spelling.",
-                    background_color: "#196719",
-                    is_user_input_required: true,
-                    is_max_per_user_per_stream_enabled: true,
-                    max_per_user_per_stream: 5,
-                },
-                {
-                    title: "Contribute to a !GameRequest (5K)",
-                    cost: 5000,
-                    prompt: "Please provide the name of the game you'd like me to play. Points will be automatically added toward any existing request matching that name, so please ensure correct spelling.",
-                    background_color: "#196719",
-                    is_user_input_required: true,
-                    is_max_per_user_per_stream_enabled: true,
-                    max_per_user_per_stream: 5,
-                },
-                {
-                    title: "Contribute to a !GameRequest (25K)",
-                    cost: 25000,
-                    prompt: "Please provide the name of the game you'd like me to play. Points will be automatically added toward any existing request matching that name, so please ensure correct spelling.",
-                    background_color: "#196719",
-                    is_user_input_required: true,
-                    is_max_per_user_per_stream_enabled: true,
-                    max_per_user_per_stream: 4,
-                },
-                {
-                    title: "Contribute to a !GameRequest (100K)",
-                    cost: 100000,
-                    prompt: "Please provide the name of the game you'd like me to play. Points will be automatically added toward any existing request matching that name, so please ensure correct spelling.",
-                    background_color: "#196719",
-                    is_user_input_required: true,
-                    is_max_per_user_per_stream_enabled: true,
-                    max_per_user_per_stream: 100,
-                }
-            ];
-
-            let numSkippedAdditions = 0;
-            for (const reward of newRewards) {
-                if (existingRewards.some(n => n.title === reward.title)) {
-                    numSkippedAdditions++;
-                    continue;
-                }
-                await this.createChannelPointReward(reward);
-            }
+        const existingRewards = await this.getChannelPointRewards();
+        const newRewards: CreateCustomChannelPointRewardArgs[] = [
+            {
+                title: "Submit a new !GameRequest",
+                cost: ChannelPointRequests.getGameRequestPrice(0),
+                prompt: "Please provide the name of the game you'd like me to play. I manually review each request to determine how long it will take and how many points the request will cost to fund.",
+                background_color: "#196719",
+                is_user_input_required: true,
+                is_max_per_user_per_stream_enabled: true,
+                max_per_user_per_stream: 2,
+            },
+            {
+                title: "Contribute to a !GameRequest (1K)",
+                cost: 1000,
+                prompt: "Please provide the name of the game you'd like me to play. Points will be automatically added toward any existing request matching that name, so please ensure correct spelling.",
+                background_color: "#196719",
+                is_user_input_required: true,
+                is_max_per_user_per_stream_enabled: true,
+                max_per_user_per_stream: 5,
+            },
+            {
+                title: "Contribute to a !GameRequest (5K)",
+                cost: 5000,
+                prompt: "Please provide the name of the game you'd like me to play. Points will be automatically added toward any existing request matching that name, so please ensure correct spelling.",
+                background_color: "#196719",
+                is_user_input_required: true,
+                is_max_per_user_per_stream_enabled: true,
+                max_per_user_per_stream: 5,
+            },
+            {
+                title: "Contribute to a !GameRequest (25K)",
+                cost: 25000,
+                prompt: "Please provide the name of the game you'd like me to play. Points will be automatically added toward any existing request matching that name, so please ensure correct spelling.",
+                background_color: "#196719",
+                is_user_input_required: true,
+                is_max_per_user_per_stream_enabled: true,
+                max_per_user_per_stream: 4,
+            },
+            {
+                title: "Contribute to a !GameRequest (100K)",
+                cost: 100000,
+                prompt: "Please provide the name of the game you'd like me to play. Points will be automatically added toward any existing request matching that name, so please ensure correct spelling.",
+                background_color: "#196719",
+                is_user_input_required: true,
+                is_max_per_user_per_stream_enabled: true,
+                max_per_user_per_stream: 100,
+            }
+        ];
+
+        let numSkippedAdditions = 0;
+        for (const reward of newRewards) {
+            if (existingRewards.some(n => n.title === reward.title)) {
+                numSkippedAdditions++;
+                continue;
+            }
+            await this.createChannelPointReward(reward);
+        }
 
-            let message = `Custom channel point rewards initialized. Added ${newRewards.length - numSkippedAdditions} new rewards.`;
-            if (numSkippedAdditions > 0) {
-                message += ` Skipped ${numSkippedAdditions} new additions`;
-            }
-            this.chat(messageDetail.respondTo, message);
+        let message = `Custom channel point rewards initialized. Added ${newRewards.length - numSkippedAdditions} new rewards.`;
+        if (numSkippedAdditions > 0) {
+            message += ` Skipped ${numSkippedAdditions} new additions`;
         }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!initGameRequests"],
-            strictMatch: false,
-            commandId: "!initGameRequests",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        this.chat(messageDetail.respondTo, message);
     }
 
     protected async handleGameRequestModular(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const regex = /([^\s"]+|"[^"]*")+/g;
-            const tokens = messageDetail.message.match(regex) ?? [];
+        const regex = /([^\s"]+|"[^"]*")+/g;
+        const tokens = messageDetail.message.match(regex) ?? [];
 
-            if (tokens.length <= 1) {
-                return; // Defer to configured command
-            }
+        if (tokens.length <= 1) {
+            return; // Defer to configured command
+        }
 
-            const userIsBroadcaster = messageDetail.username === this.twitchChannelName;
-            if (!userIsBroadcaster) { // TODO: detect streamer's name from config or make this a basic configuration with a name/broadcaster option
-                this.chat(messageDetail.respondTo, `only the broadcaster can use this command`);
-                return;
-            }
+        if (!await this.hasCommandPermission(messageDetail, CommandPermission.Moderator)) {
+            this.denyCommandPermission(messageDetail, "!gamerequest", `!gamerequest ${tokens[1]}`, CommandPermission.Moderator);
+            return;
+        }
 
-            if (tokens[1] === "help") {
-                const adminHelpMessage = `!gamerequest [add, fund, start, complete]`;
-                this.chat(messageDetail.respondTo, adminHelpMessage);
+        if (tokens[1] === "help") {
+            const adminHelpMessage = `!gamerequest [add, fund, start, complete]`;
+            this.chat(messageDetail.respondTo, adminHelpMessage);
+            return;
+        }
+        else if (tokens[1] === "add") {
+            const args = tokens.slice(2);
+            if (args.length === 0) {
+                this.chat(messageDetail.respondTo, `!gamerequest add <gameName> <gameLengthHours> [pointsToActivate] <username> <points>`);
                 return;
             }
-            else if (tokens[1] === "add") {
-                const args = tokens.slice(2);
-                if (args.length === 0) {
-                    this.chat(messageDetail.respondTo, `!gamerequest add <gameName> <gameLengthHours> [pointsToActivate] <username> <points>`);
-                    return;
-                }
-                const gameName = args[0].replaceAll("\"", "");
-                if (args.length === 4) {
-                    const username = args[2];
-                    const userId = await this.getUserIdForUsername(username);
-                    if (!userId) {
-                        return;
-                    }
-                    await (await this._googleApi).handleGameRequestAdd(messageDetail.respondTo, gameName, Number.parseInt(args[1]), undefined, userId, username, Number.parseInt(args[3]), new Date());
-                } else if (args.length === 5) {
-                    const username = args[3];
-                    const userId = await this.getUserIdForUsername(username);
-                    if (!userId) {
-                        return;
-                    }
-                    await (await this._googleApi).handleGameRequestAdd(messageDetail.respondTo, gameName, Number.parseInt(args[1]), Number.parseInt(args[2]), userId, username, Number.parseInt(args[4]), new Date());
-                } else {
-                    this.chat(messageDetail.respondTo, `!gameRequest add command was malformed (expected at least 4 arguments, but found ${args.length})`);
-                }
-            } else if (tokens[1] === "remove") {
-                // TODO: implement this
-            } else if (tokens[1] === "start") {
-                const args = tokens.slice(2);
-                if (args.length === 0) {
-                    this.chat(messageDetail.respondTo, `!gamerequest start <gameName>`);
-                    return;
-                }
-                if (args.length !== 1) {
-                    this.chat(messageDetail.respondTo, `!gameRequest complete command was malformed (expected 1 arguments, but found ${args.length})`);
-                    return;
-                }
-                const gameName = args[0].replaceAll("\"", "");
-                await (await this._googleApi).handleGameRequestStart(messageDetail.respondTo, gameName, new Date());
-            } else if (tokens[1] === "complete") {
-                const args = tokens.slice(2);
-                if (args.length === 0) {
-                    this.chat(messageDetail.respondTo, `!gamerequest complete <gameName> <hoursPlayed>`);
-                    return;
-                }
-                if (args.length !== 2) {
-                    this.chat(messageDetail.respondTo, `!gameRequest complete command was malformed (expected 2 arguments, but found ${args.length})`);
+            const gameName = args[0].replaceAll("\"", "");
+            if (args.length === 4) {
+                const username = args[2];
+                const userId = await this.getUserIdForUsername(username);
+                if (!userId) {
                     return;
                 }
-                const gameName = args[0].replaceAll("\"", "");
-                const hoursPlayed = Number.parseInt(args[1]);
-                await (await this._googleApi).handleGameRequestComplete(messageDetail.respondTo, gameName, new Date(), hoursPlayed);
-            } else if (tokens[1] === "fund") {
-                const args = tokens.slice(2);
-                if (args.length === 0) {
-                    this.chat(messageDetail.respondTo, `!gamerequest fund <gameName> <username> <points>`);
+                await (await this._googleApi).handleGameRequestAdd(messageDetail.respondTo, gameName, Number.parseInt(args[1]), undefined, userId, username, Number.parseInt(args[3]), new Date());
+            } else if (args.length === 5) {
+                const username = args[3];
+                const userId = await this.getUserIdForUsername(username);
+                if (!userId) {
                     return;
                 }
-                const gameName = args[0].replaceAll("\"", "");
-                if (args.length === 3) {
-                    const outcome = await (await this._googleApi).handleGameRequestFund(messageDetail.respondTo, gameName, args[1], Number.parseInt(args[2]), new Date());
-                    if (outcome.type === FundGameRequestOutcomeType.PendingConfirmation && outcome.complete !== undefined) {
-                        await outcome.complete(); // force this through
-                    }
-                }
+                await (await this._googleApi).handleGameRequestAdd(messageDetail.respondTo, gameName, Number.parseInt(args[1]), Number.parseInt(args[2]), userId, username, Number.parseInt(args[4]), new Date());
             } else {
-                this.chat(messageDetail.respondTo, `unknown !gameRequest command ${tokens[1]}`);
+                this.chat(messageDetail.respondTo, `!gameRequest add command was malformed (expected at least 4 arguments, but found ${args.length})`);
+            }
+        } else if (tokens[1] === "remove") {
+            // TODO: implement this
+        } else if (tokens[1] === "start") {
+            const args = tokens.slice(2);
+            if (args.length === 0) {
+                this.chat(messageDetail.respondTo, `!gamerequest start <gameName>`);
                 return;
             }
+            if (args.length !== 1) {
+                this.chat(messageDetail.respondTo, `!gameRequest complete command was malformed (expected 1 arguments, but found ${args.length})`);
+                return;
+            }
+            const gameName = args[0].replaceAll("\"", "");
+            await (await this._googleApi).handleGameRequestStart(messageDetail.respondTo, gameName, new Date());
+        } else if (tokens[1] === "complete") {
+            const args = tokens.slice(2);
+            if (args.length === 0) {
+                this.chat(messageDetail.respondTo, `!gamerequest complete <gameName> <hoursPlayed>`);
+                return;
+            }
+            if (args.length !== 2) {
+                this.chat(messageDetail.respondTo, `!gameRequest complete command was malformed (expected 2 arguments, but found ${args.length})`);
+                return;
+            }
+            const gameName = args[0].replaceAll("\"", "");
+            const hoursPlayed = Number.parseInt(args[1]);
+            await (await this._googleApi).handleGameRequestComplete(messageDetail.respondTo, gameName, new Date(), hoursPlayed);
+        } else if (tokens[1] === "fund") {
+            const args = tokens.slice(2);
+            if (args.length === 0) {
+                this.chat(messageDetail.respondTo, `!gamerequest fund <gameName> <username> <points>`);
+                return;
+            }
+            const gameName = args[0].replaceAll("\"", "");
+            if (args.length === 3) {
+                const outcome = await (await this._googleApi).handleGameRequestFund(messageDetail.respondTo, gameName, args[1], Number.parseInt(args[2]), new Date());
+                if (outcome.type === FundGameRequestOutcomeType.PendingConfirmation && outcome.complete !== undefined) {
+                    await outcome.complete(); // force this through
+                }
+            }
+        } else {
+            this.chat(messageDetail.respondTo, `unknown !gameRequest command ${tokens[1]}`);
+            return;
         }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!gamerequest"],
-            strictMatch: false, // requesting a game requires input after the command
-            commandId: "!gamerequest",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
     }
 
     protected async handleBidwarModular(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const regex = /([^\s"]+|"[^"]*")+/g;
-            const tokens = messageDetail.message.match(regex) ?? [];
+        const regex = /([^\s"]+|"[^"]*")+/g;
+        const tokens = messageDetail.message.match(regex) ?? [];
+
+        const canManageBidwar = await this.hasCommandPermission(messageDetail, CommandPermission.Broadcaster);
+        const contributeHelpMessage = `!bidwar contribute "<gameName>" <amount>`;
+        if (tokens.length <= 1) {
+            return;
+        }
+
+        if (tokens[1] === "help") {
+            const helpMessage = canManageBidwar
+                ? `!bidwar [contribute, remove, add, addFunds]`
+                : contributeHelpMessage;
+            this.chat(messageDetail.respondTo, helpMessage);
+            return;
+        }
+
+        let userDetail: ChatWarriorUserDetail | undefined;
+        try {
+            userDetail = await this.getUserDetailWithCache(messageDetail.username);
+        } catch (err) {
+            userLog.error(`Error retrieving userDetail for user: ${messageDetail.username}`, err);
+            return;
+        }
+        const messageSenderUserId = userDetail.id;
 
-            const userIsBroadcaster = messageDetail.username === this.twitchChannelName; // TODO: detect streamer's name from config or make this a basic configuration with a name/broadcaster option
-            const contributeHelpMessage = `!bidwar contribute "<gameName>" <amount>`;
-            if (tokens.length <= 1) {
+        if (tokens[1] === "contribute") {
+            const args = tokens.slice(2);
+            if (args.length === 0) {
+                this.chat(messageDetail.respondTo, contributeHelpMessage);
                 return;
             }
-
-            if (tokens[1] === "help") {
-                const helpMessage = userIsBroadcaster
-                    ? `!bidwar [contribute, remove, add, addFunds]`
-                    : contributeHelpMessage;
-                this.chat(messageDetail.respondTo, helpMessage);
+            if (args.length !== 2) {
+                this.chat(messageDetail.respondTo, `!bidwar contribute was malformed (expected at least 2 arguments, but found ${args.length})`);
                 return;
             }
-
-            let userDetail: ChatWarriorUserDetail | undefined;
-            try {
-                userDetail = await this.getUserDetailWithCache(messageDetail.username);
-            } catch (err) {
-                console.log(`Error retrieving userDetail for user: ${messageDetail.username}`);
-                console.log(err);
+            const gameName = args[0].replaceAll("\"", "");
+            const amount = Number.parseInt(args[1]);
+            await (await this._googleApi).handleBidwarContribute(messageDetail.respondTo, messageSenderUserId, messageDetail.username, gameName, amount, new Date());
+            return;
+        }
+        if (tokens[1] === "promote") {
+            if (!canManageBidwar) {
+                this.denyCommandPermission(messageDetail, "!bidwar", `!bidwar ${tokens[1]}`, CommandPermission.Broadcaster);
                 return;
             }
-            const messageSenderUserId = userDetail.id;
-
-            if (tokens[1] === "contribute") {
-                const args = tokens.slice(2);
-                if (args.length === 0) {
-                    this.chat(messageDetail.respondTo, contributeHelpMessage);
-                    return;
-                }
-                if (args.length !== 2) {
-                    this.chat(messageDetail.respondTo, `!bidwar contribute was malformed (expected at least 2 arguments, but found ${args.length})`);
-                    return;
-                }
-                const gameName = args[0].replaceAll("\"", "");
-                const amount = Number.parseInt(args[1]);
-                await (await this._googleApi).handleBidwarContribute(messageDetail.respondTo, messageSenderUserId, messageDetail.username, gameName, amount, new Date());
+            // TODO: implement this
+            return;
+        }
+        if (tokens[1] === "add") {
+            if (!canManageBidwar) {
+                this.denyCommandPermission(messageDetail, "!bidwar", `!bidwar ${tokens[1]}`, CommandPermission.Broadcaster);
                 return;
             }
-            if (tokens[1] === "promote") {
-                if (!userIsBroadcaster) {
-                    this.chat(messageDetail.respondTo, `only the broadcaster can use this command`);
-                    return;
-                }
-                // TODO: implement this
+            const args = tokens.slice(2);
+            if (args.length === 0) {
+                this.chat(messageDetail.respondTo, `!bidwar add <gameName> <amount>`);
                 return;
             }
-            if (tokens[1] === "add") {
-                if (!userIsBroadcaster) {
-                    this.chat(messageDetail.respondTo, `only the broadcaster can use this command`);
-                    return;
-                }
-                const args = tokens.slice(2);
-                if (args.length === 0) {
-                    this.chat(messageDetail.respondTo, `!bidwar add <gameName> <amount>`);
-                    return;
-                }
-                if (args.length !== 2) {
-                    this.chat(messageDetail.respondTo, `!bidwar add was malformed (expected at least 2 arguments, but found ${args.length})`);
-                    return;
-                }
-                const gameName = args[0].replaceAll("\"", "");
-                await (await this._googleApi).handleBidwarAddEntry(messageDetail.respondTo, gameName);
+            if (args.length !== 2) {
+                this.chat(messageDetail.respondTo, `!bidwar add was malformed (expected at least 2 arguments, but found ${args.length})`);
                 return;
             }
-            if (tokens[1] === "addFunds") {
-                if (!userIsBroadcaster) {
-                    this.chat(messageDetail.respondTo, `only the broadcaster can use this command`);
-                    return;
-                }
-                const args = tokens.slice(2);
-                if (args.length === 0) {
-                    this.chat(messageDetail.respondTo, `!bidwar addFunds <username> <amount> [reason]`);
-                    return;
-                }
-                if (args.length < 2 || args.length > 3) {
-                    this.chat(messageDetail.respondTo, `!bidwar addFunds was malformed (expected 2-3 arguments, but found ${args.length})`);
-                    return;
-                }
-                const amount = Number.parseInt(args[1]);
-                const username = args[0];
-                let userId: string | undefined = undefined;
-                try {
-                    userId = await this.getUserIdForUsername(username);
-                    if (!userId) {
-                        return;
-                    }
-                } catch (err) {
-                    this.chat(messageDetail.respondTo, `Error retrieving username info for ${username}. Was the command formatted correctly?`);
+            const gameName = args[0].replaceAll("\"", "");
+            await (await this._googleApi).handleBidwarAddEntry(messageDetail.respondTo, gameName);
+            return;
+        }
+        if (tokens[1] === "addFunds") {
+            if (!canManageBidwar) {
+                this.denyCommandPermission(messageDetail, "!bidwar", `!bidwar ${tokens[1]}`, CommandPermission.Broadcaster);
+                return;
+            }
+            const args = tokens.slice(2);
+            if (args.length === 0) {
+                this.chat(messageDetail.respondTo, `!bidwar addFunds <username> <amount> [reason]`);
+                return;
+            }
+            if (args.length < 2 || args.length > 3) {
+                this.chat(messageDetail.respondTo, `!bidwar addFunds was malformed (expected 2-3 arguments, but found ${args.length})`);
+                return;
+            }
+            const amount = Number.parseInt(args[1]);
+            const username = args[0];
+            let userId: string | undefined = undefined;
+            try {
+                userId = await this.getUserIdForUsername(username);
+                if (!userId) {
                     return;
                 }
-                const source = args.length >= 3
-                    ? args[2].replaceAll("\"", "")
-                    : undefined;
-                await (await this._googleApi).handleBidwarAddFunds(messageDetail.respondTo, userId, username, amount, source, new Date());
+            } catch (err) {
+                this.chat(messageDetail.respondTo, `Error retrieving username info for ${username}. Was the command formatted correctly?`);
                 return;
             }
+            const source = args.length >= 3
+                ? args[2].replaceAll("\"", "")
+                : undefined;
+            await (await this._googleApi).handleBidwarAddFunds(messageDetail.respondTo, userId, username, amount, source, new Date());
+            return;
         }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!bidwar"],
-            strictMatch: false,
-            commandId: "!bidwar",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
     }
 
     protected async handleYes(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const userId = await this.getUserIdForUsername(messageDetail.username);
-            if (!userId) {
-                return;
-            }
-            await this.heldTasksByUserId.complete(userId);
+        const userId = await this.getUserIdForUsername(messageDetail.username);
+        if (!userId) {
+            return;
         }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!yes"],
-            strictMatch: true,
-            commandId: "!yes",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        await this.heldTasksByUserId.complete(userId);
     }
 
     protected async handleNo(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
-            const userId = await this.getUserIdForUsername(messageDetail.username);
-            if (!userId) {
-                return;
-            }
-            await this.heldTasksByUserId.cancel(userId);
+        const userId = await this.getUserIdForUsername(messageDetail.username);
+        if (!userId) {
+            return;
         }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!no"],
-            strictMatch: true,
-            commandId: "!no",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+        await this.heldTasksByUserId.cancel(userId);
     }
 
     protected override async handleMessagePowerup(messageDetail: IPrivMessageDetail): Promise<void> {
         const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
+            if (messageDetail.recipient !== this.primaryChannel) { // Powerups in partner channels don't fund our bidwar
+                return;
+            }
             if (this.emoteWasGigantified(messageDetail)) {
                 const userIsBroadcaster = messageDetail.username === this.twitchChannelName;
                 if (userIsBroadcaster) { // Broadcasters Do not spend bits to redeem powerups on their own channel, so we should not add bits to the bidwar bank.
@@ -860,23 +849,8 @@ export class SpudBotTwitch extends TwitchBotBase<ChatWarriorUserDetail> {
         await messageHandler(messageDetail);
     }
 
-    protected async handleUpdateAllUsers(messageDetail: IPrivMessageDetail): Promise<void> {
-        const messageHandler = async (_messageDetail: IPrivMessageDetail): Promise<void> => {
-            const userIsBroadcaster = messageDetail.username === this.twitchChannelName;
-            if (!userIsBroadcaster) {
-                return;
-            }
-            await this.updateAllUsers();
-        }
-        const func = this.getCommandFunc({
-            messageHandler: messageHandler,
-            triggerPhrases: ["!updateAllUsers"],
-            strictMatch: true,
-            commandId: "!updateAllUsers",
-            globalTimeoutSeconds: 0,
-            userTimeoutSeconds: 0,
-        });
-        await func(messageDetail);
+    protected async handleUpdateAllUsers(_messageDetail: IPrivMessageDetail): Promise<void> {
+        await this.updateAllUsers();
     }
 
     // protected handleStatus(messageDetails: IPrivMessageDetail): void {
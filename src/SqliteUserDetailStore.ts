@@ -0,0 +1,110 @@
+import * as Database from "better-sqlite3";
+import * as fs from "fs";
+import { IUserDetail, IUserDetailCollection, UserDetail } from "./IrcBot";
+import { JsonUserDetailStore } from "./JsonUserDetailStore";
+import { IUserDetailStore } from "./UserDetailStore";
+
+interface IUserDetailRow {
+    user_id: string;
+    detail: string;
+}
+
+/**
+ * Keeps each user detail in its own row of an embedded SQLite database, so that saving only writes the users that changed
+ */
+export class SqliteUserDetailStore implements IUserDetailStore {
+    protected static readonly schemaVersion = 1;
+
+    protected readonly _database: Database.Database;
+    protected readonly _upsertStatement: Database.Statement<[string, string, string, string]>;
+    protected readonly _findUserIdStatement: Database.Statement<[string], { user_id: string }>;
+
+    public constructor(protected readonly _filePath: string) {
+        this._database = new Database(_filePath);
+        this._database.pragma("journal_mode = WAL");
+        this._database.exec(`
+            CREATE TABLE IF NOT EXISTS metadata (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS user_details (
+                user_id TEXT PRIMARY KEY,
+                username TEXT NOT NULL,
+                detail TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS user_details_username ON user_details (username COLLATE NOCASE);
+        `);
+        this.setMetadata("schemaVersion", `${SqliteUserDetailStore.schemaVersion}`);
+
+        this._upsertStatement = this._database.prepare(`
+            INSERT INTO user_details (user_id, username, detail, updated_at) VALUES (?, ?, ?, ?)
+            ON CONFLICT (user_id) DO UPDATE SET username = excluded.username, detail = excluded.detail, updated_at = excluded.updated_at
+        `);
+        this._findUserIdStatement = this._database.prepare(`SELECT user_id FROM user_details WHERE username = ? COLLATE NOCASE ORDER BY updated_at DESC LIMIT 1`);
+    }
+
+    public get description(): string {
+        return this._filePath;
+    }
+
+    /**
+     * Imports the user details from a JSON store, unless that has already been done. Does nothing if the JSON file doesn't exist.
+     * @returns the number of user details imported
+     */
+    public migrateFromJsonFile(jsonFilePath: string): number {
+        if (this.getMetadata("migratedFromJson") !== undefined || !fs.existsSync(jsonFilePath)) {
+            return 0;
+        }
+
+        const userDetailByUserId = new JsonUserDetailStore(jsonFilePath).loadAll();
+        this._database.transaction(() => {
+            this.upsertWithoutTransaction(userDetailByUserId);
+            this.setMetadata("migratedFromJson", JSON.stringify({ path: jsonFilePath, date: new Date().toISOString() }));
+        })();
+        return Object.keys(userDetailByUserId).length;
+    }
+
+    public loadAll(): IUserDetailCollection<IUserDetail> {
+        const userDetailByUserId: IUserDetailCollection<IUserDetail> = {};
+        for (const row of this._database.prepare<[], IUserDetailRow>(`SELECT user_id, detail FROM user_details`).iterate()) {
+            userDetailByUserId[row.user_id] = JSON.parse(row.detail);
+        }
+        return userDetailByUserId;
+    }
+
+    public upsert(userDetailsByUserId: IUserDetailCollection<UserDetail>): void {
+        this._database.transaction(() => this.upsertWithoutTransaction(userDetailsByUserId))();
+    }
+
+    public replaceAll(userDetailsByUserId: IUserDetailCollection<UserDetail>): void {
+        this._database.transaction(() => {
+            this._database.prepare(`DELETE FROM user_details`).run();
+            this.upsertWithoutTransaction(userDetailsByUserId);
+        })();
+    }
+
+    protected upsertWithoutTransaction(userDetailsByUserId: IUserDetailCollection<IUserDetail>): void {
+        const updatedAt = new Date().toISOString();
+        for (const userId in userDetailsByUserId) {
+            const userDetail = userDetailsByUserId[userId];
+            this._upsertStatement.run(userId, userDetail.username, JSON.stringify(userDetail), updatedAt);
+        }
+    }
+
+    public findUserIdByUsername(username: string): string | undefined {
+        return this._findUserIdStatement.get(username)?.user_id;
+    }
+
+    public close(): void {
+        this._database.close();
+    }
+
+    protected getMetadata(key: string): string | undefined {
+        return this._database.prepare<[string], { value: string }>(`SELECT value FROM metadata WHERE key = ?`).get(key)?.value;
+    }
+
+    protected setMetadata(key: string, value: string): void {
+        this._database.prepare(`INSERT INTO metadata (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value`).run(key, value);
+    }
+}
@@ -0,0 +1,234 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * The stream a channel is currently broadcasting, as reported by the platform
+ */
+export interface ILiveStreamInfo {
+    id: string;
+    /** ISO 8601 */
+    startedAt: string;
+    gameName?: string;
+}
+
+export interface IUserStreamStats {
+    seconds: number;
+    messages: number;
+}
+
+export interface IGameSegment {
+    gameName: string;
+    /** ISO 8601 */
+    startedAt: string;
+}
+
+export interface IStreamSession {
+    id: string;
+    channel: string;
+    /** ISO 8601 */
+    startedAt: string;
+    /** ISO 8601. Unset while the stream is live. */
+    endedAt?: string;
+    gameSegments: IGameSegment[];
+    statsByUsername: { [username: string]: IUserStreamStats };
+}
+
+export interface IDailyStats {
+    /** YYYY-MM-DD */
+    date: string;
+    statsByChannel: { [channel: string]: { [username: string]: IUserStreamStats } };
+}
+
+/**
+ * Records watch time & chat messages for each stream session & each day, under "sessions/session_<id>.json" & "daily/<YYYY-MM-DD>.json".
+ * Only the files that changed since the last save are written.
+ */
+export class StreamStats {
+    protected readonly _sessionsPath: string;
+    protected readonly _dailyPath: string;
+    /** Oldest first */
+    protected readonly _sessionsByChannel: { [channel: string]: IStreamSession[] } = {};
+    protected readonly _currentSessionByChannel: { [channel: string]: IStreamSession | undefined } = {};
+    protected readonly _dailyStatsByDate: { [date: string]: IDailyStats } = {};
+    protected readonly _unsavedSessions = new Set<IStreamSession>();
+    protected readonly _unsavedDailyStats = new Set<IDailyStats>();
+
+    /**
+     * @param _getTimezone IANA timezone that days are counted in (undefined for the system's timezone)
+     */
+    public constructor(directory: string, protected readonly _getTimezone: () => string | undefined) {
+        this._sessionsPath = path.join(directory, "sessions");
+        this._dailyPath = path.join(directory, "daily");
+        fs.mkdirSync(this._sessionsPath, { recursive: true });
+        fs.mkdirSync(this._dailyPath, { recursive: true });
+
+        for (const fileName of fs.readdirSync(this._sessionsPath).filter(n => n.endsWith(".json"))) {
+            const session: IStreamSession = JSON.parse(fs.readFileSync(path.join(this._sessionsPath, fileName), { encoding: "utf8" }));
+            this._sessionsByChannel[session.channel] = (this._sessionsByChannel[session.channel] ?? []).concat(session);
+        }
+        for (const channel in this._sessionsByChannel) {
+            this._sessionsByChannel[channel].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+        }
+    }
+
+    /**
+     * Starts, continues or ends the channel's current session to match what's live
+     * @param liveStream undefined if the channel is offline
+     */
+    public updateSession(channel: string, liveStream: ILiveStreamInfo | undefined, now: Date = new Date()): void {
+        const currentSession = this._currentSessionByChannel[channel];
+        if (currentSession && currentSession.id !== liveStream?.id) {
+            currentSession.endedAt = now.toISOString();
+            this._unsavedSessions.add(currentSession);
+            this._currentSessionByChannel[channel] = undefined;
+        }
+        if (!liveStream) {
+            return;
+        }
+
+        const session = this._currentSessionByChannel[channel] ?? this.startSession(channel, liveStream);
+        const currentGame = session.gameSegments[session.gameSegments.length - 1]?.gameName;
+        if (liveStream.gameName && liveStream.gameName !== currentGame) {
+            session.gameSegments.push({ gameName: liveStream.gameName, startedAt: now.toISOString() });
+            this._unsavedSessions.add(session);
+        }
+    }
+
+    /**
+     * Resumes the session if it was already recorded (e.g. before a restart, or before a failed status check made the stream look offline)
+     */
+    protected startSession(channel: string, liveStream: ILiveStreamInfo): IStreamSession {
+        const sessions = this._sessionsByChannel[channel] = this._sessionsByChannel[channel] ?? [];
+        let session = sessions.find(n => n.id === liveStream.id);
+        if (session) {
+            session.endedAt = undefined;
+        } else {
+            session = { id: liveStream.id, channel, startedAt: liveStream.startedAt, gameSegments: [], statsByUsername: {} };
+            sessions.push(session);
+        }
+        this._currentSessionByChannel[channel] = session;
+        this._unsavedSessions.add(session);
+        return session;
+    }
+
+    public recordWatchTime(channel: string, usernames: string[], seconds: number, now: Date = new Date()): void {
+        for (const stats of this.getStatsToUpdate(channel, usernames, now)) {
+            stats.seconds += seconds;
+        }
+    }
+
+    public recordChatMessage(channel: string, username: string, now: Date = new Date()): void {
+        for (const stats of this.getStatsToUpdate(channel, [username], now)) {
+            stats.messages++;
+        }
+    }
+
+    /**
+     * @returns each user's stats for the current session (if any) & for the current day
+     */
+    protected getStatsToUpdate(channel: string, usernames: string[], now: Date): IUserStreamStats[] {
+        const dailyStats = this.getDailyStats(this.getDate(now), true) as IDailyStats;
+        const dailyStatsByUsername = dailyStats.statsByChannel[channel] = dailyStats.statsByChannel[channel] ?? {};
+        this._unsavedDailyStats.add(dailyStats);
+        const session = this._currentSessionByChannel[channel];
+        if (session) {
+            this._unsavedSessions.add(session);
+        }
+
+        const stats: IUserStreamStats[] = [];
+        for (const username of usernames.map(n => n.toLowerCase())) {
+            stats.push(dailyStatsByUsername[username] = dailyStatsByUsername[username] ?? { seconds: 0, messages: 0 });
+            if (session) {
+                stats.push(session.statsByUsername[username] = session.statsByUsername[username] ?? { seconds: 0, messages: 0 });
+            }
+        }
+        return stats;
+    }
+
+    public getCurrentSession(channel: string): IStreamSession | undefined {
+        return this._currentSessionByChannel[channel];
+    }
+
+    /**
+     * @returns the current session, or the most recent one if the channel is offline
+     */
+    public getLatestSession(channel: string): IStreamSession | undefined {
+        const sessions = this._sessionsByChannel[channel] ?? [];
+        return this._currentSessionByChannel[channel] ?? sessions[sessions.length - 1];
+    }
+
+    /**
+     * @param date YYYY-MM-DD
+     * @param create start an empty record if there isn't one for this date yet
+     */
+    public getDailyStats(date: string, create: boolean = false): IDailyStats | undefined {
+        if (!this._dailyStatsByDate[date]) {
+            const filePath = path.join(this._dailyPath, `${date}.json`);
+            if (fs.existsSync(filePath)) {
+                this._dailyStatsByDate[date] = JSON.parse(fs.readFileSync(filePath, { encoding: "utf8" }));
+            } else if (create) {
+                this._dailyStatsByDate[date] = { date, statsByChannel: {} };
+            }
+        }
+        return this._dailyStatsByDate[date];
+    }
+
+    /**
+     * @returns YYYY-MM-DD in the configured timezone
+     */
+    public getDate(date: Date): string {
+        return new Intl.DateTimeFormat("en-CA", { timeZone: this._getTimezone(), year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+    }
+
+    /**
+     * A live session the user hasn't shown up to yet doesn't break their streak
+     * @returns the number of consecutive sessions (ending with the latest one) that the user attended
+     */
+    public getStreak(channel: string, username: string): number {
+        const normalizedUsername = username.toLowerCase();
+        const sessions = this._sessionsByChannel[channel] ?? [];
+        let streak = 0;
+        for (let i = sessions.length - 1; i >= 0; i--) {
+            const attended = !!sessions[i].statsByUsername[normalizedUsername];
+            if (attended) {
+                streak++;
+            } else if (sessions[i] !== this._currentSessionByChannel[channel]) {
+                break;
+            }
+        }
+        return streak;
+    }
+
+    /**
+     * @returns the users who sent the most messages in the session, most first
+     */
+    public static getTopChatters(session: IStreamSession, count: number): { username: string, messages: number }[] {
+        return Object.entries(session.statsByUsername)
+            .filter(([, stats]) => stats.messages > 0)
+            .map(([username, stats]) => ({ username, messages: stats.messages }))
+            .sort((a, b) => b.messages - a.messages)
+            .slice(0, count);
+    }
+
+    public save(): void {
+        for (const session of this._unsavedSessions) {
+            StreamStats.writeJsonFile(path.join(this._sessionsPath, `session_${session.id}.json`), session);
+        }
+        this._unsavedSessions.clear();
+
+        const today = this.getDate(new Date());
+        for (const dailyStats of this._unsavedDailyStats) {
+            StreamStats.writeJsonFile(path.join(this._dailyPath, `${dailyStats.date}.json`), dailyStats);
+            if (dailyStats.date !== today) {
+                delete this._dailyStatsByDate[dailyStats.date]; // past days are rarely looked at again
+            }
+        }
+        this._unsavedDailyStats.clear();
+    }
+
+    protected static writeJsonFile(filePath: string, value: unknown): void {
+        const tempFilePath = `${filePath}_temp`;
+        fs.writeFileSync(tempFilePath, JSON.stringify(value));
+        fs.renameSync(tempFilePath, filePath);
+    }
+}
@@ -1,4 +1,7 @@
 import { Future } from "./Future";
+import { Logger } from "./Logger";
+
+const log = Logger.get("tasks");
 
 export class TaskQueue {
     protected _tasks: (() => void)[] = [];
@@ -23,7 +26,7 @@ export class TaskQueue {
             try {
                 await task();
             } catch (err) {
-                console.log(err); // TODO: pretty this up
+                log.error("Error running queued task:", err);
             }
         }
 
@@ -31,4 +34,11 @@ export class TaskQueue {
         this._runningFuture = undefined;
         return;
     }
+
+    /**
+     * Resolves once every queued task (including any added in the meantime) has run
+     */
+    public async waitUntilEmpty(): Promise<void> {
+        await this._runningFuture;
+    }
 }
\ No newline at end of file
@@ -2,24 +2,44 @@ import { randomInt } from "crypto";
 import { clearInterval } from "timers";
 
 export class TimerGroup {
+    protected _offsetTimeoutId?: NodeJS.Timeout;
     protected _intervalId?: NodeJS.Timeout;
+    protected _isRunning = false;
+    /** Chat messages seen in the group's channel since it last posted (or since the timer was started) */
+    protected _chatMessagesSinceLastPost = 0;
+    public get isRunning(): boolean { return this._isRunning; }
 
+    /**
+     * @param channel where the group's commands are posted
+     * @param _minChatMessages a post is skipped unless at least this many chat messages have been seen in the channel since the previous one
+     */
     public constructor(
+        public readonly channel: string,
         protected _commands: (() => Promise<boolean>)[],
         protected readonly _intervalMinutes: number,
         protected readonly _offsetMinutes: number = 0,
-        protected readonly _randomizeCommands: boolean = false) {
+        protected readonly _randomizeCommands: boolean = false,
+        protected readonly _minChatMessages: number = 0) {
     }
 
+    public recordChatMessage(): void {
+        this._chatMessagesSinceLastPost++;
+    }
+
+    /**
+     * Starts posting commands on an interval. Does nothing if the timer is already running.
+     */
     public startTimer(): void {
-        if (this._commands.length === 0) {
+        if (this._commands.length === 0 || this._isRunning) {
             return;
         }
+        this._isRunning = true;
+        this._chatMessagesSinceLastPost = 0;
         
         let currentIndex = 0;
         let intervalCommands = this._commands;
         if (this._randomizeCommands) {
-            const orderedCommands = this._commands;
+            const orderedCommands = [...this._commands];
             const shuffledCommands = [];
             while (orderedCommands.length > 0) {
                 const index = randomInt(orderedCommands.length);
@@ -30,31 +50,56 @@ export class TimerGroup {
         }
         
         const offsetMillis = this._offsetMinutes * 60 * 1000;
-        setTimeout(() => {
+        this._offsetTimeoutId = setTimeout(() => {
+            this._offsetTimeoutId = undefined;
             const intervalMillis = this._intervalMinutes * 60 * 1000;
 
             const startIndex = currentIndex;
             const callNextCommand = () => {
-                const commandWasSuccessfulPromise = intervalCommands[currentIndex](); // Don't send timer messages if stream isn't live / better yet, don't start the timers *until* the stream is live
+                const commandWasSuccessfulPromise = intervalCommands[currentIndex]();
                 currentIndex = currentIndex === intervalCommands.length - 1
                     ? 0
                     : currentIndex + 1;
 
                 commandWasSuccessfulPromise.then((result) => {
-                    if (!result && currentIndex !== startIndex) {
+                    if (result) {
+                        this._chatMessagesSinceLastPost = 0;
+                    } else if (currentIndex !== startIndex) {
                         callNextCommand();
                     }
                 });
             };
+            const callNextCommandIfChatIsActive = () => {
+                if (this._chatMessagesSinceLastPost >= this._minChatMessages) {
+                    callNextCommand();
+                }
+            };
 
-            callNextCommand();
-            this._intervalId = setInterval(callNextCommand, intervalMillis);
+            callNextCommandIfChatIsActive();
+            this._intervalId = setInterval(callNextCommandIfChatIsActive, intervalMillis);
         }, offsetMillis);
     }
 
     public stopTimer(): void {
+        if (this._offsetTimeoutId) {
+            clearTimeout(this._offsetTimeoutId);
+            this._offsetTimeoutId = undefined;
+        }
         if (this._intervalId) {
             clearInterval(this._intervalId);
+            this._intervalId = undefined;
+        }
+        this._isRunning = false;
+    }
+
+    /**
+     * Starts a running timer's schedule over, beginning with its offset. Does nothing if the timer isn't running.
+     */
+    public resetTimer(): void {
+        if (!this._isRunning) {
+            return;
         }
+        this.stopTimer();
+        this.startTimer();
     }
-}
\ No newline at end of file
+}
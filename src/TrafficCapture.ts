@@ -0,0 +1,66 @@
+import * as fs from "fs";
+import { Logger } from "./Logger";
+import { RotatingLogFile } from "./RotatingLogFile";
+
+export type TrafficCaptureSource = "irc" | "eventsub";
+
+export interface ITrafficCaptureEntry {
+    /** ISO 8601 */
+    timestamp: string;
+    source: TrafficCaptureSource;
+    /** An IRC line (without its line ending) or an EventSub websocket message, exactly as it was received */
+    data: string;
+}
+
+export interface ITrafficCaptureConfig {
+    /** Defaults to false */
+    enabled?: boolean;
+    /** A capture is continued in a new file once it reaches this size (defaults to 50 MB) */
+    maxFileBytes?: number;
+    /** Captures older than this are deleted (defaults to 7 days; 0 keeps captures forever) */
+    retentionDays?: number;
+}
+
+/**
+ * Appends the raw IRC lines & EventSub messages the bot receives to JSONL files, so that they can be replayed through the bot later (see Simulation)
+ */
+export class TrafficCapture {
+    public static readonly defaultMaxFileBytes = 50 * 1024 * 1024;
+    public static readonly defaultRetentionDays = 7;
+
+    protected readonly _file: RotatingLogFile;
+
+    public constructor(directory: string, config: ITrafficCaptureConfig) {
+        const log = Logger.get("capture");
+        this._file = new RotatingLogFile(directory, "capture", "jsonl", {
+            maxFileBytes: config.maxFileBytes ?? TrafficCapture.defaultMaxFileBytes,
+            retentionDays: config.retentionDays ?? TrafficCapture.defaultRetentionDays,
+        }, (fileName, err) => err
+            ? log.error(`Error deleting expired capture ${fileName}: ${err}`)
+            : log.info(`Deleted expired capture: ${fileName}`));
+    }
+
+    public record(source: TrafficCaptureSource, data: string): void {
+        const entry: ITrafficCaptureEntry = { timestamp: new Date().toISOString(), source, data };
+        this._file.appendLine(JSON.stringify(entry));
+    }
+
+    /**
+     * @returns the entries in the order they were recorded
+     */
+    public static read(filePath: string): ITrafficCaptureEntry[] {
+        const lines = fs.readFileSync(filePath, { encoding: "utf8" }).split(/\r?\n/);
+        const entries: ITrafficCaptureEntry[] = [];
+        for (let i = 0; i < lines.length; i++) {
+            if (!lines[i].trim()) {
+                continue;
+            }
+            const entry = JSON.parse(lines[i]) as ITrafficCaptureEntry;
+            if (typeof entry.timestamp !== "string" || isNaN(Date.parse(entry.timestamp)) || (entry.source !== "irc" && entry.source !== "eventsub") || typeof entry.data !== "string") {
+                throw new Error(`Line ${i + 1} of ${filePath} isn't a capture entry`);
+            }
+            entries.push(entry);
+        }
+        return entries;
+    }
+}
@@ -1,18 +1,35 @@
 import * as http from "http";
-import * as https from "https";
-import { getPassword, setPassword } from "keytar";
 import * as open from "open";
 import { WebSocket } from "ws";
-import { ConsoleColors } from "./ConsoleColors";
 import { Future } from "./Future";
+import { ChatPriority, IChatRateLimits } from "./ChatSendQueue";
+import { IChatHistoryEntry } from "./ChatHistoryLog";
+import { CommandPermission, IUserPermissions } from "./CommandPermissions";
 import { HeldTaskGroup } from "./HeldTask";
-import { IIrcBotAuxCommandGroupConfig, IIrcBotMiscConfig, IJoinMessageDetail, IPartMessageDetail, IPrivMessageDetail, IrcBotBase } from "./IrcBot";
+import { IClearChatMessageDetail, IClearMessageMessageDetail, IIrcBotAuxCommandGroupConfig, IIrcBotMiscConfig, IJoinMessageDetail, INoticeMessageDetail, IPartMessageDetail, IPrivMessageDetail, IResponseTemplateContext, IRoomStateMessageDetail, IrcBotBase, IUserNoticeMessageDetail, IUserStateMessageDetail } from "./IrcBot";
 import { TaskQueue } from "./TaskQueue";
-import { CreateCustomChannelPointRewardArgs, ITwitchBotAuxCommandConfig, ITwitchBotConfig, ITwitchBotConnectionConfig, SubTierPoints, TwitchAppToken, TwitchBadgeTagKeys, TwitchBannedUser, TwitchBroadcasterSubscriptionsResponse, TwitchChatSettings, TwitchErrorResponse, TwitchEventSub_CreateSubscription, TwitchEventSub_Event_ChannelPointCustomRewardRedemptionAdd, TwitchEventSub_Event_Cheer, TwitchEventSub_Event_Follow, TwitchEventSub_Event_Raid, TwitchEventSub_Event_SubscriptionEnd, TwitchEventSub_Event_SubscriptionGift, TwitchEventSub_Event_SubscriptionMessage, TwitchEventSub_Event_SubscriptionStart, TwitchEventSub_Notification_Payload, TwitchEventSub_Notification_Subscription, TwitchEventSub_Reconnect_Payload, TwitchEventSub_SubscriptionType, TwitchEventSub_Welcome_Payload, TwitchFollowingUser, TwitchGetBannedUsersResponseBody, TwitchGetChannelInfo, TwitchGetChannelInfoResponse, TwitchGetCustomChannelPointRewardInfo, TwitchGetCustomChannelPointRewardResponse, TwitchGetFollowingUsersResponseBody, TwitchGetShieldModeStatusResponseBody, TwitchGetStreamInfo, TwitchGetStreamsResponse, TwitchPrivMessageTagKeys, TwitchSubscriptionDetail, TwitchUpdateChatSettingsRequestBody, TwitchUserAPIInfo, TwitchUserDetail, TwitchUserInfoResponse, TwitchUserToken } from "./TwitchBotTypes";
+import { CreateCustomChannelPointRewardArgs, ITwitchBotAuxCommandConfig, ITwitchBotConfig, ITwitchBotConnectionConfig, SubTierPoints, TwitchAppToken, TwitchBadgeTagKeys, TwitchBannedUser, TwitchAnnouncementNotice, TwitchBroadcasterSubscriptionsResponse, TwitchChatSettings, TwitchClearChatTagKeys, TwitchClearMsgTagKeys, TwitchErrorResponse, TwitchEventSub_CreateSubscription, TwitchEventSub_Event_ChannelPointCustomRewardRedemptionAdd, TwitchEventSub_Event_Cheer, TwitchEventSub_Event_Follow, TwitchEventSub_Event_Raid, TwitchEventSub_Event_SubscriptionEnd, TwitchEventSub_Event_SubscriptionGift, TwitchEventSub_Event_SubscriptionMessage, TwitchEventSub_Event_SubscriptionStart, TwitchEventSub_Notification_Payload, TwitchEventSub_Notification_Subscription, TwitchEventSub_Reconnect_Payload, TwitchEventSub_SubscriptionType, TwitchEventSub_Welcome_Payload, TwitchFollowingUser, TwitchGetBannedUsersResponseBody, TwitchGetChannelInfo, TwitchGetChannelInfoResponse, TwitchGetCustomChannelPointRewardInfo, TwitchGetCustomChannelPointRewardResponse, TwitchGetFollowingUsersResponseBody, TwitchGetShieldModeStatusResponseBody, TwitchGetStreamInfo, TwitchGetStreamsResponse, TwitchNoticeTagKeys, TwitchPrivMessageTagKeys, TwitchRaidNotice, TwitchRoomState, TwitchRoomStateTagKeys, TwitchSubGiftNotice, TwitchSubNotice, TwitchSubscriptionDetail, TwitchUpdateChatSettingsRequestBody, TwitchUserAPIInfo, TwitchUserDetail, TwitchUserInfoResponse, TwitchUserNotice, TwitchUserNoticeTagKeys, TwitchUserToken } from "./TwitchBotTypes";
 import { knownBots } from "./KnownBots";
+import { Utils } from "./Utils";
+import { Logger } from "./Logger";
+import { ILiveStreamInfo } from "./StreamStats";
+import { UserIdCache } from "./UserIdCache";
+
+const ircLog = Logger.get("irc");
+const chatLog = Logger.get("chat");
+const eventSubLog = Logger.get("eventsub");
+const helixLog = Logger.get("helix");
+const authLog = Logger.get("auth");
+const userLog = Logger.get("users");
 
 export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = TwitchUserDetail> extends IrcBotBase<TUserDetail> {
     public static readonly twitchMaxChatMessageLength = 500;
+    public static readonly userIdCacheTtlMinutes = 30;
+    public static readonly defaultHelixUrl = "https://api.twitch.tv/helix";
+    public static readonly defaultAuthUrl = "https://id.twitch.tv/oauth2";
+    public static readonly defaultEventSubUrl = "wss://eventsub.wss.twitch.tv/ws";
+    /** Tags that are kept in the chat history, to help with reviewing incidents later */
+    public static readonly chatHistoryTagKeys: TwitchPrivMessageTagKeys[] = ["badges", "bits", "display-name", "first-msg", "msg-id", "reply-parent-msg-id", "reply-parent-user-login", "returning-chatter", "room-id"];
     protected static readonly _knownConfig: { encoding: "utf8" } = { encoding: "utf8" };
 
     public declare readonly _config: ITwitchBotConfig;
@@ -28,6 +45,12 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
     protected _chatSettingsPriorToRaidOverride?: TwitchChatSettings;
     protected _raidOverrideTimeouts?: { warning: NodeJS.Timeout, final: NodeJS.Timeout };
 
+    /** Broadcaster ids never change, so they're only looked up once per channel */
+    protected readonly _broadcasterIdByChannel: { [channel: string]: string } = {};
+    protected readonly _roomStateByChannel: { [channel: string]: TwitchRoomState } = {};
+    /** Filled from message tags & Helix responses, so that most lookups don't need a Helix request */
+    protected readonly _userIdCache = new UserIdCache(1000 * 60 * TwitchBotBase.userIdCacheTtlMinutes);
+
     protected _currentSubPoints?: number = undefined;
     protected _currentSubCount?: number = undefined;
 
@@ -35,6 +58,23 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         return this._config.misc.maxChatMessageLength ?? TwitchBotBase.twitchMaxChatMessageLength;
     }
 
+    protected get helixUrl(): string {
+        return this._config.connection.twitch.endpoints?.helix ?? TwitchBotBase.defaultHelixUrl;
+    }
+
+    protected get authUrl(): string {
+        return this._config.connection.twitch.endpoints?.auth ?? TwitchBotBase.defaultAuthUrl;
+    }
+
+    protected get eventSubUrl(): string {
+        return this._config.connection.twitch.endpoints?.eventSub ?? TwitchBotBase.defaultEventSubUrl;
+    }
+
+    /** https://dev.twitch.tv/docs/irc/#rate-limits (moderators, VIPs and broadcasters get the higher limit in their channels) */
+    protected override get defaultChatRateLimits(): IChatRateLimits {
+        return { messagesPerWindow: 20, elevatedMessagesPerWindow: 100, windowSeconds: 30 };
+    }
+
     public abstract get powerupGigantifyBitsCost(): number; // TODO: track every type of powerup
 
     public constructor(miscConfig: IIrcBotMiscConfig, connection: ITwitchBotConnectionConfig, auxCommandGroups: IIrcBotAuxCommandGroupConfig[], configDir: string) {
@@ -48,13 +88,18 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
 
     protected override async getUserIdsForUsernames(usernames: string[]): Promise<{ [username: string]: string | undefined }> {
         const userIdsByUsername: { [username: string]: string | undefined } = {}
-        // TODO: Make a cache for this that expires every 30 minutes or so?
-        const userApiInfoByUserId = await this.getUserApiInfo([], usernames);
-
+        const uncachedUsernames: string[] = [];
         for (const username of usernames) {
-            userIdsByUsername[username] = undefined;
+            userIdsByUsername[username] = this._userIdCache.getUserId(username);
+            if (userIdsByUsername[username] === undefined) {
+                uncachedUsernames.push(username);
+            }
         }
-        
+        if (uncachedUsernames.length === 0) {
+            return userIdsByUsername;
+        }
+
+        const userApiInfoByUserId = await this.getUserApiInfo([], uncachedUsernames);
         for (const userIdKey in userApiInfoByUserId) {
             const userApiInfo = userApiInfoByUserId[userIdKey];
             if (userApiInfo) {
@@ -69,7 +114,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         let streamDetails: TwitchGetChannelInfo | undefined = undefined;
         try {
             if (command.autoPostGameWhitelist) {
-                streamDetails = streamDetails ?? await this.getChannelDetails(this.twitchChannelName); // TODO: parameterize this
+                streamDetails = streamDetails ?? await this.getChannelDetails(this.getTwitchChannelName(channel));
                 let gameInWhitelist = false;
                 for (const gameName of command.autoPostGameWhitelist) {
                     if (streamDetails.game_name === gameName) {
@@ -84,7 +129,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             }
 
             if (command.autoPostIfTitleContainsAny) {
-                streamDetails = streamDetails ?? await this.getChannelDetails(this.twitchChannelName); // TODO: parameterize this
+                streamDetails = streamDetails ?? await this.getChannelDetails(this.getTwitchChannelName(channel));
                 let substringMatchesInTitle = false;
                 for (const substring of command.autoPostIfTitleContainsAny) {
                     if (streamDetails.title.includes(substring)) {
@@ -105,13 +150,58 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         return await super.callCommandFunctionFromConfig(command, channel);
     }
 
-    protected override async trackUsersInChat(secondsToAdd: number, force: boolean = false): Promise<void> {
-        const isChannelLive = await this.isChannelLive(this.twitchChannelName);
-        if (!force && !isChannelLive) {
-            return;
+    protected override async getResponseVariable(name: string, args: string[], context: IResponseTemplateContext): Promise<string | undefined> {
+        const twitchChannelName = this.getTwitchChannelName(context.channel);
+        switch (name) {
+            case "uptime": {
+                let streamDetails: TwitchGetStreamInfo;
+                try {
+                    streamDetails = await this.getStreamDetails(twitchChannelName);
+                } catch (err) {
+                    return "offline"; // no stream info is returned for an offline channel
+                }
+                return Utils.getDurationString(Date.now() - new Date(streamDetails.started_at).getTime());
+            }
+            case "game":
+                return (await this.getChannelDetails(twitchChannelName)).game_name;
+            case "title":
+                return (await this.getChannelDetails(twitchChannelName)).title;
+            case "followage": {
+                if (!context.messageDetail) {
+                    return "";
+                }
+                if (IrcBotBase.normalizeChannelName(context.channel) !== this.primaryChannel) {
+                    throw new Error("Follows are only tracked for the primary channel");
+                }
+                const userDetail = await this.getUserDetailWithCache(context.messageDetail.username);
+                const followDate = userDetail.followDates?.[userDetail.followDates.length - 1];
+                if (!userDetail.isFollower || !followDate) {
+                    return "not following";
+                }
+                return Utils.getDurationString(Date.now() - followDate.getTime());
+            }
+            default:
+                return await super.getResponseVariable(name, args, context);
         }
+    }
 
-        super.trackUsersInChat(secondsToAdd);
+    protected override async getLiveStream(channel: string): Promise<ILiveStreamInfo | undefined> {
+        try {
+            const streamDetails = await this.getStreamDetails(this.getTwitchChannelName(channel));
+            return streamDetails.type === "live" ? { id: streamDetails.id, startedAt: streamDetails.started_at, gameName: streamDetails.game_name } : undefined;
+        } catch (err) {
+            return undefined; // no stream info is returned for an offline channel
+        }
+    }
+
+    /** Watch time only counts while the channel is live */
+    protected override async shouldTrackUsersInChannel(channel: string): Promise<boolean> {
+        return this._streamStats.getCurrentSession(channel) !== undefined;
+    }
+
+    /** Timers only post while the channel is live */
+    protected override async shouldRunTimersInChannel(channel: string): Promise<boolean> {
+        return this._streamStats.getCurrentSession(channel) !== undefined;
     }
 
     protected updateUsername(userDetail: TUserDetail, newUsername: string): void {
@@ -121,6 +211,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         userDetail.oldUsernames.push({ username: userDetail.username, lastSeenInChat: userDetail.lastSeenInChat ?? new Date() });
         
         userDetail.username = newUsername;
+        this._userIdCache.set(newUsername, userDetail.id);
     }
 
     protected override async handleJoinMessage(messageDetail: IJoinMessageDetail): Promise<void> {
@@ -130,8 +221,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         try {
             userDetail = await this.getUserDetailWithCache(messageDetail.username);
         } catch (err) {
-            console.log(`Error retrieving userDetail for user: ${messageDetail.username}`);
-            console.log(err);
+            userLog.error(`Error retrieving userDetail for user: ${messageDetail.username}`, err);
             return;
         }
 
@@ -144,9 +234,31 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         super.handlePartMessage(messageDetail);
     }
 
+    /** The primary channel's name on Twitch (i.e. the broadcaster's login) */
     protected get twitchChannelName(): string {
-        const twitchChannelName = this._config.connection.server.channel.slice(1, this._config.connection.server.channel.length); // strip the leading # from the IRC channel name
-        return twitchChannelName;
+        return this.getTwitchChannelName(this.primaryChannel);
+    }
+
+    protected getTwitchChannelName(ircChannel: string): string {
+        return IrcBotBase.normalizeChannelName(ircChannel).slice(1); // strip the leading # from the IRC channel name
+    }
+
+    /**
+     * @param channel IRC channel name, or the broadcaster's login
+     */
+    protected async getBroadcasterIdForChannel(channel: string): Promise<string | undefined> {
+        const ircChannel = IrcBotBase.normalizeChannelName(channel);
+        if (this._broadcasterIdByChannel[ircChannel]) {
+            return this._broadcasterIdByChannel[ircChannel];
+        }
+
+        const broadcasterId = ircChannel === this.primaryChannel
+            ? await this.getTwitchBroadcasterId()
+            : await this.getUserIdForUsername(this.getTwitchChannelName(ircChannel));
+        if (broadcasterId) {
+            this._broadcasterIdByChannel[ircChannel] = broadcasterId;
+        }
+        return broadcasterId;
     }
 
     protected async isChannelLive(channelName: string): Promise<boolean> {
@@ -160,85 +272,57 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
     }
 
     protected async getChannelDetails(channelName: string): Promise<TwitchGetChannelInfo> {
-        const broadcasterId = await this.getUserIdForUsername(channelName);
+        const broadcasterId = await this.getBroadcasterIdForChannel(channelName);
 
         const appToken = await this._twitchAppToken;
-        return new Promise<TwitchGetChannelInfo>((resolve, reject) => {
-    
-            const options = {
-                headers: {
-                    Authorization: `Bearer ${appToken.access_token}`,
-                    "client-id": `${this._config.connection.twitch.oauth.clientId}`,
-                },
-            };
-            const request = https.get(`https://api.twitch.tv/helix/channels?broadcaster_id=${broadcasterId}`, options, (response) => {
-                    response.on("data", (data) => {
-                        const responseJson: TwitchGetChannelInfoResponse | TwitchErrorResponse = JSON.parse(data.toString("utf8"));
-                        const errorResponse = responseJson as TwitchErrorResponse;
-                        if (errorResponse.error) {
-                            reject(`Error retrieving channel info from twitch API: ${errorResponse.status} ${errorResponse.error}: ${errorResponse.message}`);
-                            return;
-                        }
-
-                        const channelInfoResponse = responseJson as TwitchGetChannelInfoResponse;
-                        if (channelInfoResponse.data.length > 1) {
-                            reject("More than one channel info received, expected only one.");
-                            return;
-                        }
-                        if (channelInfoResponse.data.length === 0) {
-                            reject("No channel info received in response, expected one.");
-                            return;
-                        }
-                        resolve(channelInfoResponse.data[0]);
-                        return;
-                    });
-                });
-            request.on("error", (err) => {
-                console.log("Error sending auth token request to twitch:");
-                console.log(err);
-                reject(err);
-            });
+        const response = await fetch(`${this.helixUrl}/channels?broadcaster_id=${broadcasterId}`, {
+            method: `GET`,
+            headers: {
+                Authorization: `Bearer ${appToken.access_token}`,
+                "Client-Id": `${this._config.connection.twitch.oauth.clientId}`,
+            },
         });
+
+        const responseJson: TwitchGetChannelInfoResponse | TwitchErrorResponse = await response.json();
+        const errorResponse = responseJson as TwitchErrorResponse;
+        if (errorResponse.error) {
+            throw `Error retrieving channel info from twitch API: ${errorResponse.status} ${errorResponse.error}: ${errorResponse.message}`;
+        }
+
+        const channelInfoResponse = responseJson as TwitchGetChannelInfoResponse;
+        if (channelInfoResponse.data.length > 1) {
+            throw "More than one channel info received, expected only one.";
+        }
+        if (channelInfoResponse.data.length === 0) {
+            throw "No channel info received in response, expected one.";
+        }
+        return channelInfoResponse.data[0];
     }
 
     protected async getStreamDetails(channelName: string): Promise<TwitchGetStreamInfo> {
         const appToken = await this._twitchAppToken;
-        return new Promise<TwitchGetStreamInfo>((resolve, reject) => {
-    
-            const options = {
-                headers: {
-                    Authorization: `Bearer ${appToken.access_token}`,
-                    "client-id": `${this._config.connection.twitch.oauth.clientId}`,
-                },
-            };
-            const request = https.get(`https://api.twitch.tv/helix/streams?user_login=${channelName}`, options, (response) => {
-                    response.on("data", (data) => {
-                        const responseJson: TwitchGetStreamsResponse | TwitchErrorResponse = JSON.parse(data.toString("utf8"));
-                        const errorResponse = responseJson as TwitchErrorResponse;
-                        if (errorResponse.error) {
-                            reject(`Error retrieving channel info from twitch API: ${errorResponse.status} ${errorResponse.error}: ${errorResponse.message}`);
-                            return;
-                        }
-
-                        const channelInfoResponse = responseJson as TwitchGetStreamsResponse;
-                        if (channelInfoResponse.data.length > 1) {
-                            reject("More than one stream info received, expected only one.");
-                            return;
-                        }
-                        if (channelInfoResponse.data.length === 0) {
-                            reject("No stream info received in response, expected one.");
-                            return;
-                        }
-                        resolve(channelInfoResponse.data[0]);
-                        return;
-                    });
-                });
-            request.on("error", (err) => {
-                console.log("Error sending auth token request to twitch:");
-                console.log(err);
-                reject(err);
-            });
+        const response = await fetch(`${this.helixUrl}/streams?user_login=${channelName}`, {
+            method: `GET`,
+            headers: {
+                Authorization: `Bearer ${appToken.access_token}`,
+                "Client-Id": `${this._config.connection.twitch.oauth.clientId}`,
+            },
         });
+
+        const responseJson: TwitchGetStreamsResponse | TwitchErrorResponse = await response.json();
+        const errorResponse = responseJson as TwitchErrorResponse;
+        if (errorResponse.error) {
+            throw `Error retrieving channel info from twitch API: ${errorResponse.status} ${errorResponse.error}: ${errorResponse.message}`;
+        }
+
+        const streamInfoResponse = responseJson as TwitchGetStreamsResponse;
+        if (streamInfoResponse.data.length > 1) {
+            throw "More than one stream info received, expected only one.";
+        }
+        if (streamInfoResponse.data.length === 0) {
+            throw "No stream info received in response, expected one.";
+        }
+        return streamInfoResponse.data[0];
     }
 
     /**
@@ -261,7 +345,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
     }
 
     protected async _getUserApiInfoFromToken(): Promise<TwitchUserAPIInfo> {
-        const response = await fetch(`https://api.twitch.tv/helix/users`, {
+        const response = await fetch(`${this.helixUrl}/users`, {
             method: `GET`,
             headers: {
                 Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -271,8 +355,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
 
         if (response.status !== 200) {
             const errMessage = `Get Users (from token) request failed: ${response.status} ${response.statusText}`;
-            console.log(errMessage);
-            console.log(await response.json());
+            helixLog.error(errMessage, await response.json());
             throw new Error(errMessage);
         } else {
             // console.log(`Get Users request successful.`);
@@ -282,8 +365,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         const userApiInfoArray = json.data;
         if (userApiInfoArray.length !== 1) {
             const errMessage = `Expected 1 user info object in response which represents the provided accessToken`;
-            console.log(errMessage);
-            console.log(await response.json());
+            helixLog.error(errMessage, await response.json());
             throw new Error(errMessage);
         }
 
@@ -307,7 +389,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             const idQueryParams = userIdsInPage.map(n => `id=${n}`);
             const loginQueryParams = userLoginsInPage.map(n => `login=${n}`);
             const queryParams = [...idQueryParams, ...loginQueryParams].join(`&`);
-            const url = `https://api.twitch.tv/helix/users?${queryParams}`;
+            const url = `${this.helixUrl}/users?${queryParams}`;
 
             const response = await fetch(url, {
                 method: `GET`,
@@ -319,9 +401,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
 
             if (response.status !== 200) {
                 const errMessage = `Get Users request failed: ${response.status} ${response.statusText}`;
-                console.log(errMessage);
-                console.log(await response.json());
-                console.log(`URL: ${url}`);
+                helixLog.error(`${errMessage} (URL: ${url})`, await response.json());
                 throw new Error(errMessage);
             } else {
                 // console.log(`Get Users request successful.`);
@@ -332,6 +412,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             const userApiInfoArray = json.data;
             for (const userApiInfo of userApiInfoArray) {
                 returnVal[userApiInfo.id] = userApiInfo;
+                this._userIdCache.set(userApiInfo.login, userApiInfo.id);
             }
 
             numUserIdsQueried += userIdsInPage.length;
@@ -340,21 +421,248 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         }
 
         const totalUsersQueried = numUserIdsQueried + numUserLoginsQueried;
-        console.log(`Found info for ${numEntriesFound} / ${totalUsersQueried} queried users (${numUserIdsQueried} ids + ${numUserLoginsQueried} logins)`);
+        helixLog.debug(`Found info for ${numEntriesFound} / ${totalUsersQueried} queried users (${numUserIdsQueried} ids + ${numUserLoginsQueried} logins)`);
         return returnVal;
     }
 
-    protected shouldIgnoreTimeoutRestrictions(messageDetail: IPrivMessageDetail): boolean {
-        const tags = this.parseTwitchTags(messageDetail.tags);
+    /** Every chat message carries its sender's user id, so it's cached before any handler needs it */
+    protected override handlePrivMessageResponse(messageDetail: IPrivMessageDetail): Promise<void> {
+        const tags: { [key in TwitchPrivMessageTagKeys]: string } = messageDetail.tags;
+        if (tags["user-id"]) {
+            this._userIdCache.set(messageDetail.username, tags["user-id"]);
+        }
+        return super.handlePrivMessageResponse(messageDetail);
+    }
+
+    protected override handleUserState(messageDetail: IUserStateMessageDetail): void {
+        const tags: { [key in TwitchPrivMessageTagKeys]: string } = messageDetail.tags;
         const badgeVersionsByBadgeName = this.parseTwitchBadges(tags.badges);
+        const isElevated = tags.mod === "1" || !!badgeVersionsByBadgeName.broadcaster || !!badgeVersionsByBadgeName.moderator || !!badgeVersionsByBadgeName.vip;
+        if (isElevated !== this._chatSendQueue.isElevated(messageDetail.channel)) {
+            ircLog.info(`Bot is ${isElevated ? `now` : `no longer`} a moderator/VIP in ${messageDetail.channel}`);
+        }
+        this._chatSendQueue.setElevated(messageDetail.channel, isElevated);
+    }
+
+    protected override getChatHistoryEntry(messageDetail: IPrivMessageDetail): IChatHistoryEntry {
+        const tags: { [key in TwitchPrivMessageTagKeys]: string } = messageDetail.tags;
+        const entry = super.getChatHistoryEntry(messageDetail);
+        if (tags["tmi-sent-ts"]) {
+            entry.timestamp = new Date(parseInt(tags["tmi-sent-ts"])).toISOString();
+        }
+        entry.userId = tags["user-id"];
+        entry.messageId = tags.id;
+        for (const key of TwitchBotBase.chatHistoryTagKeys) {
+            if (tags[key] !== undefined) {
+                entry.tags[key] = tags[key];
+            }
+        }
+        return entry;
+    }
+
+    protected override handleRoomState(messageDetail: IRoomStateMessageDetail): void {
+        const tags: { [key in TwitchRoomStateTagKeys]: string } = messageDetail.tags;
+        const channel = IrcBotBase.normalizeChannelName(messageDetail.channel);
+        const roomState: TwitchRoomState = { ...this._roomStateByChannel[channel] }; // after the first ROOMSTATE, only the settings that changed are sent
+        if (tags["room-id"] !== undefined) {
+            roomState.roomId = tags["room-id"];
+            this._broadcasterIdByChannel[channel] = tags["room-id"];
+        }
+        if (tags["emote-only"] !== undefined) {
+            roomState.emoteOnly = tags["emote-only"] === "1";
+        }
+        if (tags["followers-only"] !== undefined) {
+            roomState.followersOnlyMinutes = parseInt(tags["followers-only"]);
+        }
+        if (tags.r9k !== undefined) {
+            roomState.uniqueChat = tags.r9k === "1";
+        }
+        if (tags.slow !== undefined) {
+            roomState.slowSeconds = parseInt(tags.slow);
+        }
+        if (tags["subs-only"] !== undefined) {
+            roomState.subsOnly = tags["subs-only"] === "1";
+        }
+        this._roomStateByChannel[channel] = roomState;
+        ircLog.info(`Chat settings in ${channel}: slow mode ${roomState.slowSeconds ? `${roomState.slowSeconds}s` : `off`}, follower-only ${roomState.followersOnlyMinutes === undefined || roomState.followersOnlyMinutes < 0 ? `off` : `${roomState.followersOnlyMinutes}m`}, sub-only ${roomState.subsOnly ? `on` : `off`}, emote-only ${roomState.emoteOnly ? `on` : `off`}`);
+    }
+
+    protected override handleNotice(messageDetail: INoticeMessageDetail): void {
+        const tags: { [key in TwitchNoticeTagKeys]: string } = messageDetail.tags;
+        const msgId = tags["msg-id"];
+        if (msgId?.startsWith("msg_")) { // every msg_* notice means that a chat message was rejected (rate limit, slow mode, duplicate, etc.)
+            chatLog.warn(`Chat message to ${messageDetail.target} was not sent (${msgId}): ${messageDetail.message}`);
+            return;
+        }
+        super.handleNotice(messageDetail);
+    }
+
+    protected override async handleClearChat(messageDetail: IClearChatMessageDetail): Promise<void> {
+        const tags: { [key in TwitchClearChatTagKeys]: string } = messageDetail.tags;
+        const channel = IrcBotBase.normalizeChannelName(messageDetail.channel);
+        if (!messageDetail.username) {
+            ircLog.info(`Chat was cleared in ${channel}`);
+            return;
+        }
+        if (tags["ban-duration"] !== undefined) {
+            ircLog.info(`${messageDetail.username} was timed out in ${channel} for ${tags["ban-duration"]} seconds`);
+            return;
+        }
+
+        ircLog.info(`${messageDetail.username} was banned from ${channel}`);
+        if (channel !== this.primaryChannel) { // isBanned only refers to the primary channel
+            return;
+        }
+        try {
+            const userDetail = await this.getUserDetailWithCache(messageDetail.username);
+            userDetail.isBanned = true;
+        } catch (err) {
+            userLog.error(`Error flagging user as banned: ${messageDetail.username}`, err);
+        }
+    }
+
+    protected override handleClearMessage(messageDetail: IClearMessageMessageDetail): void {
+        const tags: { [key in TwitchClearMsgTagKeys]: string } = messageDetail.tags;
+        ircLog.info(`Deleted a message from ${tags.login} in ${messageDetail.channel}: ${messageDetail.message}`);
+    }
+
+    /**
+     * Parses the event described by a USERNOTICE & passes it on to the matching hook
+     */
+    protected override handleUserNotice(messageDetail: IUserNoticeMessageDetail): void {
+        const tags: { [key in TwitchUserNoticeTagKeys]: string } = messageDetail.tags;
+        const notice: TwitchUserNotice = {
+            channel: IrcBotBase.normalizeChannelName(messageDetail.channel),
+            msgId: tags["msg-id"] ?? "",
+            userId: tags["user-id"] ?? "",
+            userLogin: tags.login ?? "",
+            displayName: tags["display-name"] || tags.login || "",
+            systemMessage: tags["system-msg"] ?? "",
+            message: messageDetail.message,
+        };
+        if (notice.userId && notice.userLogin) {
+            this._userIdCache.set(notice.userLogin, notice.userId);
+        }
+
+        switch (notice.msgId) {
+            case "sub":
+            case "resub":
+                this.handleSubNotice({
+                    ...notice,
+                    msgId: notice.msgId,
+                    cumulativeMonths: parseInt(tags["msg-param-cumulative-months"] ?? "1"),
+                    streakMonths: tags["msg-param-should-share-streak"] === "1" ? parseInt(tags["msg-param-streak-months"]) : undefined,
+                    subPlan: tags["msg-param-sub-plan"] ?? "",
+                });
+                return;
+            case "subgift":
+                this.handleSubGiftNotice({
+                    ...notice,
+                    msgId: notice.msgId,
+                    recipientId: tags["msg-param-recipient-id"] ?? "",
+                    recipientLogin: tags["msg-param-recipient-user-name"] ?? "",
+                    recipientDisplayName: tags["msg-param-recipient-display-name"] ?? "",
+                    subPlan: tags["msg-param-sub-plan"] ?? "",
+                    giftMonths: parseInt(tags["msg-param-gift-months"] ?? "1"),
+                });
+                return;
+            case "raid":
+                this.handleRaidNotice({
+                    ...notice,
+                    msgId: notice.msgId,
+                    viewerCount: parseInt(tags["msg-param-viewerCount"] ?? "0"),
+                });
+                return;
+            case "announcement":
+                this.handleAnnouncementNotice({
+                    ...notice,
+                    msgId: notice.msgId,
+                    color: tags["msg-param-color"] ?? "PRIMARY",
+                });
+                return;
+            default:
+                this.handleOtherUserNotice(notice);
+                return;
+        }
+    }
+
+    /**
+     * Subs to the primary channel are also delivered over EventSub, which should be preferred for anything that needs to be reliable
+     */
+    protected handleSubNotice(notice: TwitchSubNotice): void {
+        ircLog.info(`${notice.channel}: ${notice.systemMessage}`);
+    }
+
+    protected handleSubGiftNotice(notice: TwitchSubGiftNotice): void {
+        ircLog.info(`${notice.channel}: ${notice.systemMessage}`);
+    }
+
+    /**
+     * Raids on the primary channel are also delivered over EventSub (see handleRaid)
+     */
+    protected handleRaidNotice(notice: TwitchRaidNotice): void {
+        ircLog.info(`${notice.channel}: ${notice.systemMessage}`);
+    }
+
+    protected handleAnnouncementNotice(notice: TwitchAnnouncementNotice): void {
+        ircLog.info(`${notice.channel} announcement from ${notice.displayName}: ${notice.message}`);
+    }
+
+    /**
+     * Any USERNOTICE without a more specific hook (e.g. submysterygift, bitsbadgetier)
+     */
+    protected handleOtherUserNotice(notice: TwitchUserNotice): void {
+        ircLog.info(`${notice.channel}: ${notice.systemMessage || notice.msgId}`);
+    }
+
+    /**
+     * Only the primary channel's broadcaster gets broadcaster permissions. Partner broadcasters are treated as moderators in their own channels.
+     * Follows are only tracked for the primary channel, so no one counts as a follower elsewhere.
+     */
+    protected override async getUserPermissions(messageDetail: IPrivMessageDetail): Promise<IUserPermissions> {
+        const tags: { [key in TwitchPrivMessageTagKeys]: string } = messageDetail.tags;
+        const badgeVersionsByBadgeName = this.parseTwitchBadges(tags.badges);
+        const subscriberTier = TwitchBotBase.getSubscriberTier(badgeVersionsByBadgeName);
+        if (messageDetail.username === this.twitchChannelName) {
+            return { level: CommandPermission.Broadcaster, subscriberTier };
+        }
         if (badgeVersionsByBadgeName.broadcaster || badgeVersionsByBadgeName.moderator) {
-            return true;
+            return { level: CommandPermission.Moderator, subscriberTier };
+        }
+        if (badgeVersionsByBadgeName.vip) {
+            return { level: CommandPermission.Vip, subscriberTier };
+        }
+        if (subscriberTier > 0) {
+            return { level: CommandPermission.Subscriber, subscriberTier };
+        }
+        if (messageDetail.recipient === this.primaryChannel) {
+            try {
+                const userDetail = await this.getUserDetailWithCache(messageDetail.username);
+                if (userDetail.isFollower) {
+                    return { level: CommandPermission.Follower, subscriberTier };
+                }
+            } catch (err) {
+                userLog.error(`Error retrieving userDetail for user: ${messageDetail.username}`, err);
+            }
         }
-        return false;
+        return { level: CommandPermission.Everyone, subscriberTier };
+    }
+
+    /**
+     * Subscriber badge versions encode the tier in the thousands place (e.g. "3012" is a tier 3 badge for 12 months), with tier 1 badges below 1000
+     * @returns 0 if not subscribed
+     */
+    public static getSubscriberTier(badgeVersionsByBadgeName: { [badgeName in TwitchBadgeTagKeys]: string }): number {
+        const subscriberBadgeVersion = badgeVersionsByBadgeName.subscriber;
+        if (subscriberBadgeVersion === undefined) {
+            return badgeVersionsByBadgeName.founder !== undefined ? 1 : 0; // founders see a founder badge in place of their subscriber badge
+        }
+        const tierDigit = Math.floor((parseInt(subscriberBadgeVersion) || 0) / 1000);
+        return tierDigit >= 2 ? Math.min(tierDigit, 3) : 1;
     }
 
     protected emoteWasGigantified(messageDetail: IPrivMessageDetail): boolean {
-        const tags = this.parseTwitchTags(messageDetail.tags);
+        const tags: { [key in TwitchPrivMessageTagKeys]: string } = messageDetail.tags;
         return tags["msg-id"] === "gigantified-emote-message";
     }
 
@@ -368,7 +676,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         for (const badge of badgesSplit) {
             const badgeSplit = badge.split("/");
             if (badgeSplit.length !== 2) {
-                console.log(`Failed to parse a twitch badge tag: ${badge}. Expected only 2 parts after splitting on '/'`);
+                ircLog.warn(`Failed to parse a twitch badge tag: ${badge}. Expected only 2 parts after splitting on '/'`);
                 continue;
             }
             const badgeName = badgeSplit[0];
@@ -378,68 +686,32 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         return badgeVersionsByBadgeName;
     }
 
-    protected parseTwitchTags(tags?: string): { [key in TwitchPrivMessageTagKeys]: string } {
-        if (!tags) {
-            return {};
+    protected async loadAppAuthToken(): Promise<void> {
+        authLog.info("Loading app auth token...");
+        const url = `${this.authUrl}/token?client_id=${this._config.connection.twitch.oauth.clientId}&client_secret=${this._config.connection.twitch.oauth.clientSecret}&grant_type=client_credentials&scope=${this._config.connection.twitch.oauth.scope}`;
+        let responseJson: TwitchAppToken;
+        try {
+            const response = await fetch(url, { method: "POST" });
+            responseJson = await response.json();
+        } catch (err) {
+            authLog.error("Error sending app auth token request to twitch:", err);
+            throw err;
         }
 
-        const parsedTags: { [key in TwitchPrivMessageTagKeys]: string } = {};
-        const tagsCleaned = tags.startsWith("@")
-            ? tags.slice(1, tags.length)
-            : tags;
-        const tagsStrArr = tagsCleaned.split(";");
-        for (const tag of tagsStrArr) {
-            const splitTag = tag.split("=");
-            if (splitTag.length !== 2) {
-                console.log(`Failed to parse a twitch tag: ${tag}. Expected only 2 parts after splitting on '='`);
-                continue;
-            }
-            const key = splitTag[0];
-            const value = splitTag[1];
-            parsedTags[key] = value;
+        if (!responseJson.access_token) {
+            const message = `Issue retrieving app auth token from twitch: ${JSON.stringify(responseJson)}`
+            authLog.error(message);
+            throw message;
         }
-
-        return parsedTags;
-    }
-
-    protected async loadAppAuthToken(): Promise<void> {
-        console.log("Loading app auth token...");
-        const promise = new Promise<void>((resolve, reject) => {
-            const url = `https://id.twitch.tv/oauth2/token?client_id=${this._config.connection.twitch.oauth.clientId}&client_secret=${this._config.connection.twitch.oauth.clientSecret}&grant_type=client_credentials&scope=${this._config.connection.twitch.oauth.scope}`;
-            const authRequest = https.request(url, {
-                    method: "POST",
-                    port: 443,
-                },
-                (response) => {
-                    response.on("data", (data: Buffer) => {
-                        const responseJson = JSON.parse(data.toString("utf8"));
-                        if (responseJson.access_token) {
-                            this._twitchAppToken.resolve(responseJson);
-                            console.log("Successfully obtained app auth token from twitch.");
-                            resolve();
-                        } else {
-                            const message = `Issue retrieving app auth token from twitch: ${responseJson}`
-                            console.log(message);
-                            reject(message);
-                        }
-                    });
-                });
-
-            authRequest.on("error", (err) => {
-                console.log("Error sending app auth token request to twitch:");
-                console.log(err);
-                reject(err);
-            });
-            authRequest.end();
-            // TODO: Setup token refresh
-        });
-        return promise;
+        this._twitchAppToken.resolve(responseJson);
+        authLog.info("Successfully obtained app auth token from twitch.");
+        // TODO: Setup token refresh
     }
 
     protected abstract getServiceName(): string;
 
     protected async refreshUserToken(refreshToken: string): Promise<TwitchUserToken> {
-        console.log(`Attempting to obtain user access token via refresh token...`);
+        authLog.info(`Attempting to obtain user access token via refresh token...`);
 
         const tokenRequestBodyProps: { [key: string]: string } = {
             client_id: this._config.connection.twitch.oauth.clientId,
@@ -449,7 +721,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         };
         const tokenRequestBody = Object.keys(tokenRequestBodyProps)
             .map(n => encodeURIComponent(n) + '=' + encodeURIComponent(tokenRequestBodyProps[n])).join('&');
-        const tokenResponse = await fetch(`https://id.twitch.tv/oauth2/token`, {
+        const tokenResponse = await fetch(`${this.authUrl}/token`, {
             method: "POST",
             headers: {
                 "Content-Type": "application/x-www-form-urlencoded",
@@ -457,15 +729,20 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             body: tokenRequestBody,
         });
         const tokenResponseJson: any = await tokenResponse.json();
-        console.log(`User access token successfully obtained via refresh token`);
-        // console.log(tokenResponseJson); // TODO: log this at Trace level
+        authLog.info(`User access token successfully obtained via refresh token`);
+        authLog.trace(tokenResponseJson);
         return tokenResponseJson;
     }
 
+    /** keytar is a native module, so it's only loaded once a stored token is actually needed (simulations never need one) */
+    protected static async loadKeytar(): Promise<typeof import("keytar")> {
+        return await import("keytar");
+    }
+
     protected storeUserTokenResponse(tokenResponse: TwitchUserToken): void {
-        setPassword(this.getServiceName(), this._userAccessTokenAccountName, JSON.stringify(tokenResponse));
+        TwitchBotBase.loadKeytar().then((keytar) => keytar.setPassword(this.getServiceName(), this._userAccessTokenAccountName, JSON.stringify(tokenResponse)));
         this._userAccessToken.resolve(tokenResponse);
-        console.log(`Successfully stored user token response`);
+        authLog.info(`Successfully stored user token response`);
     }
 
     protected async loadUserToken(): Promise<void> {
@@ -473,10 +750,10 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         // Keep alphabetical for easier comparison against returned scope in refresh token
         const scope = `bits:read channel:manage:redemptions channel:read:subscriptions moderator:manage:banned_users moderator:manage:chat_settings moderator:manage:shield_mode moderator:read:followers user:read:follows`;
 
-        const storedTokenString = await getPassword(this.getServiceName(), this._userAccessTokenAccountName);
+        const storedTokenString = await (await TwitchBotBase.loadKeytar()).getPassword(this.getServiceName(), this._userAccessTokenAccountName);
         if (storedTokenString) {
-            console.log(`Stored user access token found.`);
-            // console.log(storedTokenString); // TODO: log this at Trace level
+            authLog.info(`Stored user access token found.`);
+            authLog.trace(storedTokenString);
             const storedToken: TwitchUserToken = JSON.parse(storedTokenString);
             try {
                 const refreshTokenResponse = await this.refreshUserToken(storedToken.refresh_token);
@@ -486,17 +763,17 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
                 this.storeUserTokenResponse(refreshTokenResponse);
                 return;
             } catch (err) {
-                console.log(`Token Refresh failed: ${err}`);
+                authLog.warn(`Token Refresh failed: ${err}`);
             }
         }
         
-        console.log(`Obtaining user access token from scratch...`);
+        authLog.info(`Obtaining user access token from scratch...`);
         const redirectUrl = `http://localhost:3000`;
         const handleRequest = async (httpRequest: http.IncomingMessage, _httpResponse: http.ServerResponse) => {
             if (!httpRequest.url) {
                 return;
             }
-            console.log(`Incoming Request: ${httpRequest.url}`);
+            authLog.debug(`Incoming Request: ${httpRequest.url}`);
             const incomingUrl = new URL(`${redirectUrl}${httpRequest.url}`);
             const authCode = incomingUrl.searchParams.get("code");
             if (!authCode) {
@@ -512,7 +789,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             }
             const tokenRequestBody = Object.keys(tokenRequestBodyProps)
                 .map(n => encodeURIComponent(n) + '=' + encodeURIComponent(tokenRequestBodyProps[n])).join('&');
-            const tokenResponse = await fetch(`https://id.twitch.tv/oauth2/token`, {
+            const tokenResponse = await fetch(`${this.authUrl}/token`, {
                 method: "POST",
                 headers: {
                     "Content-Type": "application/x-www-form-urlencoded",
@@ -522,8 +799,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             const tokenResponseJson: any = await tokenResponse.json();
             if (tokenResponse.status !== 200) {
                 const errMessage = `Failed to exchange authorization code for access token: ${tokenResponse.status}`;
-                console.log(errMessage);
-                console.log(tokenResponseJson);
+                authLog.error(errMessage, tokenResponseJson);
                 throw new Error(errMessage);
             }
             this.storeUserTokenResponse(tokenResponseJson);
@@ -532,24 +808,20 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         server.listen(new URL(redirectUrl).port);
 
         const redirect_uri = redirectUrl;
-        const url = `https://id.twitch.tv/oauth2/authorize?client_id=${clientId}&redirect_uri=${redirect_uri}&response_type=code&scope=${scope}&force_verify=true`;
+        const url = `${this.authUrl}/authorize?client_id=${clientId}&redirect_uri=${redirect_uri}&response_type=code&scope=${scope}&force_verify=true`;
         await open(url);
     }
 
     public override async _startup(): Promise<void> {
+        await this.loadAppAuthToken(); // needed as soon as chat is connected, to check whether the channel is live
         await super._startup();
 
-        await this.loadAppAuthToken();
         await this.loadUserToken();
 
         const existingSubscriptions = await this.getEventSubSubscriptions();
         await this.deleteUnusedEventSubSubscriptions(existingSubscriptions);
 
-        this._twitchEventSub = this.createTwitchEventSubWebsocket("wss://eventsub.wss.twitch.tv/ws");
-
-        this.sendRaw("CAP REQ :twitch.tv/membership"); // Request capability to receive JOIN and PART events from users connecting to channels
-        this.sendRaw("CAP REQ :twitch.tv/commands"); // Request capability to send & receive twitch-specific commands (timeouts, chat clears, host notifications, subscriptions, etc.)
-        this.sendRaw("CAP REQ :twitch.tv/tags"); // Request capability to augment certain IRC messages with tag metadata
+        this._twitchEventSub = this.createTwitchEventSubWebsocket(this.eventSubUrl);
 
         const activeSubInfo = await this.getActiveBroadcasterSubcriptions();
         this.updateSubscribedUsers(activeSubInfo.subDetails);
@@ -557,12 +829,21 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         this._currentSubPoints = activeSubInfo.subPoints;
     }
 
+    protected override getSessionCommands(): string[] {
+        return [
+            "CAP REQ :twitch.tv/membership", // Request capability to receive JOIN and PART events from users connecting to channels
+            "CAP REQ :twitch.tv/commands", // Request capability to send & receive twitch-specific commands (timeouts, chat clears, host notifications, subscriptions, etc.)
+            "CAP REQ :twitch.tv/tags", // Request capability to augment certain IRC messages with tag metadata
+            ...super.getSessionCommands(),
+        ];
+    }
+
     protected abstract getTwitchBroadcasterId(): Promise<string>;
 
     protected abstract getTwitchEventSubTopics(): Promise<TwitchEventSub_SubscriptionType[]>;
 
     protected async onEventSubOpen(): Promise<void> {
-        console.log(`  ${ConsoleColors.FgYellow}${"Opened EventSub"}${ConsoleColors.Reset}\n`);
+        eventSubLog.info("Opened EventSub");
     }
 
     protected createTwitchEventSubWebsocket(url: string): WebSocket {
@@ -570,7 +851,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         twitchEventSub.on("error", (err) => this.onError(err));
         twitchEventSub.on("open", async () => await this.onEventSubOpen());
         twitchEventSub.on("message", (msg) => this.onEventSubMessage(msg));
-        twitchEventSub.on("close", (code, reason) => console.log(`EventSub Closed! Code: ${code} Reason: ${reason}`));
+        twitchEventSub.on("close", (code, reason) => eventSubLog.warn(`EventSub closed (code ${code}): ${reason}`));
 
         return twitchEventSub;
     }
@@ -578,9 +859,11 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
     protected async onEventSubMessage(msg: any): Promise<void> {
         const messageJson: any = JSON.parse(msg.toString());
         if (messageJson.metadata.message_type === "session_keepalive") {
-            return; // TODO: attempt reconnection when these don't appear as expected, but don't log them above Trace level
+            eventSubLog.trace("Keepalive received");
+            return; // TODO: attempt reconnection when these don't appear as expected
         }
-        console.log(`  ${ConsoleColors.FgYellow}EventSub Message Received! ${msg}${ConsoleColors.Reset}\n`);
+        this.recordTraffic("eventsub", msg.toString());
+        eventSubLog.debug(`EventSub Message Received! ${msg}`);
         if (messageJson.metadata.message_type === "session_welcome") {
             await this.handleEventSubWelcome(messageJson.payload);
         } else if (messageJson.metadata.message_type === "session_reconnect") {
@@ -595,7 +878,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             this._twitchEventSub.close();
             this._twitchEventSub = this._twitchEventSubTemp;
             this._twitchEventSubTemp = undefined;
-            console.log(`  ${ConsoleColors.FgYellow}Reconnected to new EventSub websocket!${ConsoleColors.Reset}\n`);
+            eventSubLog.info(`Reconnected to new EventSub websocket!`);
             return;
         }
 
@@ -613,7 +896,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
                 }
             };
             // Websockets are read-only (aside from PONG responses), so subscriptions are set up via HTTP instead (just like webhooks)
-            const subscriptionResponse = await fetch(`https://api.twitch.tv/helix/eventsub/subscriptions`, {
+            const subscriptionResponse = await fetch(`${this.helixUrl}/eventsub/subscriptions`, {
                 method: `POST`,
                 headers: {
                     Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -625,12 +908,10 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             if (subscriptionResponse.status === 202) {
                 numNewSubscriptions++;
             } else {
-                console.log(`Error subscribing to specific EventSub (${subscriptionResponse.status} response):`);
-                console.log(topic);
-                console.log(await subscriptionResponse.json());
+                eventSubLog.error(`Error subscribing to specific EventSub (${subscriptionResponse.status} response):`, topic, await subscriptionResponse.json());
             }
         }
-        console.log(`  ${ConsoleColors.FgYellow}Subscribed to ${numNewSubscriptions}/${numAttemptedSubscriptions} EventSub Topics!${ConsoleColors.Reset}\n`);
+        eventSubLog.info(`Subscribed to ${numNewSubscriptions}/${numAttemptedSubscriptions} EventSub Topics!`);
     }
 
     protected async handleEventSubReconnect(payload: TwitchEventSub_Reconnect_Payload): Promise<void> {
@@ -667,10 +948,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
                 
             }
         } catch (err) {
-            console.log("Error processing eventSub notification: ");
-            console.log(err);
-            console.error("Error processing eventSub notification: "); // TODO: actually use this output stream
-            console.error(err);
+            eventSubLog.error("Error processing eventSub notification:", err);
         }
     }
 
@@ -697,8 +975,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         try {
             userDetail = await this.getUserDetailWithCache(event.user_login);
         } catch (err) {
-            console.log(`Error retrieving userDetail for user: ${event.user_login}`);
-            console.log(err);
+            userLog.error(`Error retrieving userDetail for user: ${event.user_login}`, err);
             return;
         }
 
@@ -726,8 +1003,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         try {
             userDetail = await this.getUserDetailWithCache(userLogin);
         } catch (err) {
-            console.log(`Error retrieving userDetail for user: ${userLogin}`);
-            console.log(err);
+            userLog.error(`Error retrieving userDetail for user: ${userLogin}`, err);
             return;
         }
 
@@ -746,6 +1022,9 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
 
     protected async handleMessagePowerup(messageDetail: IPrivMessageDetail): Promise<void> {
         const messageHandler = async (messageDetail: IPrivMessageDetail): Promise<void> => {
+            if (messageDetail.recipient !== this.primaryChannel) { // Bits spent in other channels go to those broadcasters
+                return;
+            }
             if (this.emoteWasGigantified(messageDetail)) {
                 const userIsBroadcaster = messageDetail.username === this.twitchChannelName;
                 if (userIsBroadcaster) { // Broadcasters Do not spend bits to redeem powerups on their own channel, so we should not add bits to the total
@@ -761,7 +1040,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
 
     protected async isShieldModeEnabled(): Promise<boolean> {
         const broadcasterId = await this.getTwitchBroadcasterId();
-        const response = await fetch(`https://api.twitch.tv/helix/moderation/shield_mode?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, {
+        const response = await fetch(`${this.helixUrl}/moderation/shield_mode?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, {
             method: `GET`,
             headers: {
                 Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -770,10 +1049,9 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         });
 
         if (response.status !== 200) {
-            console.log(`Get Shield Mode request failed: ${response.status} ${response.statusText}`);
-            console.log(await response.json());
+            helixLog.error(`Get Shield Mode request failed: ${response.status} ${response.statusText}`, await response.json());
         } else {
-            console.log(`Get Shield Mode request successful.`);
+            helixLog.debug(`Get Shield Mode request successful.`);
         }
 
         const json: TwitchGetShieldModeStatusResponseBody = await response.json();
@@ -785,7 +1063,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         const body = {
             is_active: enable,
         };
-        const response = await fetch(`https://api.twitch.tv/helix/moderation/shield_mode?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, {
+        const response = await fetch(`${this.helixUrl}/moderation/shield_mode?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, {
             method: `PUT`,
             headers: {
                 Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -795,17 +1073,16 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         });
 
         if (response.status !== 200) {
-            console.log(`Update Shield Mode request failed: ${response.status} ${response.statusText}`);
-            console.log(await response.json());
+            helixLog.error(`Update Shield Mode request failed: ${response.status} ${response.statusText}`, await response.json());
         } else {
-            console.log(`Update Shield Mode request successful.`);
+            helixLog.debug(`Update Shield Mode request successful.`);
         }
         return;
     }
 
     protected async getChatSettings(): Promise<TwitchChatSettings> {
         const broadcasterId = await this.getTwitchBroadcasterId();
-        const response = await fetch(`https://api.twitch.tv/helix/chat/settings?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, {
+        const response = await fetch(`${this.helixUrl}/chat/settings?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, {
             method: `GET`,
             headers: {
                 Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -814,10 +1091,9 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         });
 
         if (response.status !== 200) {
-            console.log(`Get Chat Settings request failed: ${response.status} ${response.statusText}`);
-            console.log(await response.json());
+            helixLog.error(`Get Chat Settings request failed: ${response.status} ${response.statusText}`, await response.json());
         } else {
-            console.log(`Get Chat Settings request successful.`);
+            helixLog.debug(`Get Chat Settings request successful.`);
         }
 
         const getChatSettingsJson = await response.json();
@@ -826,7 +1102,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
 
     protected async updateChatSettings(settings: TwitchUpdateChatSettingsRequestBody): Promise<void> {
         const broadcasterId = await this.getTwitchBroadcasterId();
-        const response = await fetch(`https://api.twitch.tv/helix/chat/settings?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, {
+        const response = await fetch(`${this.helixUrl}/chat/settings?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, {
             method: `PATCH`,
             headers: {
                 Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -837,10 +1113,9 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         });
 
         if (response.status !== 200) {
-            console.log(`Update Chat Settings request failed: ${response.status} ${response.statusText}`);
-            console.log(await response.json());
+            helixLog.error(`Update Chat Settings request failed: ${response.status} ${response.statusText}`, await response.json());
         } else {
-            console.log(`Update Chat Settings request successful.`);
+            helixLog.debug(`Update Chat Settings request successful.`);
         }
 
         return;
@@ -860,13 +1135,13 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
                 return;
             }
             const minutesUntilRevert = (overrideMillis - warningMillis) / 1000 / 60;
-            this.chat(chatRespondTo, `Followers-only mode will be re-enabled in ${minutesUntilRevert} minutes. Consider following the channel if you'd like to keep chatting! eeveeHeart`);
+            this.chat(chatRespondTo, `Followers-only mode will be re-enabled in ${minutesUntilRevert} minutes. Consider following the channel if you'd like to keep chatting! eeveeHeart`, false, ChatPriority.High);
         }, warningMillis);
 
         if (this._raidOverrideTimeouts !== undefined) {
             clearTimeout(this._raidOverrideTimeouts.warning);
             clearTimeout(this._raidOverrideTimeouts.final);
-            console.log(`Timeouts cleared.`);
+            helixLog.info(`Timeouts cleared.`);
         }
         this._raidOverrideTimeouts = {
             final: finalTimeout,
@@ -874,6 +1149,27 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         };
     }
 
+    /** Chat restrictions relaxed for a raid would otherwise stay relaxed, since their revert timeout dies with the process */
+    protected override async restoreTemporarySettings(): Promise<void> {
+        await super.restoreTemporarySettings();
+        if (this._raidOverrideTimeouts !== undefined) {
+            clearTimeout(this._raidOverrideTimeouts.warning);
+            clearTimeout(this._raidOverrideTimeouts.final);
+            this._raidOverrideTimeouts = undefined;
+        }
+        if (this._chatSettingsPriorToRaidOverride !== undefined) {
+            await this.updateChatSettings(this._chatSettingsPriorToRaidOverride);
+            this._chatSettingsPriorToRaidOverride = undefined;
+            helixLog.info(`Restored the chat settings from before the raid`);
+        }
+    }
+
+    protected override async closeConnections(): Promise<void> {
+        this._twitchEventSubTemp?.close();
+        this._twitchEventSub?.close();
+        await super.closeConnections();
+    }
+
     protected async temporarilyDisableChatRestrictions(future: Future<void>, broadcasterLogin: string, broadcasterName: string): Promise<void> {
         const shieldModeEnabled: boolean = await this.isShieldModeEnabled();
         if (shieldModeEnabled) { // Do not interfere at all if shield mode is enabled, because editing settings will edit shield mode
@@ -908,9 +1204,9 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             await this.updateChatSettings({
                 follower_mode: false,
             });
-            this.chat(chatRespondTo, `Raid incoming! Chat restrictions have been temporarily disabled so that raiders can speak freely.`);
+            this.chat(chatRespondTo, `Raid incoming! Chat restrictions have been temporarily disabled so that raiders can speak freely.`, false, ChatPriority.High);
         } catch (err) {
-            this.chat(chatRespondTo, `Error disabling chat restrictions in response to incoming raid. @${broadcasterName}, could you please disable them manually?`);
+            this.chat(chatRespondTo, `Error disabling chat restrictions in response to incoming raid. @${broadcasterName}, could you please disable them manually?`, false, ChatPriority.High);
             future.reject(err);
             return;
         }
@@ -946,8 +1242,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         try {
             userDetail = await this.getUserDetailWithCache(event.user_login);
         } catch (err) {
-            console.log(`Error retrieving userDetail for user: ${event.user_login}`);
-            console.log(err);
+            userLog.error(`Error retrieving userDetail for user: ${event.user_login}`, err);
             return;
         }
 
@@ -959,7 +1254,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
     }
 
     protected async getEventSubSubscriptions(): Promise<any[]> {
-        const response = await fetch(`https://api.twitch.tv/helix/eventsub/subscriptions`, {
+        const response = await fetch(`${this.helixUrl}/eventsub/subscriptions`, {
             method: `GET`,
             headers: {
                 Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -968,7 +1263,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             },
         });
         const json = await response.json();
-        console.log(`  ${ConsoleColors.FgYellow}Current number of EventSub Subscriptions: ${json.total}${ConsoleColors.Reset}\n`);
+        eventSubLog.info(`Current number of EventSub Subscriptions: ${json.total}`);
         return json.data;
     }
 
@@ -976,7 +1271,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         let numDeleted = 0;
         for (const sub of subs) { // TODO: fix subs not iterable error
             if (sub.status === "websocket_failed_ping_pong" || "websocket_disconnected") {
-                const deleteResponse = await fetch(`https://api.twitch.tv/helix/eventsub/subscriptions?id=${sub.id}`, {
+                const deleteResponse = await fetch(`${this.helixUrl}/eventsub/subscriptions?id=${sub.id}`, {
                     method: `DELETE`,
                     headers: {
                         Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -989,7 +1284,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
                 }
             }
         }
-        console.log(`  ${ConsoleColors.FgYellow}Deleted ${numDeleted} useless subscriptions${ConsoleColors.Reset}\n`);
+        eventSubLog.info(`Deleted ${numDeleted} useless subscriptions`);
     }
 
     protected async getActiveBroadcasterSubcriptions(): Promise<{ subPoints: number, subCount: number, subDetails: TwitchSubscriptionDetail[] }> {
@@ -1003,7 +1298,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         let subCount = 0;
         
         while (true) {
-            const response = await fetch(`https://api.twitch.tv/helix/subscriptions?broadcaster_id=${broadcasterId}&first=${pageSize}${!!cursor ? `&after=${cursor}` : ``}`, {
+            const response = await fetch(`${this.helixUrl}/subscriptions?broadcaster_id=${broadcasterId}&first=${pageSize}${!!cursor ? `&after=${cursor}` : ``}`, {
                 method: `GET`,
                 headers: {
                     Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -1012,9 +1307,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             });
     
             if (response.status !== 200) {
-                console.log(`Get Active Broadcaster Subscriptions request failed: ${response.status} ${response.statusText}`);
-                const json = await response.json();
-                console.log(json);
+                helixLog.error(`Get Active Broadcaster Subscriptions request failed: ${response.status} ${response.statusText}`, await response.json());
                 throw new Error("Get Active Broadcaster Subscriptions request failed");
             }
     
@@ -1029,7 +1322,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             cursor = json.pagination.cursor;
         }
         
-        console.log(`  ${ConsoleColors.FgYellow}Current number of subs/subpoints: ${subCount}/${subPoints}${ConsoleColors.Reset}\n`);
+        helixLog.info(`Current number of subs/subpoints: ${subCount}/${subPoints}`);
         return {
             subCount,
             subPoints,
@@ -1046,8 +1339,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             try {
                 userDetail = await userDetailPromisesByUsername[sub.user_login];
             } catch (err) {
-                console.log(`Error updating subscribed user: ${sub.user_login}`);
-                console.log(err);
+                userLog.error(`Error updating subscribed user: ${sub.user_login}`, err);
                 continue;
             }
             userDetail.subscriptionTier = sub.tier;
@@ -1066,7 +1358,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
     public async ban(channelUsername: string, usernameToBan: string): Promise<void> {
         const userAccessToken = await this._userAccessToken;
 
-        console.log(`Banning ${usernameToBan} in channel #${channelUsername}`);
+        helixLog.info(`Banning ${usernameToBan} in channel #${channelUsername}`);
         const broadcasterId = await this.getUserIdForUsername(channelUsername);
         const userIdToBan = await this.getUserIdForUsername(usernameToBan);
         const body = {
@@ -1075,7 +1367,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             }
         }
 
-        const response = await fetch(`https://api.twitch.tv/helix/moderation/bans?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, { // TODO: sign in with the chatbot account for this
+        const response = await fetch(`${this.helixUrl}/moderation/bans?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, { // TODO: sign in with the chatbot account for this
             method: `POST`,
             headers: {
                 Authorization: `Bearer ${userAccessToken.access_token}`,
@@ -1087,17 +1379,16 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
 
         if (response.status !== 200) {
             const badResponseJson: any = await response.json();
-            console.log(`Ban request failed: ${response.status} ${response.statusText}`);
-            console.log(badResponseJson);
+            helixLog.error(`Ban request failed: ${response.status} ${response.statusText}`, badResponseJson);
         } else {
-            console.log(`Ban against ${usernameToBan} (id: ${userIdToBan}) Successful.`);
+            helixLog.info(`Ban against ${usernameToBan} (id: ${userIdToBan}) Successful.`);
         }
     }
 
     public async timeout(channelUsername: string, usernameToTimeout: string, durationSeconds: number): Promise<void> {
         const userAccessToken = await this._userAccessToken;
 
-        console.log(`Timing out ${usernameToTimeout} in channel ${channelUsername}`)
+        helixLog.info(`Timing out ${usernameToTimeout} in channel ${channelUsername}`);
         const broadcasterId = await this.getUserIdForUsername(channelUsername);
         const userIdToBan = await this.getUserIdForUsername(usernameToTimeout);
         const body = {
@@ -1107,7 +1398,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             }
         }
 
-        const response = await fetch(`https://api.twitch.tv/helix/moderation/bans?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, { // TODO: sign in with the chatbot account for this
+        const response = await fetch(`${this.helixUrl}/moderation/bans?broadcaster_id=${broadcasterId}&moderator_id=${broadcasterId}`, { // TODO: sign in with the chatbot account for this
             method: `POST`,
             headers: {
                 Authorization: `Bearer ${userAccessToken.access_token}`,
@@ -1118,15 +1409,14 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         });
         if (response.status !== 200) {
             const badResponseJson: any = await response.json();
-            console.log(`Timeout request failed: ${response.status} ${response.statusText}`);
-            console.log(badResponseJson);
+            helixLog.error(`Timeout request failed: ${response.status} ${response.statusText}`, badResponseJson);
         } else {
-            console.log(`Timeout Successful.`);
+            helixLog.info(`Timeout Successful.`);
         }
     }
 
     public async getChannelPointRewards(): Promise<TwitchGetCustomChannelPointRewardInfo[]> {
-        const response = await fetch(`https://api.twitch.tv/helix/channel_points/custom_rewards?broadcaster_id=${await this.getTwitchBroadcasterId()}`, {
+        const response = await fetch(`${this.helixUrl}/channel_points/custom_rewards?broadcaster_id=${await this.getTwitchBroadcasterId()}`, {
             method: "GET",
             headers: {
                 Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -1143,7 +1433,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
     }
 
     public async createChannelPointReward(body: CreateCustomChannelPointRewardArgs): Promise<void> {
-        const response = await fetch(`https://api.twitch.tv/helix/channel_points/custom_rewards?broadcaster_id=${await this.getTwitchBroadcasterId()}`, {
+        const response = await fetch(`${this.helixUrl}/channel_points/custom_rewards?broadcaster_id=${await this.getTwitchBroadcasterId()}`, {
             method: "POST",
             headers: {
                 Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -1163,7 +1453,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         const body = {
             status: fulfill ? "FULFILLED" : "CANCELED",
         };
-        const response = await fetch(`https://api.twitch.tv/helix/channel_points/custom_rewards/redemptions?broadcaster_id=${broadcaster_id}&reward_id=${reward_id}&id=${redemption_id}`, {
+        const response = await fetch(`${this.helixUrl}/channel_points/custom_rewards/redemptions?broadcaster_id=${broadcaster_id}&reward_id=${reward_id}&id=${redemption_id}`, {
             method: `PATCH`,
             headers: {
                 Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -1188,7 +1478,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         const pageSize = 100;
 
         while (true) {
-            const response = await fetch(`https://api.twitch.tv/helix/moderation/banned?broadcaster_id=${broadcasterId}&first=${pageSize}${!!cursor ? `&after=${cursor}` : ``}`, {
+            const response = await fetch(`${this.helixUrl}/moderation/banned?broadcaster_id=${broadcasterId}&first=${pageSize}${!!cursor ? `&after=${cursor}` : ``}`, {
                 method: `GET`,
                 headers: {
                     Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -1197,8 +1487,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             });
     
             if (response.status !== 200) {
-                console.log(`Get Banned Users request failed: ${response.status} ${response.statusText}`);
-                console.log(await response.json());
+                helixLog.error(`Get Banned Users request failed: ${response.status} ${response.statusText}`, await response.json());
                 throw new Error("Get Banned Users request failed");
             }
     
@@ -1211,7 +1500,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             cursor = json.pagination.cursor;
         }
 
-        console.log(`Get Banned Users successful (${bannedUsers.length} users)`);
+        helixLog.info(`Get Banned Users successful (${bannedUsers.length} users)`);
         return bannedUsers;
     }
 
@@ -1221,7 +1510,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         let cursor: string | undefined = undefined
 
         while (true) {
-            const response = await fetch(`https://api.twitch.tv/helix/channels/followers?broadcaster_id=${broadcasterId}&first=${100}${!!cursor ? `&after=${cursor}` : ``}`, {
+            const response = await fetch(`${this.helixUrl}/channels/followers?broadcaster_id=${broadcasterId}&first=${100}${!!cursor ? `&after=${cursor}` : ``}`, {
                 method: `GET`,
                 headers: {
                     Authorization: `Bearer ${(await this._userAccessToken).access_token}`,
@@ -1230,9 +1519,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             });
     
             if (response.status !== 200) {
-                console.log(`Get Following Users request failed: ${response.status} ${response.statusText}`);
-                const json = await response.json();
-                console.log(json);
+                helixLog.error(`Get Following Users request failed: ${response.status} ${response.statusText}`, await response.json());
                 throw new Error("Get Following Users request failed");
             }
     
@@ -1245,7 +1532,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             cursor = json.pagination.cursor;
         }
 
-        console.log(`Get Following Users successful (${followingUsers.length} users)`);
+        helixLog.info(`Get Following Users successful (${followingUsers.length} users)`);
         return followingUsers;
     }
 
@@ -1258,8 +1545,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
             try {
                 userDetail = await userDetailPromisesByUsername[followingUser.user_login];
             } catch (err) {
-                console.log(`Error updating subscribed user: ${followingUser.user_login}`);
-                console.log(err);
+                userLog.error(`Error updating subscribed user: ${followingUser.user_login}`, err);
                 continue;
             }
 
@@ -1274,8 +1560,9 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         const knownUserIds = Object.keys(this._userDetailByUserId);
         for (const userId of knownUserIds) {
             const detail = this._userDetailByUserId[userId];
-            if (!followingUsers.some(n => n.user_id === detail.id)) { // TODO: optimize this (merge the list of userIds and iterate once, perhaps?)
+            if (!followingUsers.some(n => n.user_id === detail.id) && detail.isFollower !== false) { // TODO: optimize this (merge the list of userIds and iterate once, perhaps?)
                 detail.isFollower = false;
+                this.markUserDetailChanged(userId);
             }
         }
     }
@@ -1296,6 +1583,7 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         for (const userId in userApiInfoByUserId) {
             const userDetail = this._userDetailByUserId[userId];
             const userApiInfo = userApiInfoByUserId[userId];
+            this.markUserDetailChanged(userId);
 
             if (!userApiInfo) {
                 if (!userDetail.isDeleted) {
@@ -1333,10 +1621,10 @@ export abstract class TwitchBotBase<TUserDetail extends TwitchUserDetail = Twitc
         }
 
         await this.trackUsersInChat(0, true);
-        console.log(`Successfully updated ${numDeletedUsers} / ${userIds.length} as recently deleted.`);
-        console.log(`Successfully updated ${numOutdatedUsernames} / ${userIds.length} outdated usernames.`);
-        console.log(`Successfully flagged ${numUnbannedUsers} as unbanned.`);
-        console.log(`Successfully synced ${numSyncedBans} active bans.`);
-        console.log(`Successfully banned ${numBannedBots} known bots.`);
+        userLog.info(`Successfully updated ${numDeletedUsers} / ${userIds.length} as recently deleted.`);
+        userLog.info(`Successfully updated ${numOutdatedUsernames} / ${userIds.length} outdated usernames.`);
+        userLog.info(`Successfully flagged ${numUnbannedUsers} as unbanned.`);
+        userLog.info(`Successfully synced ${numSyncedBans} active bans.`);
+        userLog.info(`Successfully banned ${numBannedBots} known bots.`);
     }
 }
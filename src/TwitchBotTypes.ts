@@ -76,9 +76,20 @@ export interface ITwitchBotConnectionConfig extends IIrcBotConnectionConfig {
             clientSecret: string;
             scope: string;
         }
+        /** Replaces the base URLs that the bot talks to Twitch through (e.g. to point it at local stand-ins when simulating) */
+        endpoints?: ITwitchEndpointsConfig;
     }
 }
 
+export interface ITwitchEndpointsConfig {
+    /** Defaults to https://api.twitch.tv/helix */
+    helix?: string;
+    /** Defaults to https://id.twitch.tv/oauth2 */
+    auth?: string;
+    /** Defaults to wss://eventsub.wss.twitch.tv/ws */
+    eventSub?: string;
+}
+
 export interface TwitchUserAPIInfo {
     id: string;
     login: string;
@@ -562,7 +573,69 @@ export class SubTierPoints {
 }
 
 export type TwitchPrivMessageTagKeys = "badge-info" | "badges" | "bits" | "client-nonce" | "color" | "display-name" | "emotes" | "flags" | "id" | "mod" | "msg-id" | "pinned-chat-paid-amount" | "pinned-chat-paid-currency" | "pinned-chat-paid-exponent" | "pinned-chat-paid-level" | "pinned-chat-paid-is-system-message" | "reply-parent-msg-id" | "reply-parent-user-id" | "reply-parent-user-login" | "reply-parent-display-name" | "reply-parent-msg-body" | "reply-thread-parent-msg-id" | "reply-thread-parent-user-login" | "returning-chatter" | "room-id" | "subscriber" | "tmi-sent-ts" | "turbo" | "user-id" | "user-type" | "vip" | string;
-export type TwitchBadgeTagKeys = "admin" | "bits" | "broadcaster" | "global_mod" | "moderator" | "subscriber" | "staff" | "turbo" | string;
+export type TwitchBadgeTagKeys = "admin" | "bits" | "broadcaster" | "global_mod" | "moderator" | "subscriber" | "staff" | "turbo" | "vip" | string;
+export type TwitchUserNoticeTagKeys = "badge-info" | "badges" | "color" | "display-name" | "emotes" | "id" | "login" | "mod" | "msg-id" | "room-id" | "subscriber" | "system-msg" | "tmi-sent-ts" | "turbo" | "user-id" | "user-type" | "msg-param-color" | "msg-param-cumulative-months" | "msg-param-displayName" | "msg-param-gift-months" | "msg-param-login" | "msg-param-months" | "msg-param-recipient-display-name" | "msg-param-recipient-id" | "msg-param-recipient-user-name" | "msg-param-should-share-streak" | "msg-param-streak-months" | "msg-param-sub-plan" | "msg-param-sub-plan-name" | "msg-param-viewerCount" | string;
+export type TwitchClearChatTagKeys = "ban-duration" | "room-id" | "target-user-id" | "tmi-sent-ts" | string;
+export type TwitchClearMsgTagKeys = "login" | "room-id" | "target-msg-id" | "tmi-sent-ts" | string;
+export type TwitchRoomStateTagKeys = "emote-only" | "followers-only" | "r9k" | "room-id" | "slow" | "subs-only" | string;
+export type TwitchNoticeTagKeys = "msg-id" | "target-user-id" | string;
+
+/** A channel's chat settings, as reported by ROOMSTATE */
+export interface TwitchRoomState {
+    roomId?: string;
+    emoteOnly?: boolean;
+    /** Minutes a user must have been following to chat (-1 if follower-only mode is off) */
+    followersOnlyMinutes?: number;
+    /** Messages must be unique (r9k mode) */
+    uniqueChat?: boolean;
+    /** Seconds each user must wait between messages (0 if slow mode is off) */
+    slowSeconds?: number;
+    subsOnly?: boolean;
+}
+
+/** The parts of a USERNOTICE common to every kind of event */
+export interface TwitchUserNotice {
+    channel: string;
+    /** The kind of event (e.g. "sub", "raid") */
+    msgId: string;
+    userId: string;
+    userLogin: string;
+    displayName: string;
+    /** Twitch's own description of the event, as shown in chat */
+    systemMessage: string;
+    /** Text the user chose to attach to the event, if any */
+    message?: string;
+}
+
+export interface TwitchSubNotice extends TwitchUserNotice {
+    msgId: "sub" | "resub";
+    cumulativeMonths: number;
+    /** Only present if the user chose to share their streak */
+    streakMonths?: number;
+    /** "Prime", "1000", "2000" or "3000" */
+    subPlan: string;
+}
+
+export interface TwitchSubGiftNotice extends TwitchUserNotice {
+    msgId: "subgift";
+    recipientId: string;
+    recipientLogin: string;
+    recipientDisplayName: string;
+    /** "1000", "2000" or "3000" */
+    subPlan: string;
+    giftMonths: number;
+}
+
+export interface TwitchRaidNotice extends TwitchUserNotice {
+    msgId: "raid";
+    viewerCount: number;
+}
+
+export interface TwitchAnnouncementNotice extends TwitchUserNotice {
+    msgId: "announcement";
+    /** "PRIMARY", "BLUE", "GREEN", "ORANGE" or "PURPLE" */
+    color: string;
+}
 
 export interface CreateCustomChannelPointRewardArgs {
     title: string;
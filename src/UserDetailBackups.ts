@@ -0,0 +1,128 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { IUserDetail, IUserDetailCollection, UserDetail } from "./IrcBot";
+
+export interface IUserDetailBackupConfig {
+    /** Defaults to true */
+    enabled?: boolean;
+    /** A snapshot is taken at startup & then on this interval (defaults to 24 hours) */
+    intervalHours?: number;
+    /** Only this many of the newest snapshots are kept (defaults to 14) */
+    retentionCount?: number;
+}
+
+export interface IUserDetailSnapshotInfo {
+    fileName: string;
+    createdAt: Date;
+}
+
+/**
+ * Writes timestamped snapshots of every user detail as "userDetails_<timestamp>.json", each with a sha256sum-compatible ".sha256" file alongside it
+ */
+export class UserDetailBackups {
+    public static readonly defaultIntervalHours = 24;
+    public static readonly defaultRetentionCount = 14;
+
+    protected static readonly fileNamePattern = /^userDetails_(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.json$/;
+    protected static readonly checksumExtension = ".sha256";
+
+    public constructor(protected readonly _directory: string, protected readonly _retentionCount: number) {
+        fs.mkdirSync(this._directory, { recursive: true });
+    }
+
+    /**
+     * Also deletes the oldest snapshots beyond the retention count
+     * @returns the snapshot's file name
+     */
+    public createSnapshot(userDetailByUserId: IUserDetailCollection<UserDetail>): string {
+        const fileName = `userDetails_${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+        const filePath = path.join(this._directory, fileName);
+        const json = JSON.stringify(userDetailByUserId);
+
+        const tempFilePath = `${filePath}_temp`;
+        fs.writeFileSync(tempFilePath, json);
+        fs.renameSync(tempFilePath, filePath);
+        fs.writeFileSync(`${filePath}${UserDetailBackups.checksumExtension}`, `${UserDetailBackups.getChecksum(json)}  ${fileName}\n`);
+
+        this.deleteOldSnapshots();
+        return fileName;
+    }
+
+    /**
+     * @returns newest first
+     */
+    public listSnapshots(): IUserDetailSnapshotInfo[] {
+        const snapshots: IUserDetailSnapshotInfo[] = [];
+        for (const fileName of fs.readdirSync(this._directory)) {
+            const match = UserDetailBackups.fileNamePattern.exec(fileName);
+            if (match) {
+                snapshots.push({ fileName, createdAt: new Date(match[1].replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, "T$1:$2:$3.$4Z")) });
+            }
+        }
+        return snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    /**
+     * Reads a snapshot & checks that it's intact before anything relies on it
+     * @throws if the snapshot doesn't exist, doesn't match its checksum, or doesn't contain valid user details
+     */
+    public loadSnapshot(fileName: string): IUserDetailCollection<IUserDetail> {
+        if (!UserDetailBackups.fileNamePattern.test(fileName)) {
+            throw new Error(`Not a user detail snapshot: ${fileName}`);
+        }
+        const filePath = path.join(this._directory, fileName);
+        const checksumFilePath = `${filePath}${UserDetailBackups.checksumExtension}`;
+        if (!fs.existsSync(filePath) || !fs.existsSync(checksumFilePath)) {
+            throw new Error(`Snapshot or its checksum is missing: ${fileName}`);
+        }
+
+        const json = fs.readFileSync(filePath, { encoding: "utf8" });
+        const expectedChecksum = fs.readFileSync(checksumFilePath, { encoding: "utf8" }).trim().split(/\s+/)[0];
+        if (UserDetailBackups.getChecksum(json) !== expectedChecksum) {
+            throw new Error(`Snapshot doesn't match its checksum: ${fileName}`);
+        }
+
+        const userDetailByUserId: unknown = JSON.parse(json);
+        const errors = UserDetailBackups.getUserDetailCollectionErrors(userDetailByUserId);
+        if (errors.length > 0) {
+            throw new Error(`Snapshot contains invalid user details (${errors.length} problem${errors.length === 1 ? `` : `s`}, first: ${errors[0]})`);
+        }
+        return userDetailByUserId as IUserDetailCollection<IUserDetail>;
+    }
+
+    protected deleteOldSnapshots(): void {
+        for (const snapshot of this.listSnapshots().slice(Math.max(this._retentionCount, 1))) {
+            const filePath = path.join(this._directory, snapshot.fileName);
+            fs.rmSync(filePath, { force: true });
+            fs.rmSync(`${filePath}${UserDetailBackups.checksumExtension}`, { force: true });
+        }
+    }
+
+    /**
+     * @returns a description of each problem with the collection (empty if it's valid)
+     */
+    protected static getUserDetailCollectionErrors(userDetailByUserId: unknown): string[] {
+        if (typeof userDetailByUserId !== "object" || userDetailByUserId === null || Array.isArray(userDetailByUserId)) {
+            return ["Expected an object of user details by user id"];
+        }
+
+        const errors: string[] = [];
+        for (const [userId, userDetail] of Object.entries(userDetailByUserId as { [userId: string]: unknown })) {
+            if (typeof userDetail !== "object" || userDetail === null) {
+                errors.push(`${userId}: expected an object`);
+                continue;
+            }
+            // Only what loading a user detail relies on; anything else missing (e.g. numChatMessages in older files) is filled in once the user chats
+            const { username, secondsInChat } = userDetail as Partial<IUserDetail>;
+            if (typeof username !== "string" || typeof secondsInChat !== "number") {
+                errors.push(`${userId}: missing username or secondsInChat`);
+            }
+        }
+        return errors;
+    }
+
+    protected static getChecksum(text: string): string {
+        return createHash("sha256").update(text, "utf8").digest("hex");
+    }
+}
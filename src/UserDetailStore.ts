@@ -0,0 +1,36 @@
+import { IUserDetail, IUserDetailCollection, UserDetail } from "./IrcBot";
+
+export type UserDetailStorageBackend = "json" | "sqlite";
+
+export interface IUserDetailStorageConfig {
+    /** Defaults to "json". Switching to "sqlite" imports the existing JSON file the first time the bot starts. */
+    backend?: UserDetailStorageBackend;
+    /** Also write every user detail to a CSV file whenever any of them change (defaults to true for the "json" backend & false for "sqlite", since it rewrites the whole file) */
+    exportCsv?: boolean;
+}
+
+/**
+ * Persists user details between runs. The bot keeps every user detail in memory & only hands the store the ones that changed.
+ */
+export interface IUserDetailStore {
+    /** Shown in logs */
+    readonly description: string;
+    /**
+     * Reads every stored user detail. Non-primitive fields (e.g. Dates) are left in their serialized form.
+     */
+    loadAll(): IUserDetailCollection<IUserDetail>;
+    /**
+     * Adds the given user details, replacing any that are already stored under the same user ids
+     */
+    upsert(userDetailsByUserId: IUserDetailCollection<UserDetail>): void;
+    /**
+     * Discards every stored user detail & stores the given ones instead (e.g. when restoring a backup)
+     */
+    replaceAll(userDetailsByUserId: IUserDetailCollection<UserDetail>): void;
+    /**
+     * Only reflects user details as of their last upsert
+     * @returns undefined if no stored user detail has this username
+     */
+    findUserIdByUsername(username: string): string | undefined;
+    close(): void;
+}
@@ -0,0 +1,56 @@
+interface IUserIdCacheEntry {
+    userId: string;
+    expiresAt: number;
+}
+
+/**
+ * Remembers which user id each login belongs to for a while, so that lookups don't need an API request every time.
+ * A login is only ever mapped to one user id (& vice versa), so caching a user's new login forgets their old one.
+ */
+export class UserIdCache {
+    protected readonly _entryByLogin: { [login: string]: IUserIdCacheEntry } = {};
+    protected readonly _loginByUserId: { [userId: string]: string } = {};
+
+    public constructor(protected readonly _ttlMillis: number) {
+    }
+
+    public set(login: string, userId: string, now: number = Date.now()): void {
+        const normalizedLogin = login.toLowerCase();
+        const previousLogin = this._loginByUserId[userId];
+        if (previousLogin !== undefined && previousLogin !== normalizedLogin) {
+            delete this._entryByLogin[previousLogin]; // renamed
+        }
+        const previousUserId = this._entryByLogin[normalizedLogin]?.userId;
+        if (previousUserId !== undefined && previousUserId !== userId) {
+            delete this._loginByUserId[previousUserId]; // the login was freed up & taken by someone else
+        }
+
+        this._entryByLogin[normalizedLogin] = { userId, expiresAt: now + this._ttlMillis };
+        this._loginByUserId[userId] = normalizedLogin;
+    }
+
+    /**
+     * @returns undefined if the login isn't cached or its entry has expired
+     */
+    public getUserId(login: string, now: number = Date.now()): string | undefined {
+        const normalizedLogin = login.toLowerCase();
+        const entry = this._entryByLogin[normalizedLogin];
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= now) {
+            this.delete(normalizedLogin);
+            return undefined;
+        }
+        return entry.userId;
+    }
+
+    public delete(login: string): void {
+        const normalizedLogin = login.toLowerCase();
+        const entry = this._entryByLogin[normalizedLogin];
+        if (entry && this._loginByUserId[entry.userId] === normalizedLogin) {
+            delete this._loginByUserId[entry.userId];
+        }
+        delete this._entryByLogin[normalizedLogin];
+    }
+}
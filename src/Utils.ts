@@ -20,4 +20,24 @@ export class Utils {
         const utcDate = new Date(utcAdjustedTime);
         return utcDate;
     }
+
+    /**
+     * @returns e.g. "1 day 2 hours 5 minutes 3 seconds", leaving out any units that are zero
+     */
+    public static getDurationString(durationMillis: number): string {
+        let dateDiff = durationMillis;
+        const days = Math.floor(dateDiff / (1000 * 60 * 60 * 24));
+        dateDiff -=  days * (1000 * 60 * 60 * 24);
+        const hours = Math.floor(dateDiff / (1000 * 60 * 60));
+        dateDiff -= hours * (1000 * 60 * 60);
+        const mins = Math.floor(dateDiff / (1000 * 60));
+        dateDiff -= mins * (1000 * 60);
+        const seconds = Math.floor(dateDiff / (1000));
+        return [
+            days ? `${days} day${days > 1 ? `s` : ``}` : ``,
+            hours ? `${hours} hour${hours > 1 ? `s` : ``}` : ``,
+            mins ? `${mins} minute${mins > 1 ? `s` : ``}` : ``,
+            seconds ? `${seconds} second${seconds > 1 ? `s` : ``}` : ``,
+        ].filter(n => !!n).join(" ");
+    }
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import { JWT } from "google-auth-library";
 import { google, sheets_v4 } from "googleapis";
 import { Future } from "../Future";
 import { HeldTask } from "../HeldTask";
+import { Logger } from "../Logger";
 import { TaskQueue } from "../TaskQueue";
 import { TwitchBotBase } from "../TwitchBot";
 import { TwitchEventSub_Event_ChannelPointCustomRewardRedemptionAdd, TwitchEventSub_Event_Cheer, TwitchEventSub_Notification_Subscription, TwitchUserDetail } from "../TwitchBotTypes";
@@ -9,6 +10,8 @@ import { Bidwar_Spreadsheet } from "./spreadsheets/BidwarSpreadsheet";
 import { GameRequest_Spreadsheet } from "./spreadsheets/GameRequestSpreadsheet";
 import { pushSpreadsheet } from "./spreadsheets/SpreadsheetBase";
 
+const sheetsLog = Logger.get("sheets");
+
 export interface GoogleAPIConfig {
     oauth: {
         clientId: string;
@@ -62,7 +65,15 @@ export class GoogleAPI {
         this._twitchBot = twitchBot;
     }
 
-    public async startup(): Promise<void> {
+    /**
+     * @param sheetsApi used in place of the Google Sheets API (e.g. an in-memory stand-in when simulating)
+     */
+    public async startup(sheetsApi?: sheets_v4.Sheets): Promise<void> {
+        if (sheetsApi) {
+            this._googleSheets.resolve(sheetsApi);
+            return;
+        }
+
         const client = new JWT({
             email: this._config.jwt.client_email,
             key: this._config.jwt.private_key,
@@ -81,6 +92,13 @@ export class GoogleAPI {
         this._gameRequestOverfundingEnabled = enable;
     }
 
+    /**
+     * Resolves once every queued spreadsheet update has been pushed (or has failed)
+     */
+    public async waitForPendingTasks(): Promise<void> {
+        await this._taskQueue.waitUntilEmpty();
+    }
+
     public async handleGameRequestAddRedeem(event: TwitchEventSub_Event_ChannelPointCustomRewardRedemptionAdd) : Promise<void> {
         const future = new Future<void>();
         const task = async (): Promise<void> => {
@@ -205,7 +223,7 @@ export class GoogleAPI {
                 gameRequestSpreadsheet = await GameRequest_Spreadsheet.getGameRequestSpreadsheet(await this._googleSheets, GoogleAPI.incentiveSheetId, GoogleAPI.gameRequestSubSheet);
             } catch (err) {
                 this._twitchBot.chat(respondTo, `Failed to read game request spreadsheet. No data altered.`);
-                console.log(err);
+                sheetsLog.error("Failed to read game request spreadsheet:", err);
                 future.resolve();
                 return;
             }
@@ -244,7 +262,7 @@ export class GoogleAPI {
                 gameRequestSpreadsheet = await GameRequest_Spreadsheet.getGameRequestSpreadsheet(await this._googleSheets, GoogleAPI.incentiveSheetId, GoogleAPI.gameRequestSubSheet);
             } catch (err) {
                 this._twitchBot.chat(respondTo, `Failed to read game request spreadsheet. No data altered.`);
-                console.log(err);
+                sheetsLog.error("Failed to read game request spreadsheet:", err);
                 future.resolve();
                 return;
             }
@@ -305,7 +323,7 @@ export class GoogleAPI {
                 gameRequestSpreadsheet = await GameRequest_Spreadsheet.getGameRequestSpreadsheet(await this._googleSheets, GoogleAPI.incentiveSheetId, GoogleAPI.gameRequestSubSheet);
             } catch (err) {
                 this._twitchBot.chat(respondTo, `Failed to read game request spreadsheet. No data altered.`);
-                console.log(err);
+                sheetsLog.error("Failed to read game request spreadsheet:", err);
                 future.resolve();
                 return;
             }
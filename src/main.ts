@@ -1,26 +1,57 @@
 import * as fs from "fs";
 import { IIrcBotAuxCommandGroupConfig, IIrcBotMiscConfig } from "./IrcBot";
+import { Logger } from "./Logger";
+import { ShutdownCoordinator } from "./ShutdownCoordinator";
 import { SpudBotTwitch } from "./SpudBot";
 import { ISpudBotConnectionConfig } from "./SpudBotTypes";
+import { Simulation } from "./simulation/Simulation";
+
+const configLog = Logger.get("config");
 
 const configDir = fs.realpathSync(`./config`);
 const miscConfigPath = fs.realpathSync(`${configDir}/miscConfig.json`);
-const connectionConfigPath = fs.realpathSync(`${configDir}/connection.json`);
 const commandConfigPath = fs.realpathSync(`${configDir}/commands.json`);
 
 const miscConfig = loadJsonFile<IIrcBotMiscConfig>(miscConfigPath);
-const connectionConfig = loadJsonFile<ISpudBotConnectionConfig>(connectionConfigPath);
 const commands = loadJsonFile<IIrcBotAuxCommandGroupConfig[]>(commandConfigPath);
 
-const bot = new SpudBotTwitch(miscConfig, connectionConfig, commands, configDir);
-bot.startup();
+if (process.argv.includes("--simulate") || process.argv.includes("--replay")) {
+    // The connection config isn't needed, since nothing connects to Twitch or Google
+    const simulation = new Simulation(miscConfig, commands, {
+        directory: getArgValue("--simulate-dir"),
+        channel: getArgValue("--channel"),
+        scriptPath: getArgValue("--script"),
+        replayPath: getArgValue("--replay"),
+        replayOutputPath: getArgValue("--replay-output"),
+    });
+    simulation.run().then(() => process.exit(0), (err) => {
+        configLog.error(`Simulation failed: ${err}`);
+        process.exit(1);
+    });
+    ShutdownCoordinator.exitOnSignals((reason) => simulation.shutdown(reason));
+} else {
+    const connectionConfigPath = fs.realpathSync(`${configDir}/connection.json`);
+    const connectionConfig = loadJsonFile<ISpudBotConnectionConfig>(connectionConfigPath);
+
+    const bot = new SpudBotTwitch(miscConfig, connectionConfig, commands, configDir);
+    bot.startup();
+    ShutdownCoordinator.exitOnSignals((reason) => bot.shutdown(reason));
+}
+
+/**
+ * @returns the command line argument that follows the given flag (e.g. the path in "--script path")
+ */
+function getArgValue(flag: string): string | undefined {
+    const index = process.argv.indexOf(flag);
+    return index === -1 ? undefined : process.argv[index + 1];
+}
 
 export function loadJsonFile<T>(filePath: string): T {
     const realPath = fs.realpathSync(filePath);
-    console.log(`Looking for configuration at: ${realPath}`);
+    configLog.info(`Looking for configuration at: ${realPath}`);
     const fileBuffer = fs.readFileSync(realPath);
     const fileStr = fileBuffer.toString("utf8");
     const config: T = JSON.parse(fileStr)
-    console.log(`Configuration successfully read`);
+    configLog.info(`Configuration successfully read`);
     return config;
 }
\ No newline at end of file
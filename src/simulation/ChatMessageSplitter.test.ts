@@ -0,0 +1,27 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { ChatMessageSplitter } from "../ChatMessageSplitter";
+
+describe("ChatMessageSplitter", () => {
+    it("leaves a message that fits unchanged", () => {
+        assert.deepStrictEqual(ChatMessageSplitter.split("Kappa  hello", { maxLength: 12, continuationMarkers: true }), ["Kappa  hello"]);
+    });
+
+    it("splits a longer message on whitespace without breaking up emotes", () => {
+        const message = "PogChamp Kappa LUL PogChamp Kappa LUL PogChamp";
+        const parts = ChatMessageSplitter.split(message, { maxLength: 20, continuationMarkers: false });
+        assert.deepStrictEqual(parts, ["PogChamp Kappa LUL", "PogChamp Kappa LUL", "PogChamp"]);
+    });
+
+    it("leaves room for continuation markers in every part", () => {
+        const message = "one two three four five six seven eight nine ten";
+        const parts = ChatMessageSplitter.split(message, { maxLength: 20, continuationMarkers: true });
+        assert.deepStrictEqual(parts, ["one two three (1/4)", "four five six (2/4)", "seven eight (3/4)", "nine ten (4/4)"]);
+        assert.ok(parts.every(n => n.length <= 20));
+    });
+
+    it("hard-splits a word too long for any part, but never between the halves of an emoji", () => {
+        const parts = ChatMessageSplitter.split("hi 💥💥💥💥", { maxLength: 5, continuationMarkers: false });
+        assert.deepStrictEqual(parts, ["hi", "💥💥", "💥💥"]);
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { ChatPriority, ChatSendQueue, IChatRateLimits } from "../ChatSendQueue";
+
+const limits: IChatRateLimits = { messagesPerWindow: 4, elevatedMessagesPerWindow: 8, windowSeconds: 30 };
+
+function createQueue(): { queue: ChatSendQueue, sent: string[] } {
+    const sent: string[] = [];
+    const queue = new ChatSendQueue((channel, message) => sent.push(`${channel} ${message}`), limits);
+    return { queue, sent };
+}
+
+describe("ChatSendQueue", () => {
+    it("sends half of the limit at once & holds the rest for the window", () => {
+        const { queue, sent } = createQueue();
+        for (let i = 1; i <= 5; i++) {
+            queue.enqueue("#channel", `message ${i}`);
+        }
+        assert.deepStrictEqual(sent, ["#channel message 1", "#channel message 2"]);
+        assert.strictEqual(queue.depth, 3);
+        queue.clear();
+    });
+
+    it("allows more at once in channels where the bot is elevated", () => {
+        const { queue, sent } = createQueue();
+        queue.setElevated("#Channel", true);
+        for (let i = 1; i <= 5; i++) {
+            queue.enqueue("#channel", `message ${i}`);
+        }
+        assert.strictEqual(sent.length, 4);
+        queue.clear();
+    });
+
+    it("drops a message identical to one that's queued or was just sent", () => {
+        const { queue, sent } = createQueue();
+        assert.strictEqual(queue.enqueue("#channel", "hello"), true);
+        assert.strictEqual(queue.enqueue("#channel", "hello"), false);
+        assert.strictEqual(queue.enqueue("#other", "hello"), true);
+        assert.deepStrictEqual(sent, ["#channel hello", "#other hello"]);
+    });
+
+    it("doesn't drop repeats that were already sent where the bot is elevated", () => {
+        const { queue, sent } = createQueue();
+        queue.setElevated("#channel", true);
+        queue.enqueue("#channel", "hello");
+        assert.strictEqual(queue.enqueue("#channel", "hello"), true);
+        assert.deepStrictEqual(sent, ["#channel hello", "#channel hello"]);
+    });
+
+    it("holds messages while paused & sends higher priorities first once resumed", () => {
+        const { queue, sent } = createQueue();
+        queue.pause();
+        queue.enqueue("#channel", "timer", ChatPriority.Low);
+        queue.enqueue("#channel", "response");
+        queue.enqueue("#channel", "moderation", ChatPriority.High);
+        assert.deepStrictEqual(sent, []);
+
+        queue.resume();
+        assert.deepStrictEqual(sent, ["#channel moderation", "#channel response"]);
+        assert.strictEqual(queue.getDepth(ChatPriority.Low), 1);
+        queue.clear();
+    });
+});
@@ -0,0 +1,40 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { CommandSchedule, CommandScheduleStatus, ICommandScheduleConfig } from "../CommandSchedule";
+
+describe("CommandSchedule", () => {
+    it("keeps a window that runs past midnight open into the next day", () => {
+        const config: ICommandScheduleConfig = { schedule: [{ days: ["fri"], startTime: "22:00", endTime: "02:00" }], timezone: "UTC" };
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-03-08T23:00:00Z")), CommandScheduleStatus.Active);
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-03-09T01:00:00Z")), CommandScheduleStatus.Active);
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-03-09T02:00:00Z")), CommandScheduleStatus.OutsideWindow);
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-03-09T23:00:00Z")), CommandScheduleStatus.OutsideWindow);
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-03-08T01:00:00Z")), CommandScheduleStatus.OutsideWindow);
+    });
+
+    it("reads dates without an offset as wall-clock time on either side of a DST change", () => {
+        assert.strictEqual(CommandSchedule.parseDate("2024-03-09T12:00:00", "America/New_York").toISOString(), "2024-03-09T17:00:00.000Z");
+        assert.strictEqual(CommandSchedule.parseDate("2024-03-10T12:00:00", "America/New_York").toISOString(), "2024-03-10T16:00:00.000Z");
+        assert.strictEqual(CommandSchedule.parseDate("2024-03-10T12:00:00+02:00", "America/New_York").toISOString(), "2024-03-10T10:00:00.000Z");
+    });
+
+    it("follows the schedule's wall-clock times across a DST change", () => {
+        const config: ICommandScheduleConfig = { schedule: [{ startTime: "09:00", endTime: "17:00" }], timezone: "America/New_York" };
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-11-02T13:30:00Z")), CommandScheduleStatus.Active);
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-11-03T13:30:00Z")), CommandScheduleStatus.OutsideWindow);
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-11-03T14:30:00Z")), CommandScheduleStatus.Active);
+    });
+
+    it("is only available between startsAt & expiresAt", () => {
+        const config: ICommandScheduleConfig = { startsAt: "2024-06-01", expiresAt: "2024-07-01T00:00:00Z", timezone: "UTC" };
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-05-31T23:59:59Z")), CommandScheduleStatus.Upcoming);
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-06-01T00:00:00Z")), CommandScheduleStatus.Active);
+        assert.strictEqual(CommandSchedule.getStatus(config, new Date("2024-07-01T00:00:00Z")), CommandScheduleStatus.Expired);
+    });
+
+    it("reports problems with the config", () => {
+        assert.deepStrictEqual(CommandSchedule.getConfigErrors({ timezone: "UTC", schedule: [{ startTime: "09:00" }] }), []);
+        assert.ok(CommandSchedule.getConfigErrors({ timezone: "Not/A_Zone" }).length > 0);
+        assert.ok(CommandSchedule.getConfigErrors({ schedule: [{ startTime: "9am" }] }).length > 0);
+    });
+});
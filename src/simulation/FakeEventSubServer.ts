@@ -0,0 +1,103 @@
+import { randomUUID } from "crypto";
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import { Logger } from "../Logger";
+import { TwitchEventSub_Notification_Event } from "../TwitchBotTypes";
+import { SimulatedChannel } from "./SimulatedChannel";
+
+const log = Logger.get("simulation");
+
+/**
+ * Stands in for Twitch's EventSub websocket: welcomes each connection with a session id, & delivers notifications to the sessions that subscribed to them through the Helix stand-in
+ */
+export class FakeEventSubServer {
+    protected _server?: WebSocketServer;
+    protected readonly _socketsBySessionId: { [sessionId: string]: WebSocket } = {};
+
+    public constructor(protected readonly _channel: SimulatedChannel) {
+    }
+
+    /**
+     * @returns the port that was bound (a free one is picked if none is given)
+     */
+    public listen(port = 0): Promise<number> {
+        return new Promise<number>((resolve, reject) => {
+            const server = new WebSocketServer({ host: "127.0.0.1", port });
+            server.once("error", reject);
+            server.once("listening", () => resolve((server.address() as AddressInfo).port));
+            server.on("connection", (socket) => this.onConnection(socket));
+            this._server = server;
+        });
+    }
+
+    public close(): Promise<void> {
+        for (const socket of Object.values(this._socketsBySessionId)) {
+            socket.terminate();
+        }
+        return new Promise<void>((resolve) => this._server ? this._server.close(() => resolve()) : resolve());
+    }
+
+    protected onConnection(socket: WebSocket): void {
+        const sessionId = randomUUID();
+        this._socketsBySessionId[sessionId] = socket;
+        socket.on("close", () => {
+            delete this._socketsBySessionId[sessionId];
+            for (const subscription of this._channel.eventSubSubscriptions.filter(n => n.sessionId === sessionId)) {
+                subscription.status = "websocket_disconnected";
+            }
+        });
+
+        socket.send(JSON.stringify({
+            metadata: {
+                message_id: randomUUID(),
+                message_type: "session_welcome",
+                message_timestamp: new Date().toISOString(),
+            },
+            payload: {
+                session: {
+                    id: sessionId,
+                    status: "connected",
+                    connected_at: new Date().toISOString(),
+                    keepalive_timeout_seconds: 10,
+                    reconnect_url: null,
+                },
+            },
+        }));
+    }
+
+    /**
+     * @returns false if no connected session is subscribed to this type of event
+     */
+    public notify(type: string, event: TwitchEventSub_Notification_Event): boolean {
+        const subscriptions = this._channel.eventSubSubscriptions.filter(n => n.type === type && n.status === "enabled" && this._socketsBySessionId[n.sessionId]);
+        if (subscriptions.length === 0) {
+            log.warn(`Nothing is subscribed to ${type}, so the event wasn't sent`);
+            return false;
+        }
+
+        for (const subscription of subscriptions) {
+            this._socketsBySessionId[subscription.sessionId].send(JSON.stringify({
+                metadata: {
+                    message_id: randomUUID(),
+                    message_type: "notification",
+                    message_timestamp: new Date().toISOString(),
+                    subscription_type: subscription.type,
+                    subscription_version: subscription.version,
+                },
+                payload: {
+                    subscription: {
+                        id: subscription.id,
+                        status: subscription.status,
+                        type: subscription.type,
+                        version: subscription.version,
+                        condition: subscription.condition,
+                        transport: { method: "websocket", session_id: subscription.sessionId },
+                        created_at: subscription.created_at,
+                    },
+                    event,
+                },
+            }));
+        }
+        return true;
+    }
+}
@@ -0,0 +1,318 @@
+import { randomUUID } from "crypto";
+import * as http from "http";
+import * as net from "net";
+import { Logger } from "../Logger";
+import { CreateCustomChannelPointRewardArgs, SubTierPoints, TwitchBannedUser, TwitchBroadcasterSubscriptionsResponse, TwitchEventSub_CreateSubscription, TwitchFollowingUser, TwitchGetChannelInfo, TwitchGetStreamInfo, TwitchSubscriptionDetail, TwitchUpdateChatSettingsRequestBody, TwitchUserToken } from "../TwitchBotTypes";
+import { ISimulatedEventSubSubscription, ISimulatedUser, SimulatedChannel } from "./SimulatedChannel";
+
+const log = Logger.get("simulation");
+
+export interface IFakeHelixRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    /** The parsed JSON body (unset if there wasn't one), which each route casts to the request type it expects */
+    body: unknown;
+}
+
+interface IFakeHelixResponse {
+    status: number;
+    body?: unknown;
+}
+
+/**
+ * Stands in for the Helix API (under /helix) & Twitch's OAuth token endpoint (under /oauth2), serving the requests TwitchBotBase makes from the simulated channel.
+ * Any token is accepted.
+ */
+export class FakeHelixServer {
+    public static readonly simulatedAccessToken = "simulated-access-token";
+
+    protected readonly _server: http.Server;
+
+    /**
+     * @param _onBan called when the bot bans or times out a user
+     * @param _onRequest called with every request the bot makes, before it's served
+     */
+    public constructor(protected readonly _channel: SimulatedChannel, protected readonly _onBan: (user: ISimulatedUser, durationSeconds?: number) => void,
+        protected readonly _onRequest?: (request: IFakeHelixRequest) => void) {
+        this._server = http.createServer((request, response) => this.onRequest(request, response));
+    }
+
+    /**
+     * @returns the port that was bound (a free one is picked if none is given)
+     */
+    public listen(port = 0): Promise<number> {
+        return new Promise<number>((resolve, reject) => {
+            this._server.once("error", reject);
+            this._server.listen(port, "127.0.0.1", () => resolve((this._server.address() as net.AddressInfo).port));
+        });
+    }
+
+    public close(): Promise<void> {
+        this._server.closeAllConnections();
+        return new Promise<void>((resolve) => this._server.close(() => resolve()));
+    }
+
+    public static getUserToken(user: ISimulatedUser): TwitchUserToken {
+        return {
+            access_token: FakeHelixServer.simulatedAccessToken,
+            expires_in: 14400,
+            refresh_token: "simulated-refresh-token",
+            scope: [],
+            token_type: "bearer",
+            user_id: user.id,
+        };
+    }
+
+    protected onRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+        const chunks: Buffer[] = [];
+        request.on("data", (chunk: Buffer) => chunks.push(chunk));
+        request.on("end", () => {
+            const url = new URL(request.url ?? "/", "http://localhost");
+            const bodyText = Buffer.concat(chunks).toString("utf8");
+            let result: IFakeHelixResponse;
+            try {
+                const helixRequest: IFakeHelixRequest = {
+                    method: request.method ?? "GET",
+                    path: url.pathname.replace(/\/+$/, ""),
+                    query: url.searchParams,
+                    body: bodyText.startsWith("{") ? JSON.parse(bodyText) : undefined, // not every JSON body is sent with a JSON content type
+                };
+                this._onRequest?.(helixRequest);
+                result = this.handleRequest(helixRequest);
+            } catch (err) {
+                result = FakeHelixServer.error(400, `${err}`);
+            }
+            log.debug(`${request.method} ${request.url} -> ${result.status}`);
+
+            if (result.body === undefined) {
+                response.writeHead(result.status);
+                response.end();
+                return;
+            }
+            response.writeHead(result.status, { "Content-Type": "application/json" });
+            response.end(JSON.stringify(result.body));
+        });
+    }
+
+    protected handleRequest(request: IFakeHelixRequest): IFakeHelixResponse {
+        const route = `${request.method} ${request.path}`;
+        switch (route) {
+            case "POST /oauth2/token": return { status: 200, body: { access_token: FakeHelixServer.simulatedAccessToken, expires_in: 14400, token_type: "bearer" } };
+            case "GET /helix/users": return this.getUsers(request);
+            case "GET /helix/channels": return this.getChannels(request);
+            case "GET /helix/streams": return this.getStreams(request);
+            case "GET /helix/eventsub/subscriptions": return this.ok(this._channel.eventSubSubscriptions.map(n => FakeHelixServer.toApiSubscription(n)), { total: this._channel.eventSubSubscriptions.length });
+            case "POST /helix/eventsub/subscriptions": return this.createEventSubSubscription(request.body as TwitchEventSub_CreateSubscription);
+            case "DELETE /helix/eventsub/subscriptions": return this.deleteEventSubSubscription(request);
+            case "GET /helix/moderation/shield_mode": return this.getShieldMode();
+            case "PUT /helix/moderation/shield_mode": return this.updateShieldMode(request.body as { is_active: boolean });
+            case "GET /helix/chat/settings": return this.ok([this._channel.chatSettings]);
+            case "PATCH /helix/chat/settings": return this.updateChatSettings(request.body as TwitchUpdateChatSettingsRequestBody);
+            case "GET /helix/subscriptions": return this.getSubscriptions();
+            case "POST /helix/moderation/bans": return this.ban(request.body as { data: { user_id: string, duration?: number } });
+            case "GET /helix/moderation/banned": return this.ok(this._channel.bans, { pagination: {} });
+            case "GET /helix/channels/followers": return this.getFollowers();
+            case "GET /helix/channel_points/custom_rewards": return this.ok(this._channel.rewards);
+            case "POST /helix/channel_points/custom_rewards": return this.createReward(request.body as CreateCustomChannelPointRewardArgs);
+            case "PATCH /helix/channel_points/custom_rewards/redemptions": return this.updateRedemption(request);
+        }
+        return FakeHelixServer.error(404, `The simulation doesn't serve ${route}`);
+    }
+
+    protected ok(data: unknown[], extra: { [key: string]: unknown } = {}): IFakeHelixResponse {
+        return { status: 200, body: { data, ...extra } };
+    }
+
+    protected static error(status: number, message: string): IFakeHelixResponse {
+        return { status, body: { error: http.STATUS_CODES[status], status, message } };
+    }
+
+    /**
+     * Without any ids or logins, this returns the user that the token belongs to (always the broadcaster here)
+     */
+    protected getUsers(request: IFakeHelixRequest): IFakeHelixResponse {
+        const ids = request.query.getAll("id");
+        const logins = request.query.getAll("login");
+        if (ids.length === 0 && logins.length === 0) {
+            return this.ok([this._channel.toUserApiInfo(this._channel.broadcaster)]);
+        }
+
+        const users = ids.map(n => this._channel.getUserById(n)).filter((n): n is ISimulatedUser => n !== undefined)
+            .concat(logins.map(n => this._channel.getUser(n)));
+        return this.ok(users.map(n => this._channel.toUserApiInfo(n)));
+    }
+
+    protected getChannels(request: IFakeHelixRequest): IFakeHelixResponse {
+        const users = request.query.getAll("broadcaster_id").map(n => this._channel.getUserById(n)).filter((n): n is ISimulatedUser => n !== undefined);
+        return this.ok(users.map((user): TwitchGetChannelInfo => ({
+            broadcaster_id: user.id,
+            broadcaster_login: user.login,
+            broadcaster_name: user.displayName,
+            broadcaster_language: "en",
+            game_name: user.gameName,
+            game_id: "0",
+            title: user.title,
+            delay: 0,
+            tags: [],
+        })));
+    }
+
+    protected getStreams(request: IFakeHelixRequest): IFakeHelixResponse {
+        const broadcaster = this._channel.broadcaster;
+        const stream = this._channel.stream;
+        if (!stream || !request.query.getAll("user_login").includes(broadcaster.login)) {
+            return this.ok([], { pagination: {} });
+        }
+        const streamInfo: TwitchGetStreamInfo = {
+            id: stream.id,
+            user_id: broadcaster.id,
+            user_name: broadcaster.displayName,
+            game_id: "0",
+            game_name: broadcaster.gameName,
+            type: "live",
+            title: broadcaster.title,
+            viewer_count: this._channel.users.length - 1,
+            started_at: stream.startedAt,
+            language: "en",
+            thumbnail_url: "",
+            tag_ids: [],
+        };
+        return this.ok([streamInfo], { pagination: {} });
+    }
+
+    protected createEventSubSubscription(body: TwitchEventSub_CreateSubscription): IFakeHelixResponse {
+        if (body.transport?.method !== "websocket" || !body.transport.session_id) {
+            return FakeHelixServer.error(400, "The simulation only supports websocket transports");
+        }
+        const subscription: ISimulatedEventSubSubscription = {
+            id: randomUUID(),
+            status: "enabled",
+            type: body.type,
+            version: body.version,
+            condition: body.condition,
+            created_at: new Date().toISOString(),
+            sessionId: body.transport.session_id,
+        };
+        this._channel.eventSubSubscriptions.push(subscription);
+        return { status: 202, body: { data: [FakeHelixServer.toApiSubscription(subscription)], total: this._channel.eventSubSubscriptions.length, total_cost: 0, max_total_cost: 10 } };
+    }
+
+    protected static toApiSubscription(subscription: ISimulatedEventSubSubscription): { [key: string]: unknown } {
+        return {
+            id: subscription.id,
+            status: subscription.status,
+            type: subscription.type,
+            version: subscription.version,
+            condition: subscription.condition,
+            created_at: subscription.created_at,
+            transport: { method: "websocket", session_id: subscription.sessionId },
+        };
+    }
+
+    protected deleteEventSubSubscription(request: IFakeHelixRequest): IFakeHelixResponse {
+        const index = this._channel.eventSubSubscriptions.findIndex(n => n.id === request.query.get("id"));
+        if (index === -1) {
+            return FakeHelixServer.error(404, "Subscription not found");
+        }
+        this._channel.eventSubSubscriptions.splice(index, 1);
+        return { status: 204 };
+    }
+
+    protected getShieldMode(): IFakeHelixResponse {
+        const broadcaster = this._channel.broadcaster;
+        return this.ok([{
+            is_active: this._channel.shieldModeActive,
+            moderator_id: broadcaster.id,
+            moderator_login: broadcaster.login,
+            moderator_name: broadcaster.displayName,
+            last_activated_at: "",
+        }]);
+    }
+
+    protected updateShieldMode(body: { is_active: boolean }): IFakeHelixResponse {
+        this._channel.shieldModeActive = body.is_active;
+        log.info(`Shield mode ${body.is_active ? `activated` : `deactivated`}`);
+        return this.getShieldMode();
+    }
+
+    protected updateChatSettings(body: TwitchUpdateChatSettingsRequestBody): IFakeHelixResponse {
+        this._channel.chatSettings = { ...this._channel.chatSettings, ...body };
+        log.info(`Chat settings updated: ${JSON.stringify(body)}`);
+        return this.ok([this._channel.chatSettings]);
+    }
+
+    protected getSubscriptions(): IFakeHelixResponse {
+        const broadcaster = this._channel.broadcaster;
+        const subscriptions = this._channel.users.filter(n => n.subscriptionTier).map((user): TwitchSubscriptionDetail => ({
+            broadcaster_id: broadcaster.id,
+            broadcaster_login: broadcaster.login,
+            broadcaster_name: broadcaster.displayName,
+            gifter_id: "",
+            gifter_login: "",
+            gifter_name: "",
+            is_gift: false,
+            tier: user.subscriptionTier as string,
+            plan_name: `Tier ${Number(user.subscriptionTier) / 1000}`,
+            user_id: user.id,
+            user_name: user.displayName,
+            user_login: user.login,
+        }));
+        const body: TwitchBroadcasterSubscriptionsResponse = {
+            data: subscriptions,
+            pagination: { cursor: "" },
+            total: subscriptions.length,
+            points: subscriptions.reduce((sum, n) => sum + SubTierPoints.getPointsByTier(n.tier), 0),
+        };
+        return { status: 200, body };
+    }
+
+    protected ban(body: { data: { user_id: string, duration?: number } }): IFakeHelixResponse {
+        const user = this._channel.getUserById(body.data.user_id);
+        if (!user) {
+            return FakeHelixServer.error(400, "The user specified in the user_id field may not be banned");
+        }
+        const broadcaster = this._channel.broadcaster;
+        const now = new Date();
+        const ban: TwitchBannedUser = {
+            user_id: user.id,
+            user_login: user.login,
+            user_name: user.displayName,
+            expires_at: body.data.duration ? new Date(now.getTime() + 1000 * body.data.duration).toISOString() : "",
+            created_at: now.toISOString(),
+            reason: "",
+            moderator_id: broadcaster.id,
+            moderator_login: broadcaster.login,
+            moderator_name: broadcaster.displayName,
+        };
+        this._channel.bans.push(ban);
+        this._onBan(user, body.data.duration);
+        return this.ok([{ broadcaster_id: broadcaster.id, moderator_id: broadcaster.id, user_id: user.id, created_at: ban.created_at, end_time: ban.expires_at || null }]);
+    }
+
+    protected getFollowers(): IFakeHelixResponse {
+        const followers = this._channel.users.filter(n => n.followedAt).map((user): TwitchFollowingUser => ({
+            user_id: user.id,
+            user_login: user.login,
+            user_name: user.displayName,
+            followed_at: user.followedAt as string,
+        }));
+        return this.ok(followers, { pagination: {}, total: followers.length });
+    }
+
+    protected createReward(body: CreateCustomChannelPointRewardArgs): IFakeHelixResponse {
+        if (this._channel.rewards.some(n => n.title === body.title)) {
+            return FakeHelixServer.error(400, "CREATE_CUSTOM_REWARD_DUPLICATE_REWARD");
+        }
+        const reward = this._channel.addReward(body);
+        log.info(`Channel point reward created: ${reward.title} (${reward.cost})`);
+        return this.ok([reward]);
+    }
+
+    protected updateRedemption(request: IFakeHelixRequest): IFakeHelixResponse {
+        const reward = this._channel.rewards.find(n => n.id === request.query.get("reward_id"));
+        const status = (request.body as { status?: string } | undefined)?.status;
+        log.info(`Redemption ${request.query.get("id")}${reward ? ` of ${reward.title}` : ``} marked ${status}`);
+        return this.ok([{ id: request.query.get("id"), status }]);
+    }
+}
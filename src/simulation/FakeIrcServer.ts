@@ -0,0 +1,202 @@
+import { randomUUID } from "crypto";
+import * as net from "net";
+import { IrcLineDecoder } from "../IrcLineDecoder";
+import { IrcMessageParser, IrcTags } from "../IrcMessageParser";
+import { Logger } from "../Logger";
+import { ISimulatedUser, SimulatedChannel } from "./SimulatedChannel";
+
+const log = Logger.get("simulation");
+
+/**
+ * Stands in for Twitch's IRC server: accepts the bot's connection, acknowledges its capabilities & channel joins, and relays simulated chat to it with the tags Twitch would attach.
+ */
+export class FakeIrcServer {
+    public static readonly serverName = "tmi.twitch.tv";
+
+    protected readonly _server: net.Server;
+    protected readonly _clients = new Set<net.Socket>();
+    protected readonly _joinedChannels = new Set<string>();
+    protected readonly _pingWaitersByToken: { [token: string]: () => void } = {};
+    protected _nick = "";
+
+    /**
+     * @param _onBotMessage called for every chat message the bot sends
+     */
+    public constructor(protected readonly _channel: SimulatedChannel, protected readonly _onBotMessage: (channel: string, message: string) => void) {
+        this._server = net.createServer((socket) => this.onConnection(socket));
+    }
+
+    public get joinedChannels(): string[] {
+        return Array.from(this._joinedChannels);
+    }
+
+    /**
+     * Resolves once the bot sends a PING carrying the given token, by which point everything it sent beforehand has arrived too
+     */
+    public waitForPing(token: string): Promise<void> {
+        return new Promise<void>((resolve) => { this._pingWaitersByToken[token] = resolve; });
+    }
+
+    /**
+     * @returns the port that was bound (a free one is picked if none is given)
+     */
+    public listen(port = 0): Promise<number> {
+        return new Promise<number>((resolve, reject) => {
+            this._server.once("error", reject);
+            this._server.listen(port, "127.0.0.1", () => resolve((this._server.address() as net.AddressInfo).port));
+        });
+    }
+
+    public close(): Promise<void> {
+        for (const client of this._clients) {
+            client.destroy();
+        }
+        return new Promise<void>((resolve) => this._server.close(() => resolve()));
+    }
+
+    protected onConnection(socket: net.Socket): void {
+        this._clients.add(socket);
+        const lineDecoder = new IrcLineDecoder("utf8");
+        socket.on("data", (data) => {
+            for (const line of lineDecoder.push(data)) {
+                this.onLine(socket, line);
+            }
+        });
+        socket.on("error", (err) => log.warn(`IRC client error: ${err.message}`));
+        socket.on("close", () => {
+            this._clients.delete(socket);
+            this._joinedChannels.clear();
+        });
+    }
+
+    protected onLine(socket: net.Socket, line: string): void {
+        const message = IrcMessageParser.parse(line);
+        if (!message) {
+            return;
+        }
+
+        switch (message.command) {
+            case "CAP":
+                this.send(socket, `:${FakeIrcServer.serverName} CAP * ACK :${message.params[message.params.length - 1]}`);
+                return;
+            case "NICK":
+                this._nick = message.params[0].toLowerCase();
+                this.send(socket, `:${FakeIrcServer.serverName} 001 ${this._nick} :Welcome, GLHF!`);
+                return;
+            case "JOIN":
+                for (const channel of message.params[0].split(",").map(n => n.toLowerCase())) {
+                    this._joinedChannels.add(channel);
+                    this.send(socket, `:${this._nick}!${this._nick}@${this._nick}.${FakeIrcServer.serverName} JOIN ${channel}`);
+                    this.send(socket, `@badge-info=;badges=moderator/1;color=;display-name=${this._nick};emote-sets=0;mod=1;subscriber=0;user-type=mod :${FakeIrcServer.serverName} USERSTATE ${channel}`);
+                    this.send(socket, `@emote-only=0;followers-only=-1;r9k=0;room-id=${this.getRoomId(channel)};slow=0;subs-only=0 :${FakeIrcServer.serverName} ROOMSTATE ${channel}`);
+                }
+                return;
+            case "PART":
+                for (const channel of message.params[0].split(",").map(n => n.toLowerCase())) {
+                    this._joinedChannels.delete(channel);
+                    this.send(socket, `:${this._nick}!${this._nick}@${this._nick}.${FakeIrcServer.serverName} PART ${channel}`);
+                }
+                return;
+            case "PING": {
+                const token = message.params[0] ?? "";
+                this._pingWaitersByToken[token]?.();
+                delete this._pingWaitersByToken[token];
+                this.send(socket, `:${FakeIrcServer.serverName} PONG ${FakeIrcServer.serverName} :${token}`);
+                return;
+            }
+            case "PRIVMSG":
+                this._onBotMessage(message.params[0], message.params[1] ?? "");
+                return;
+        }
+    }
+
+    /**
+     * Sends a chat message from a viewer to every connected client
+     */
+    public sendChat(user: ISimulatedUser, text: string, channel: string = this._channel.channel): void {
+        const tags: IrcTags = {
+            "badge-info": user.subscriptionTier ? `subscriber/1` : ``,
+            "badges": FakeIrcServer.getBadges(user).join(","),
+            "color": ``,
+            "display-name": user.displayName,
+            "emotes": ``,
+            "first-msg": `0`,
+            "flags": ``,
+            "id": randomUUID(),
+            "mod": user.isModerator ? `1` : `0`,
+            "returning-chatter": `0`,
+            "room-id": this.getRoomId(channel),
+            "subscriber": user.subscriptionTier ? `1` : `0`,
+            "tmi-sent-ts": `${Date.now()}`,
+            "turbo": `0`,
+            "user-id": user.id,
+            "user-type": user.isModerator ? `mod` : ``,
+        };
+        if (user.isVip) {
+            tags.vip = `1`; // Twitch only sends this tag for VIPs
+        }
+        this.broadcast(`${FakeIrcServer.formatTags(tags)} :${user.login}!${user.login}@${user.login}.${FakeIrcServer.serverName} PRIVMSG ${channel} :${text}`);
+    }
+
+    public sendJoin(user: ISimulatedUser, channel: string = this._channel.channel): void {
+        this.broadcast(`:${user.login}!${user.login}@${user.login}.${FakeIrcServer.serverName} JOIN ${channel}`);
+    }
+
+    public sendPart(user: ISimulatedUser, channel: string = this._channel.channel): void {
+        this.broadcast(`:${user.login}!${user.login}@${user.login}.${FakeIrcServer.serverName} PART ${channel}`);
+    }
+
+    /**
+     * @param durationSeconds undefined for a permanent ban
+     */
+    public sendClearChat(user: ISimulatedUser, durationSeconds?: number, channel: string = this._channel.channel): void {
+        const tags: IrcTags = {
+            "room-id": this.getRoomId(channel),
+            "target-user-id": user.id,
+            "tmi-sent-ts": `${Date.now()}`,
+        };
+        if (durationSeconds !== undefined) {
+            tags["ban-duration"] = `${durationSeconds}`;
+        }
+        this.broadcast(`${FakeIrcServer.formatTags(tags)} :${FakeIrcServer.serverName} CLEARCHAT ${channel} :${user.login}`);
+    }
+
+    protected broadcast(line: string): void {
+        for (const client of this._clients) {
+            this.send(client, line);
+        }
+    }
+
+    protected send(socket: net.Socket, line: string): void {
+        socket.write(`${line}\r\n`);
+    }
+
+    protected getRoomId(channel: string): string {
+        return this._channel.getUser(channel.replace(/^#/, "")).id;
+    }
+
+    /**
+     * Subscriber badge versions carry the tier in the thousands place, as Twitch's do
+     */
+    public static getBadges(user: ISimulatedUser): string[] {
+        const badges: string[] = [];
+        if (user.isBroadcaster) {
+            badges.push(`broadcaster/1`);
+        }
+        if (user.isModerator) {
+            badges.push(`moderator/1`);
+        }
+        if (user.isVip) {
+            badges.push(`vip/1`);
+        }
+        if (user.subscriptionTier) {
+            badges.push(`subscriber/${user.subscriptionTier === "1000" ? 0 : user.subscriptionTier}`);
+        }
+        return badges;
+    }
+
+    protected static formatTags(tags: IrcTags): string {
+        const escapedTags = Object.entries(tags).map(([key, value]) => `${key}=${value.replace(/\\/g, "\\\\").replace(/;/g, "\\:").replace(/ /g, "\\s")}`);
+        return `@${escapedTags.join(";")}`;
+    }
+}
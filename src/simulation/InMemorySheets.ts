@@ -0,0 +1,80 @@
+import { sheets_v4 } from "googleapis";
+
+/**
+ * Stands in for the parts of the Google Sheets API that the spreadsheet classes use (batchUpdate & getByDataFilter), keeping each subsheet's rows in memory.
+ */
+export class InMemorySheets {
+    protected readonly _rowsBySubSheetBySpreadsheet: { [spreadsheetId: string]: { [subSheetId: number]: sheets_v4.Schema$RowData[] } } = {};
+
+    /**
+     * @param _onUpdate called after the bot changes a subsheet
+     */
+    public constructor(protected readonly _onUpdate?: (subSheetId: number, spreadsheetId: string) => void) {
+    }
+
+    public readonly spreadsheets = {
+        batchUpdate: async (params: sheets_v4.Params$Resource$Spreadsheets$Batchupdate): Promise<{ data: sheets_v4.Schema$BatchUpdateSpreadsheetResponse }> => {
+            for (const request of params.requestBody?.requests ?? []) {
+                this.applyRequest(params.spreadsheetId as string, request);
+            }
+            return { data: { spreadsheetId: params.spreadsheetId } };
+        },
+        getByDataFilter: async (params: sheets_v4.Params$Resource$Spreadsheets$Getbydatafilter): Promise<{ data: sheets_v4.Schema$Spreadsheet }> => {
+            const subSheetIds = (params.requestBody?.dataFilters ?? []).map(n => n.gridRange?.sheetId ?? 0);
+            return {
+                data: {
+                    spreadsheetId: params.spreadsheetId,
+                    sheets: subSheetIds.map(n => ({
+                        properties: { sheetId: n },
+                        data: [{ rowData: InMemorySheets.clone(this.getRows(params.spreadsheetId as string, n)) }],
+                    })),
+                },
+            };
+        },
+    };
+
+    /**
+     * The spreadsheet classes only need the methods above, so this is safe to hand to them
+     */
+    public asSheetsApi(): sheets_v4.Sheets {
+        return this as unknown as sheets_v4.Sheets;
+    }
+
+    public getRows(spreadsheetId: string, subSheetId: number): sheets_v4.Schema$RowData[] {
+        return this._rowsBySubSheetBySpreadsheet[spreadsheetId]?.[subSheetId] ?? [];
+    }
+
+    public setRows(spreadsheetId: string, subSheetId: number, rows: sheets_v4.Schema$RowData[]): void {
+        const rowsBySubSheet = this._rowsBySubSheetBySpreadsheet[spreadsheetId] = this._rowsBySubSheetBySpreadsheet[spreadsheetId] ?? {};
+        rowsBySubSheet[subSheetId] = InMemorySheets.clone(rows);
+    }
+
+    /**
+     * Only whole-sheet updates are supported: a range clears the subsheet & a start position replaces its rows
+     */
+    protected applyRequest(spreadsheetId: string, request: sheets_v4.Schema$Request): void {
+        const updateCells = request.updateCells;
+        if (!updateCells) {
+            throw new Error(`The in-memory sheets only support updateCells requests (got ${Object.keys(request).join(", ")})`);
+        }
+        if (updateCells.range) {
+            this.setRows(spreadsheetId, updateCells.range.sheetId ?? 0, []);
+        } else if (updateCells.start) {
+            this.setRows(spreadsheetId, updateCells.start.sheetId ?? 0, updateCells.rows ?? []);
+            this._onUpdate?.(updateCells.start.sheetId ?? 0, spreadsheetId);
+        }
+    }
+
+    /**
+     * Google leaves out cells' empty values, which the spreadsheet classes rely on to tell blocks apart
+     */
+    protected static clone(rows: sheets_v4.Schema$RowData[]): sheets_v4.Schema$RowData[] {
+        const clonedRows: sheets_v4.Schema$RowData[] = JSON.parse(JSON.stringify(rows));
+        for (const cell of clonedRows.flatMap(n => n.values ?? [])) {
+            if (cell.userEnteredValue && Object.keys(cell.userEnteredValue).length === 0) {
+                delete cell.userEnteredValue;
+            }
+        }
+        return clonedRows;
+    }
+}
@@ -0,0 +1,33 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { IrcMessageParser } from "../IrcMessageParser";
+
+describe("IrcMessageParser", () => {
+    it("unescapes tag values", () => {
+        const tags = IrcMessageParser.parseTags("display-name=Some\\sName;system-msg=a\\:b\\\\c\\r\\nd;unknown=\\q");
+        assert.deepStrictEqual(tags, { "display-name": "Some Name", "system-msg": "a;b\\c\r\nd", unknown: "q" });
+    });
+
+    it("drops a trailing lone backslash", () => {
+        assert.strictEqual(IrcMessageParser.unescapeTagValue("abc\\"), "abc");
+    });
+
+    it("keeps '=' inside values & maps tags without one to an empty string", () => {
+        assert.deepStrictEqual(IrcMessageParser.parseTags("emote-only;reply-parent-msg-body=1+1=2;;"), { "emote-only": "", "reply-parent-msg-body": "1+1=2" });
+    });
+
+    it("splits a tagged message into its parts", () => {
+        const message = IrcMessageParser.parse("@badges=;display-name=Viewer\\sOne :viewer_one!viewer_one@viewer_one.tmi.twitch.tv privmsg #elite_spud :hello  there\r\n");
+        assert.ok(message);
+        assert.deepStrictEqual(message.tags, { badges: "", "display-name": "Viewer One" });
+        assert.deepStrictEqual(message.prefix, { raw: "viewer_one!viewer_one@viewer_one.tmi.twitch.tv", nick: "viewer_one", user: "viewer_one", host: "viewer_one.tmi.twitch.tv" });
+        assert.strictEqual(message.command, "PRIVMSG");
+        assert.deepStrictEqual(message.params, ["#elite_spud", "hello  there"]);
+        assert.strictEqual(message.trailing, "hello  there");
+    });
+
+    it("rejects a line without a command", () => {
+        assert.strictEqual(IrcMessageParser.parse("@badges=;color="), undefined);
+        assert.strictEqual(IrcMessageParser.parse(":tmi.twitch.tv"), undefined);
+    });
+});
@@ -0,0 +1,59 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { IIrcBotAuxCommandGroupConfig, IIrcBotMiscConfig } from "../IrcBot";
+import { Logger } from "../Logger";
+import { Simulation } from "./Simulation";
+import { IReplayEffect } from "./TrafficReplay";
+
+const log = Logger.get("simulation");
+
+/**
+ * Replays the capture in test/replay from an empty simulation directory & checks that the bot chats exactly what it's expected to, in the same order & at the same virtual times.
+ * Run it with "npm test" from the repository's root, or pass --update to overwrite the expected chat with whatever the bot chats now.
+ */
+async function runReplayTest(fixtureDir: string, updateExpected: boolean): Promise<boolean> {
+    const expectedPath = path.join(fixtureDir, "expectedChat.jsonl");
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "spudbot-replay-"));
+    try {
+        const outputPath = path.join(directory, "replay.jsonl");
+        const simulation = new Simulation(readJsonFile<IIrcBotMiscConfig>(path.join(fixtureDir, "miscConfig.json")), readJsonFile<IIrcBotAuxCommandGroupConfig[]>(path.join(fixtureDir, "commands.json")), {
+            directory,
+            replayPath: path.join(fixtureDir, "capture.jsonl"),
+            replayOutputPath: outputPath,
+        });
+        await simulation.run();
+
+        const actualChat = readJsonLines<IReplayEffect>(outputPath).filter(n => n.kind === "chat").map(n => JSON.stringify(n));
+        if (updateExpected) {
+            fs.writeFileSync(expectedPath, actualChat.map(n => `${n}\n`).join(""));
+            log.info(`Wrote ${actualChat.length} expected chat messages to ${expectedPath}`);
+            return true;
+        }
+
+        const expectedChat = readJsonLines<IReplayEffect>(expectedPath).map(n => JSON.stringify(n));
+        for (let i = 0; i < Math.max(expectedChat.length, actualChat.length); i++) {
+            if (expectedChat[i] !== actualChat[i]) {
+                log.error(`Chat message ${i + 1} of the replay didn't match\n  expected: ${expectedChat[i] ?? "nothing"}\n  actual:   ${actualChat[i] ?? "nothing"}`);
+                return false;
+            }
+        }
+        log.info(`The replay chatted all ${expectedChat.length} expected messages`);
+        return true;
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+}
+
+function readJsonFile<T>(filePath: string): T {
+    return JSON.parse(fs.readFileSync(filePath, { encoding: "utf8" })) as T;
+}
+
+function readJsonLines<T>(filePath: string): T[] {
+    return fs.readFileSync(filePath, { encoding: "utf8" }).split(/\r?\n/).filter(n => n.trim()).map(n => JSON.parse(n) as T);
+}
+
+runReplayTest(path.resolve("test/replay"), process.argv.includes("--update")).then((passed) => process.exit(passed ? 0 : 1), (err) => {
+    log.error(`Replay test failed: ${err}`);
+    process.exit(1);
+});
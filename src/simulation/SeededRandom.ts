@@ -0,0 +1,54 @@
+import * as crypto from "crypto";
+
+/**
+ * Replaces crypto.randomInt & Math.random while installed, so that the same seed always gives the same rolls.
+ * The bot's modules look randomInt up on the crypto module every time they call it (which is how named imports compile to CommonJS), so they pick up the replacement too.
+ */
+export class SeededRandom {
+    protected _state: number;
+    protected _realRandomInt?: typeof crypto.randomInt;
+    protected _realMathRandom?: () => number;
+
+    public constructor(seed: number) {
+        this._state = seed >>> 0;
+    }
+
+    /**
+     * @returns a number in [0, 1), from the mulberry32 generator
+     */
+    public next(): number {
+        this._state = (this._state + 0x6D2B79F5) >>> 0;
+        let t = this._state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Takes the same arguments as the synchronous form of crypto.randomInt
+     */
+    public randomInt(minOrMax: number, max?: number): number {
+        const min = max === undefined ? 0 : minOrMax;
+        const exclusiveMax = max === undefined ? minOrMax : max;
+        return min + Math.floor(this.next() * (exclusiveMax - min));
+    }
+
+    public install(): void {
+        if (this._realRandomInt) {
+            return;
+        }
+        this._realRandomInt = crypto.randomInt;
+        this._realMathRandom = Math.random;
+        (crypto as { randomInt: unknown }).randomInt = (minOrMax: number, max?: number) => this.randomInt(minOrMax, max);
+        Math.random = () => this.next();
+    }
+
+    public uninstall(): void {
+        if (this._realRandomInt && this._realMathRandom) {
+            (crypto as { randomInt: unknown }).randomInt = this._realRandomInt;
+            Math.random = this._realMathRandom;
+            this._realRandomInt = undefined;
+            this._realMathRandom = undefined;
+        }
+    }
+}
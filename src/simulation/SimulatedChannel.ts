@@ -0,0 +1,161 @@
+import { createHash } from "crypto";
+import { CreateCustomChannelPointRewardArgs, TwitchBannedUser, TwitchChatSettings, TwitchEventSub_Notification_Subscription, TwitchGetCustomChannelPointRewardInfo, TwitchUserAPIInfo } from "../TwitchBotTypes";
+
+export interface ISimulatedUser {
+    id: string;
+    login: string;
+    displayName: string;
+    isBroadcaster: boolean;
+    isModerator: boolean;
+    isVip: boolean;
+    /** "1000", "2000" or "3000" (unset if not subscribed) */
+    subscriptionTier?: string;
+    /** ISO 8601 (unset if not following) */
+    followedAt?: string;
+    /** What the user's own channel is set to (e.g. shown when they raid) */
+    gameName: string;
+    title: string;
+}
+
+export interface ISimulatedStream {
+    id: string;
+    /** ISO 8601 */
+    startedAt: string;
+}
+
+export interface ISimulatedEventSubSubscription extends TwitchEventSub_Notification_Subscription {
+    sessionId: string;
+}
+
+/**
+ * Everything the stand-in Twitch services know about the simulated channel & its viewers, shared between them so that (e.g.) a follow sent over EventSub also shows up in Helix.
+ * User ids are derived from logins, so the same user keeps their id (& their saved details) from one simulation to the next.
+ */
+export class SimulatedChannel {
+    public readonly broadcaster: ISimulatedUser;
+    public stream?: ISimulatedStream;
+    public shieldModeActive = false;
+    public chatSettings: TwitchChatSettings;
+    public readonly eventSubSubscriptions: ISimulatedEventSubSubscription[] = [];
+    public readonly rewards: TwitchGetCustomChannelPointRewardInfo[] = [];
+    public readonly bans: TwitchBannedUser[] = [];
+    protected readonly _usersByLogin: { [login: string]: ISimulatedUser } = {};
+
+    public constructor(broadcasterLogin: string, broadcasterId: string) {
+        this.broadcaster = this.addUser(broadcasterLogin, broadcasterId);
+        this.broadcaster.isBroadcaster = true;
+        this.chatSettings = {
+            broadcaster_id: broadcasterId,
+            emote_mode: false,
+            follower_mode: false,
+            follower_mode_duration: 0,
+            moderator_id: broadcasterId,
+            non_moderator_chat_delay: false,
+            non_moderator_chat_delay_duration: 0,
+            slow_mode: false,
+            slow_mode_wait_time: 0,
+            subscriber_mode: false,
+            unique_chat_mode: false,
+        };
+    }
+
+    public get channel(): string {
+        return `#${this.broadcaster.login}`;
+    }
+
+    /**
+     * Anyone can show up in a simulation, so unknown logins are added on the spot
+     * @param id given to the user if they're new (defaults to one derived from their login)
+     */
+    public getUser(login: string, id?: string): ISimulatedUser {
+        const normalizedLogin = login.toLowerCase();
+        return this._usersByLogin[normalizedLogin] ?? this.addUser(normalizedLogin, id ?? SimulatedChannel.getUserId(normalizedLogin));
+    }
+
+    public getUserById(userId: string): ISimulatedUser | undefined {
+        return Object.values(this._usersByLogin).find(n => n.id === userId);
+    }
+
+    public get users(): ISimulatedUser[] {
+        return Object.values(this._usersByLogin);
+    }
+
+    protected addUser(login: string, id: string): ISimulatedUser {
+        const user: ISimulatedUser = {
+            id,
+            login: login.toLowerCase(),
+            displayName: login,
+            isBroadcaster: false,
+            isModerator: false,
+            isVip: false,
+            gameName: "Just Chatting",
+            title: `${login}'s stream`,
+        };
+        this._usersByLogin[user.login] = user;
+        return user;
+    }
+
+    public static getUserId(login: string): string {
+        return `${parseInt(createHash("sha256").update(login).digest("hex").slice(0, 7), 16)}`;
+    }
+
+    /**
+     * Derived from the title (which Twitch requires to be unique within a channel), so that replays refer to the same rewards every time
+     */
+    public static getRewardId(title: string): string {
+        const hash = createHash("sha256").update(title).digest("hex");
+        return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+    }
+
+    public goLive(gameName?: string): void {
+        if (gameName) {
+            this.broadcaster.gameName = gameName;
+        }
+        this.stream = this.stream ?? { id: `${Date.now()}`, startedAt: new Date().toISOString() };
+    }
+
+    public goOffline(): void {
+        this.stream = undefined;
+    }
+
+    public addReward(args: CreateCustomChannelPointRewardArgs): TwitchGetCustomChannelPointRewardInfo {
+        const image = { url_1x: "", url_2x: "", url_4x: "" };
+        const reward: TwitchGetCustomChannelPointRewardInfo = {
+            broadcaster_id: this.broadcaster.id,
+            broadcaster_login: this.broadcaster.login,
+            broadcaster_name: this.broadcaster.displayName,
+            id: SimulatedChannel.getRewardId(args.title),
+            title: args.title,
+            prompt: args.prompt ?? "",
+            cost: args.cost,
+            image,
+            default_image: image,
+            background_color: args.background_color ?? "#9147FF",
+            is_enabled: args.is_enabled ?? true,
+            is_user_input_required: args.is_user_input_required ?? false,
+            max_per_stream_setting: { is_enabled: args.is_max_per_stream_enabled ?? false, max_per_stream: args.max_per_stream ?? 0 },
+            global_cooldown_setting: { is_enabled: args.is_global_cooldown_enabled ?? false, global_cooldown_seconds: args.global_cooldown_seconds ?? 0 },
+            is_paused: false,
+            is_in_stock: true,
+            should_redemptions_skip_request_queue: args.should_redemptions_skip_request_queue ?? false,
+            redemptions_redeemed_current_stream: null,
+            cooldown_expires_at: null,
+        };
+        this.rewards.push(reward);
+        return reward;
+    }
+
+    public toUserApiInfo(user: ISimulatedUser): TwitchUserAPIInfo {
+        return {
+            id: user.id,
+            login: user.login,
+            display_name: user.displayName,
+            type: "",
+            broadcaster_type: user.isBroadcaster ? "affiliate" : "",
+            description: "",
+            profile_image_url: "",
+            offline_image_url: "",
+            created_at: "2020-01-01T00:00:00Z",
+        };
+    }
+}
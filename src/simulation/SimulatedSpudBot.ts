@@ -0,0 +1,94 @@
+import { IIrcBotAuxCommandGroupConfig, IIrcBotMiscConfig } from "../IrcBot";
+import { IrcMessageParser } from "../IrcMessageParser";
+import { SpudBotTwitch } from "../SpudBot";
+import { ISpudBotConnectionConfig } from "../SpudBotTypes";
+import { TwitchEventSub_Welcome_Payload } from "../TwitchBotTypes";
+import { GoogleAPI } from "../google/GoogleAPI";
+import { FakeHelixServer } from "./FakeHelixServer";
+import { InMemorySheets } from "./InMemorySheets";
+import { SimulatedChannel } from "./SimulatedChannel";
+
+/**
+ * SpudBot as it runs against the stand-in Twitch services: the broadcaster is signed in without a browser or keychain, & spreadsheets are kept in memory
+ */
+export class SimulatedSpudBot extends SpudBotTwitch {
+    protected _isReplaying = false;
+    protected _eventSubWelcome?: Promise<void>;
+
+    public constructor(miscConfig: IIrcBotMiscConfig, connection: ISpudBotConnectionConfig, auxCommandGroups: IIrcBotAuxCommandGroupConfig[], configDir: string,
+        protected readonly _simulatedChannel: SimulatedChannel, protected readonly _sheets: InMemorySheets) {
+        super(miscConfig, connection, auxCommandGroups, configDir);
+    }
+
+    protected override async loadUserToken(): Promise<void> {
+        this._userAccessToken.resolve(FakeHelixServer.getUserToken(this._simulatedChannel.broadcaster));
+    }
+
+    protected override async getTwitchBroadcasterId(): Promise<string> {
+        return this._simulatedChannel.broadcaster.id;
+    }
+
+    /**
+     * Waits for what the bot started on its own at startup (e.g. subscribing to EventSub), then stops everything it would otherwise do in real time
+     * (tracking watch time, backups & timers), so that only replayed entries cause effects
+     */
+    public async startReplay(): Promise<void> {
+        await this._eventSubWelcome;
+        await this._pendingUserTracking;
+        await this.waitForPendingWork();
+        this._isReplaying = true;
+        clearInterval(this._userTrackingInterval);
+        clearInterval(this._userDetailBackupInterval);
+        this._configuredTimerGroups.forEach(n => n.stopTimer());
+    }
+
+    /**
+     * Resolves once queued spreadsheet updates are done & every queued chat message has been sent
+     */
+    public async waitForPendingWork(): Promise<void> {
+        await this.finishPendingTasks();
+        while (this._chatSendQueue.depth > 0) {
+            await new Promise((resolve) => setTimeout(resolve, 5)); // the queue only sends as fast as the rate limit allows
+        }
+    }
+
+    /**
+     * Handles a captured IRC line as though it had just been received
+     * @returns once the bot is done responding, if the line is a chat message (anything else is handled without waiting)
+     */
+    public async replayIrcLine(line: string): Promise<void> {
+        const message = IrcMessageParser.parse(line);
+        if (!message) {
+            throw new Error(`Unable to parse IRC message: ${line}`);
+        }
+        const messageDetail = this.getMessageDetail(message);
+        if (messageDetail?.command === "PRIVMSG") {
+            await this.handlePrivMessageResponse(messageDetail);
+        } else if (messageDetail) {
+            this.handleMessageDetail(messageDetail);
+        }
+    }
+
+    /**
+     * Handles a captured EventSub message as though it had just been received
+     */
+    public replayEventSubMessage(message: string): Promise<void> {
+        return this.onEventSubMessage(Buffer.from(message, "utf8"));
+    }
+
+    protected override handleEventSubWelcome(payload: TwitchEventSub_Welcome_Payload): Promise<void> {
+        this._eventSubWelcome = super.handleEventSubWelcome(payload);
+        return this._eventSubWelcome;
+    }
+
+    /** Timers run in real time, so they're kept off while replaying */
+    protected override async shouldRunTimersInChannel(channel: string): Promise<boolean> {
+        return !this._isReplaying && await super.shouldRunTimersInChannel(channel);
+    }
+
+    protected override async startGoogleApi(): Promise<GoogleAPI> {
+        const googleApi = new GoogleAPI(this._config.connection.google, this);
+        await googleApi.startup(this._sheets.asSheetsApi());
+        return googleApi;
+    }
+}
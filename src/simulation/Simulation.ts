@@ -0,0 +1,373 @@
+import { randomUUID } from "crypto";
+import { sheets_v4 } from "googleapis";
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { IIrcBotAuxCommandGroupConfig, IIrcBotMiscConfig } from "../IrcBot";
+import { Logger } from "../Logger";
+import { ISpudBotConnectionConfig } from "../SpudBotTypes";
+import { TrafficCapture } from "../TrafficCapture";
+import { TwitchEventSub_Event_ChannelPointCustomRewardRedemptionAdd, TwitchEventSub_Event_Cheer, TwitchEventSub_Event_Follow, TwitchEventSub_Event_Raid, TwitchEventSub_Event_SubscriptionGift, TwitchEventSub_Event_SubscriptionStart } from "../TwitchBotTypes";
+import { GoogleAPI, GoogleAPIConfig } from "../google/GoogleAPI";
+import { Bidwar_ActiveBlock, Bidwar_AwaitingBlock, Bidwar_BankBlock, Bidwar_Spreadsheet } from "../google/spreadsheets/BidwarSpreadsheet";
+import { GameRequest_CompletedBlock, GameRequest_FundedBlock, GameRequest_InProgressBlock, GameRequest_Spreadsheet, GameRequest_UnfundedBlock } from "../google/spreadsheets/GameRequestSpreadsheet";
+import { FakeEventSubServer } from "./FakeEventSubServer";
+import { FakeHelixServer } from "./FakeHelixServer";
+import { FakeIrcServer } from "./FakeIrcServer";
+import { InMemorySheets } from "./InMemorySheets";
+import { ISimulatedUser, SimulatedChannel } from "./SimulatedChannel";
+import { SimulatedSpudBot } from "./SimulatedSpudBot";
+import { TrafficReplay } from "./TrafficReplay";
+
+const log = Logger.get("simulation");
+
+export interface ISimulationOptions {
+    /** Holds the simulated bot's config & user details, so that the real ones are never touched (defaults to "./simulation") */
+    directory?: string;
+    /** IRC channel to simulate (defaults to "#elite_spud") */
+    channel?: string;
+    /** File of console lines to run in place of reading them from stdin. The simulation ends once they've all run. */
+    scriptPath?: string;
+    /** Capture (see TrafficCapture) to feed through the bot in place of any other input. The simulation ends once it's been replayed. */
+    replayPath?: string;
+    /** Where the replay's effects are written, one JSON object per line (defaults to replay.jsonl in the simulation's directory) */
+    replayOutputPath?: string;
+}
+
+/**
+ * Runs SpudBot against local stand-ins for Twitch IRC, Helix, EventSub & Google Sheets, driven by lines typed into the console (or read from a script),
+ * or by replaying captured traffic (see TrafficReplay).
+ * Chat is typed as "username: message", & everything else is a slash command (see /help).
+ */
+export class Simulation {
+    public static readonly defaultDirectory = "./simulation";
+    public static readonly defaultChannel = "#elite_spud";
+    public static readonly botNick = "spudbot";
+    /** How long to wait for the bot to join chat & subscribe to EventSub before taking input anyway */
+    public static readonly startupTimeoutSeconds = 30;
+    public static readonly helpText = [
+        `<user>: <message>                 chat as a user (e.g. "elite_spud: !bidwar")`,
+        `/mod <user>, /vip <user>          toggle a user's role`,
+        `/sub <user> [tier]                subscribe (tier 1, 2 or 3)`,
+        `/gift <user> <count> [tier]       gift subs`,
+        `/follow <user>                    follow the channel`,
+        `/cheer <user> <bits> [message]    cheer`,
+        `/raid <user> [viewers] [game]     raid the channel`,
+        `/reward <cost> <title>            create a channel point reward`,
+        `/redeem <user> <title> [| input]  redeem a channel point reward`,
+        `/join <user>, /part <user>        join or leave chat`,
+        `/live [game], /offline            start or end the stream`,
+        `/game <name>, /title <text>       change the stream's category or title`,
+        `/event <type> <json>              send any EventSub notification`,
+        `/sheets                           show the bidwar & game request spreadsheets`,
+        `/wait <seconds>                   pause (useful in scripts)`,
+        `/quit                             shut the bot down & exit`,
+    ];
+
+    protected readonly _directory: string;
+    protected readonly _channel: SimulatedChannel;
+    protected readonly _sheets = new InMemorySheets((subSheetId) => this._replay?.onSheetsUpdate(this.describeSubSheet(subSheetId)));
+    protected readonly _ircServer: FakeIrcServer;
+    protected readonly _helixServer: FakeHelixServer;
+    protected readonly _eventSubServer: FakeEventSubServer;
+    protected _bot?: SimulatedSpudBot;
+    protected _replay?: TrafficReplay;
+    protected _shutdownPromise?: Promise<void>;
+
+    /**
+     * @param _miscConfig copied into the simulation's directory, along with the commands
+     */
+    public constructor(protected readonly _miscConfig: IIrcBotMiscConfig, protected readonly _commands: IIrcBotAuxCommandGroupConfig[], protected readonly _options: ISimulationOptions = {}) {
+        this._directory = path.resolve(_options.directory ?? Simulation.defaultDirectory);
+        const broadcasterLogin = (_options.channel ?? Simulation.defaultChannel).replace(/^#/, "").toLowerCase();
+        this._channel = new SimulatedChannel(broadcasterLogin, SimulatedChannel.getUserId(broadcasterLogin));
+        this._ircServer = new FakeIrcServer(this._channel, (channel, message) => {
+            log.info(`${channel} <${Simulation.botNick}> ${message}`);
+            this._replay?.onChat(channel, message);
+        });
+        this._helixServer = new FakeHelixServer(this._channel, (user, durationSeconds) => this._ircServer.sendClearChat(user, durationSeconds), (request) => this._replay?.onHelixRequest(request));
+        this._eventSubServer = new FakeEventSubServer(this._channel);
+        this.seedSheets();
+    }
+
+    /**
+     * Resolves once the input has run out (or /quit was entered) & the bot has shut down
+     */
+    public async run(): Promise<void> {
+        this.prepareDirectory();
+        const ircPort = await this._ircServer.listen();
+        const helixPort = await this._helixServer.listen();
+        const eventSubPort = await this._eventSubServer.listen();
+
+        const connection: ISpudBotConnectionConfig = {
+            user: { nick: Simulation.botNick, pass: "oauth:simulated" },
+            server: { host: "127.0.0.1", port: ircPort, channel: this._channel.channel },
+            twitch: {
+                oauth: { clientId: "simulated", clientSecret: "simulated", scope: "" },
+                endpoints: {
+                    helix: `http://127.0.0.1:${helixPort}/helix`,
+                    auth: `http://127.0.0.1:${helixPort}/oauth2`,
+                    eventSub: `ws://127.0.0.1:${eventSubPort}`,
+                },
+            },
+            google: {} as GoogleAPIConfig, // never read, since the in-memory sheets stand in for Google's
+        };
+        log.info(`Simulating ${this._channel.channel} with the bot's files in ${this._directory}`);
+        this._bot = new SimulatedSpudBot(this._miscConfig, connection, this._commands, this._directory, this._channel, this._sheets);
+        await this._bot.startup();
+        await this.waitUntilReady();
+        if (this._options.replayPath) {
+            await this.replay(this._bot, this._options.replayPath);
+            await this.shutdown("end of replay");
+            return;
+        }
+        log.info(`Ready. Type /help for the list of commands.`);
+
+        const lines = this._options.scriptPath
+            ? fs.readFileSync(this._options.scriptPath, { encoding: "utf8" }).split(/\r?\n/)
+            : readline.createInterface({ input: process.stdin, terminal: false });
+        for await (const line of lines) {
+            if (this._shutdownPromise) {
+                break;
+            }
+            try {
+                if (!await this.handleLine(line.trim())) {
+                    break;
+                }
+            } catch (err) {
+                log.error(`Couldn't run "${line}": ${err.message}`);
+            }
+        }
+        if (lines instanceof readline.Interface) {
+            lines.close();
+        }
+        await this.shutdown("end of input");
+    }
+
+    /**
+     * Shuts the bot down, then the stand-ins. Later calls return the same promise as the first.
+     */
+    public shutdown(reason: string): Promise<void> {
+        this._shutdownPromise = this._shutdownPromise ?? (async () => {
+            await this._bot?.shutdown(reason);
+            await this._eventSubServer.close();
+            await this._helixServer.close();
+            await this._ircServer.close();
+        })();
+        return this._shutdownPromise;
+    }
+
+    /**
+     * The bot's own config files are left alone, so commands added from simulated chat only last until the next simulation
+     */
+    protected prepareDirectory(): void {
+        fs.mkdirSync(path.join(this._directory, "users"), { recursive: true });
+        fs.writeFileSync(path.join(this._directory, "miscConfig.json"), JSON.stringify(this._miscConfig, undefined, 4));
+        fs.writeFileSync(path.join(this._directory, "commands.json"), JSON.stringify(this._commands, undefined, 4));
+    }
+
+    /**
+     * The bot starts from the files in the simulation's directory & empty spreadsheets, so copy in the user details it had at the time to replay against them
+     */
+    protected async replay(bot: SimulatedSpudBot, capturePath: string): Promise<void> {
+        const entries = TrafficCapture.read(capturePath);
+        log.info(`Replaying ${entries.length} captured entries from ${path.resolve(capturePath)}`);
+        this._replay = new TrafficReplay(bot, this._channel, this._ircServer, entries);
+        const effects = await this._replay.run();
+
+        const outputPath = path.resolve(this._options.replayOutputPath ?? path.join(this._directory, "replay.jsonl"));
+        fs.writeFileSync(outputPath, effects.map(n => `${JSON.stringify(n)}\n`).join(""));
+        log.info(`Wrote the replay's effects to ${outputPath}`);
+    }
+
+    protected async waitUntilReady(): Promise<void> {
+        const deadline = Date.now() + 1000 * Simulation.startupTimeoutSeconds;
+        while (Date.now() < deadline) {
+            const hasJoined = this._ircServer.joinedChannels.includes(this._channel.channel);
+            const hasSubscribed = this._channel.eventSubSubscriptions.some(n => n.status === "enabled");
+            if (hasJoined && hasSubscribed) {
+                return;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+        log.warn(`The bot hasn't joined chat & subscribed to EventSub after ${Simulation.startupTimeoutSeconds} seconds, continuing anyway`);
+    }
+
+    /**
+     * Each spreadsheet starts out with its blocks in place but no entries
+     */
+    protected seedSheets(): void {
+        const bidwarSpreadsheet = new Bidwar_Spreadsheet(
+            new Bidwar_AwaitingBlock({ headers: [["Awaiting Approval"], ["Bits", "Game", "Note"]], entries: [] }),
+            new Bidwar_ActiveBlock({ headers: [["Bidwar"], ["Bits", "Game", "Note"]], entries: [], footer: [] }),
+            new Bidwar_BankBlock({ headers: [["Bank"], ["Balance", "User"]], entries: [] }));
+        this._sheets.setRows(GoogleAPI.incentiveSheetId, GoogleAPI.bidwarSubSheet, bidwarSpreadsheet.toRowData());
+
+        const gameRequestSpreadsheet = new GameRequest_Spreadsheet(
+            new GameRequest_UnfundedBlock({ headers: [["Unfunded"], ["Game", "Hours", "Points", "Required"]], entries: [] }),
+            new GameRequest_FundedBlock({ headers: [["Funded"], ["Game", "Hours", "Points", "Required"]], entries: [] }),
+            new GameRequest_InProgressBlock({ headers: [["In Progress"], ["Game", "Hours", "Points"]], entries: [] }),
+            new GameRequest_CompletedBlock({ headers: [["Completed"], ["Game", "Hours", "Points"]], entries: [] }));
+        this._sheets.setRows(GoogleAPI.incentiveSheetId, GoogleAPI.gameRequestSubSheet, gameRequestSpreadsheet.toRowData());
+    }
+
+    /**
+     * @returns false once the simulation should end
+     */
+    protected async handleLine(line: string): Promise<boolean> {
+        if (!line || line.startsWith("#")) { // blank lines & comments (in scripts)
+            return true;
+        }
+
+        const chatMatch = line.match(/^(\w+):\s?(.*)$/);
+        if (chatMatch) {
+            this._ircServer.sendChat(this._channel.getUser(chatMatch[1]), chatMatch[2]);
+            return true;
+        }
+
+        const [command, ...args] = line.split(" ");
+        const user = args[0] ? this._channel.getUser(args[0]) : undefined;
+        switch (command) {
+            case "/help": log.info(`Commands:\n${Simulation.helpText.join("\n")}`); break;
+            case "/quit": return false;
+            case "/wait": await new Promise((resolve) => setTimeout(resolve, 1000 * (Number(args[0]) || 1))); break;
+            case "/live": this.goLive(args.join(" ")); break;
+            case "/offline": this._channel.goOffline(); log.info(`${this._channel.channel} is offline`); break;
+            case "/game": this._channel.broadcaster.gameName = args.join(" "); log.info(`Category set to ${this._channel.broadcaster.gameName}`); break;
+            case "/title": this._channel.broadcaster.title = args.join(" "); log.info(`Title set to ${this._channel.broadcaster.title}`); break;
+            case "/mod": this.toggleRole(this.requireUser(user), "isModerator"); break;
+            case "/vip": this.toggleRole(this.requireUser(user), "isVip"); break;
+            case "/join": this._ircServer.sendJoin(this.requireUser(user)); break;
+            case "/part": this._ircServer.sendPart(this.requireUser(user)); break;
+            case "/sub": this.subscribe(this.requireUser(user), args[1]); break;
+            case "/gift": this.giftSubs(this.requireUser(user), Number(args[1]) || 1, args[2]); break;
+            case "/follow": this.follow(this.requireUser(user)); break;
+            case "/cheer": this.cheer(this.requireUser(user), Number(args[1]) || 1, args.slice(2).join(" ")); break;
+            case "/raid": this.raid(this.requireUser(user), Number(args[1]) || 1, args.slice(2).join(" ")); break;
+            case "/reward": this._channel.addReward({ cost: Number(args[0]) || 0, title: args.slice(1).join(" ") }); break;
+            case "/redeem": this.redeem(this.requireUser(user), args.slice(1).join(" ")); break;
+            case "/event": this._eventSubServer.notify(args[0], JSON.parse(args.slice(1).join(" ") || "{}")); break;
+            case "/sheets": this.logSheets(); break;
+            default: log.warn(`Unrecognized input (type /help for the list of commands): ${line}`);
+        }
+        return true;
+    }
+
+    protected requireUser(user: ISimulatedUser | undefined): ISimulatedUser {
+        if (!user) {
+            throw new Error(`A username is required`);
+        }
+        return user;
+    }
+
+    protected get broadcasterFields(): { broadcaster_user_id: string, broadcaster_user_login: string, broadcaster_user_name: string } {
+        const broadcaster = this._channel.broadcaster;
+        return { broadcaster_user_id: broadcaster.id, broadcaster_user_login: broadcaster.login, broadcaster_user_name: broadcaster.displayName };
+    }
+
+    protected goLive(gameName: string): void {
+        this._channel.goLive(gameName || undefined);
+        log.info(`${this._channel.channel} is live, playing ${this._channel.broadcaster.gameName}`);
+    }
+
+    protected toggleRole(user: ISimulatedUser, role: "isModerator" | "isVip"): void {
+        user[role] = !user[role];
+        log.info(`${user.login} is ${user[role] ? `now` : `no longer`} a ${role === "isModerator" ? `moderator` : `VIP`}`);
+    }
+
+    /**
+     * @param tier 1, 2 or 3 (defaults to 1)
+     */
+    protected subscribe(user: ISimulatedUser, tier?: string): void {
+        user.subscriptionTier = `${Number(tier) || 1}000`;
+        const event: TwitchEventSub_Event_SubscriptionStart = { ...this.broadcasterFields, user_id: user.id, user_login: user.login, user_name: user.displayName, tier: user.subscriptionTier, is_gift: false };
+        this._eventSubServer.notify("channel.subscribe", event);
+    }
+
+    protected giftSubs(gifter: ISimulatedUser, count: number, tier?: string): void {
+        const event: TwitchEventSub_Event_SubscriptionGift = { ...this.broadcasterFields, user_id: gifter.id, user_login: gifter.login, user_name: gifter.displayName, tier: `${Number(tier) || 1}000`, total: count, cumulative_total: count, is_anonymous: false };
+        this._eventSubServer.notify("channel.subscription.gift", event);
+    }
+
+    protected follow(user: ISimulatedUser): void {
+        user.followedAt = new Date().toISOString();
+        const event: TwitchEventSub_Event_Follow = { ...this.broadcasterFields, user_id: user.id, user_login: user.login, user_name: user.displayName, followed_at: user.followedAt };
+        this._eventSubServer.notify("channel.follow", event);
+    }
+
+    protected cheer(user: ISimulatedUser, bits: number, message: string): void {
+        const event: TwitchEventSub_Event_Cheer = { ...this.broadcasterFields, is_anonymous: false, user_id: user.id, user_login: user.login, user_name: user.displayName, message: message || `Cheer${bits}`, bits };
+        this._eventSubServer.notify("channel.cheer", event);
+    }
+
+    /**
+     * @param gameName what the raider was streaming (shown when the bot looks up their channel)
+     */
+    protected raid(raider: ISimulatedUser, viewers: number, gameName: string): void {
+        if (gameName) {
+            raider.gameName = gameName;
+        }
+        const broadcaster = this._channel.broadcaster;
+        const event: TwitchEventSub_Event_Raid = {
+            from_broadcaster_user_id: raider.id,
+            from_broadcaster_user_login: raider.login,
+            from_broadcaster_user_name: raider.displayName,
+            to_broadcaster_user_id: broadcaster.id,
+            to_broadcaster_user_login: broadcaster.login,
+            to_broadcaster_user_name: broadcaster.displayName,
+            viewers,
+        };
+        this._eventSubServer.notify("channel.raid", event);
+    }
+
+    /**
+     * @param titleAndInput the reward's title, optionally followed by " | " & the user's input
+     */
+    protected redeem(user: ISimulatedUser, titleAndInput: string): void {
+        const [title, ...input] = titleAndInput.split("|").map(n => n.trim());
+        let reward = this._channel.rewards.find(n => n.title.toLowerCase() === title.toLowerCase());
+        if (!reward) {
+            reward = this._channel.addReward({ title, cost: 0 });
+            log.info(`Created a free reward named "${title}" to redeem (use /reward to give one a cost)`);
+        }
+        const event: TwitchEventSub_Event_ChannelPointCustomRewardRedemptionAdd = {
+            ...this.broadcasterFields,
+            id: randomUUID(),
+            user_id: user.id,
+            user_login: user.login,
+            user_name: user.displayName,
+            user_input: input.join(" | "),
+            status: "unfulfilled",
+            reward: { id: reward.id, title: reward.title, cost: reward.cost, prompt: reward.prompt },
+            redeemed_at: new Date().toISOString(),
+        };
+        this._eventSubServer.notify("channel.channel_points_custom_reward_redemption.add", event);
+    }
+
+    protected logSheets(): void {
+        for (const subSheetId of [GoogleAPI.bidwarSubSheet, GoogleAPI.gameRequestSubSheet]) {
+            const [name, ...rows] = this.describeSubSheet(subSheetId);
+            log.info(`${name}:\n${rows.map(n => `  ${n}`).join("\n")}`);
+        }
+    }
+
+    /**
+     * @returns the subsheet's name, followed by each row that isn't blank
+     */
+    protected describeSubSheet(subSheetId: number): string[] {
+        const name = subSheetId === GoogleAPI.bidwarSubSheet ? "Bidwar" : subSheetId === GoogleAPI.gameRequestSubSheet ? "Game Requests" : `Subsheet ${subSheetId}`;
+        const rows = this._sheets.getRows(GoogleAPI.incentiveSheetId, subSheetId)
+            .map(row => (row.values ?? []).map(cell => Simulation.describeCell(cell)))
+            .filter(cells => cells.some(n => n !== ``))
+            .map(cells => cells.join(" | "));
+        return [name, ...rows];
+    }
+
+    /**
+     * Formulas aren't evaluated, so they're left out, but notes are shown since they hold the contributions & dates
+     */
+    protected static describeCell(cell: sheets_v4.Schema$CellData): string {
+        const value = cell.userEnteredValue?.stringValue ?? cell.userEnteredValue?.numberValue ?? ``;
+        return cell.note ? `${value} (${cell.note.replace(/\n/g, ", ")})`.trim() : `${value}`;
+    }
+}
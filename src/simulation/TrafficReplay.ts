@@ -0,0 +1,137 @@
+import { IrcMessageParser } from "../IrcMessageParser";
+import { Logger } from "../Logger";
+import { ITrafficCaptureEntry } from "../TrafficCapture";
+import { IFakeHelixRequest } from "./FakeHelixServer";
+import { FakeIrcServer } from "./FakeIrcServer";
+import { SeededRandom } from "./SeededRandom";
+import { SimulatedChannel } from "./SimulatedChannel";
+import { SimulatedSpudBot } from "./SimulatedSpudBot";
+import { VirtualClock } from "./VirtualClock";
+
+const log = Logger.get("simulation");
+
+export type ReplayEffectKind = "chat" | "helix" | "sheets";
+
+export interface IReplayEffect {
+    /** Virtual time (ISO 8601) of the captured entry that was being replayed */
+    timestamp: string;
+    /** Position of that entry in the capture (starting at 1) */
+    entry: number;
+    kind: ReplayEffectKind;
+    /** The chat message (after its channel), the Helix request (method, path & body) or the subsheet's rows */
+    data: string;
+}
+
+/**
+ * Feeds captured traffic through a simulated bot's own IRC & EventSub handlers, one entry at a time, with the clock set to when each entry was captured.
+ * Anything the bot sends while doing so (chat, Helix requests that change something & spreadsheet updates) is collected instead of reaching Twitch or Google.
+ * Rolls come from a fixed seed & the bot's own timers are stopped, so that the effects only depend on the capture & the files the bot started from.
+ */
+export class TrafficReplay {
+    public static readonly randomSeed = 1;
+    /** These only concern the connection they arrived on, which the simulated bot has its own of */
+    public static readonly skippedEventSubMessageTypes = ["session_welcome", "session_reconnect", "session_keepalive"];
+
+    protected readonly _clock = new VirtualClock();
+    protected readonly _random = new SeededRandom(TrafficReplay.randomSeed);
+    protected readonly _effects: IReplayEffect[] = [];
+    protected _entryNumber = 0;
+    protected _isReplaying = false;
+
+    public constructor(protected readonly _bot: SimulatedSpudBot, protected readonly _channel: SimulatedChannel, protected readonly _ircServer: FakeIrcServer,
+        protected readonly _entries: ITrafficCaptureEntry[]) {
+    }
+
+    /**
+     * @returns everything the bot sent, in order
+     */
+    public async run(): Promise<IReplayEffect[]> {
+        if (this._entries.length === 0) {
+            return this._effects;
+        }
+
+        await this._bot.startReplay();
+        this._clock.install(Date.parse(this._entries[0].timestamp));
+        this._random.install();
+        this._isReplaying = true;
+        try {
+            for (const entry of this._entries) {
+                this._entryNumber++;
+                this._clock.set(Date.parse(entry.timestamp));
+                try {
+                    await this.replayEntry(entry);
+                } catch (err) {
+                    log.error(`Error replaying entry ${this._entryNumber} (${entry.source}): ${err}`);
+                }
+                await this.settle();
+            }
+        } finally {
+            this._isReplaying = false;
+            this._random.uninstall();
+            this._clock.uninstall();
+        }
+        log.info(`Replayed ${this._entries.length} captured entries, during which the bot had ${this._effects.length} effects`);
+        return this._effects;
+    }
+
+    public onChat(channel: string, message: string): void {
+        this.addEffect("chat", `${channel} ${message}`);
+    }
+
+    /**
+     * Requests that only read are left out of the effects
+     */
+    public onHelixRequest(request: IFakeHelixRequest): void {
+        if (request.method === "GET") {
+            return;
+        }
+        const query = request.query.toString();
+        const body = request.body === undefined ? `` : ` ${JSON.stringify(request.body)}`;
+        this.addEffect("helix", `${request.method} ${request.path}${query ? `?${query}` : ``}${body}`);
+    }
+
+    public onSheetsUpdate(rows: string[]): void {
+        this.addEffect("sheets", rows.join("\n"));
+    }
+
+    protected addEffect(kind: ReplayEffectKind, data: string): void {
+        if (!this._isReplaying) {
+            return; // the bot is starting up or shutting down
+        }
+        this._effects.push({ timestamp: new Date().toISOString(), entry: this._entryNumber, kind, data });
+    }
+
+    protected async replayEntry(entry: ITrafficCaptureEntry): Promise<void> {
+        if (entry.source === "irc") {
+            const message = IrcMessageParser.parse(entry.data);
+            const login = message?.prefix?.nick;
+            if (login && message?.tags["user-id"]) {
+                this._channel.getUser(login, message.tags["user-id"]); // so that Helix lookups find them by the same id
+            }
+            await this._bot.replayIrcLine(entry.data);
+            return;
+        }
+
+        const messageJson = JSON.parse(entry.data);
+        if (TrafficReplay.skippedEventSubMessageTypes.includes(messageJson.metadata?.message_type)) {
+            return;
+        }
+        const event = messageJson.payload?.event;
+        if (event?.user_login && event.user_id) {
+            this._channel.getUser(event.user_login, event.user_id);
+        }
+        await this._bot.replayEventSubMessage(entry.data);
+    }
+
+    /**
+     * Waits until the bot has sent everything it queued for the entry & all of its chat has reached the IRC server, so that none of it is credited to the next entry.
+     * Work the bot starts in the background without waiting on it isn't covered.
+     */
+    protected async settle(): Promise<void> {
+        await this._bot.waitForPendingWork();
+        const token = `replay-${this._entryNumber}`;
+        const received = this._ircServer.waitForPing(token);
+        this._bot.sendRaw(`PING :${token}`);
+        await received;
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * Replaces the global Date while installed, so that the current time is whatever the clock was last set to instead of the system's.
+ * Timers still run in real time.
+ */
+export class VirtualClock {
+    protected _now = 0;
+    protected _realDate?: DateConstructor;
+
+    public get now(): number {
+        return this._now;
+    }
+
+    /**
+     * The clock never moves backwards (e.g. when captures from two runs of the bot overlap)
+     */
+    public set(millis: number): void {
+        this._now = Math.max(this._now, millis);
+    }
+
+    public install(millis: number): void {
+        if (this._realDate) {
+            return;
+        }
+        const realDate = this._realDate = Date;
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        const clock = this;
+        class VirtualDate extends realDate {
+            public constructor(...args: unknown[]) {
+                if (args.length === 0) {
+                    super(clock.now);
+                } else {
+                    super(...(args as [string]));
+                }
+            }
+
+            public static override now(): number {
+                return clock.now;
+            }
+
+            /** Dates created before the clock was installed are still Dates */
+            public static override [Symbol.hasInstance](value: unknown): boolean {
+                return value instanceof realDate;
+            }
+        }
+        this._now = millis;
+        globalThis.Date = VirtualDate as DateConstructor;
+    }
+
+    public uninstall(): void {
+        if (this._realDate) {
+            globalThis.Date = this._realDate;
+            this._realDate = undefined;
+        }
+    }
+}